@@ -0,0 +1,82 @@
+import { expect, test } from "bun:test";
+import { parseBinaryRdf, serializeBinaryRdf } from "./binary-rdf.ts";
+import { dataFactory as df, Namespaces } from "./terms.ts";
+import { RDFParseError } from "./types.ts";
+
+const ex = (name: string) => df.namedNode(`http://example.org/${name}`);
+
+test("serializeBinaryRdf round-trips quads", () => {
+	const quads = [
+		df.quad(ex("s"), ex("name"), df.literal("Zoë", "en"), ex("g")),
+		df.quad(
+			ex("s"),
+			ex("age"),
+			df.literal("42", df.namedNode(`${Namespaces.XSD}integer`)),
+		),
+		df.quad(df.blankNode("b0"), ex("label"), df.literal("plain")),
+		df.quad(
+			df.quad(ex("s"), ex("knows"), ex("o")),
+			ex("certainty"),
+			df.literal("0.9", df.namedNode(`${Namespaces.XSD}decimal`)),
+		),
+	];
+
+	const bytes = serializeBinaryRdf(quads);
+	expect([...bytes.subarray(0, 8)]).toEqual([
+		0x42, 0x52, 0x44, 0x46, 0, 0, 0, 1,
+	]);
+
+	const parsed = parseBinaryRdf(bytes);
+	expect(parsed).toHaveLength(quads.length);
+	parsed.forEach((quad, i) => {
+		expect(quad.equals(quads[i] as (typeof quads)[number])).toBe(true);
+	});
+});
+
+test("serializeBinaryRdf declares repeated values once", () => {
+	const quads = Array.from({ length: 50 }, (_, i) =>
+		df.quad(ex("subject-with-a-long-name"), ex("value"), df.literal(`${i}`)),
+	);
+	const bytes = serializeBinaryRdf(quads);
+	const once = serializeBinaryRdf(quads.slice(0, 1));
+
+	// Each further statement only carries two references and one literal
+	expect(bytes.length).toBeLessThan(once.length * 10);
+	expect(parseBinaryRdf(bytes).map((quad) => quad.object.value)).toEqual(
+		quads.map((quad) => quad.object.value),
+	);
+});
+
+test("parseBinaryRdf reads version 2 documents with a UTF-8 charset", () => {
+	const encoder = new TextEncoder();
+	const string = (value: string) => {
+		const bytes = encoder.encode(value);
+		return [0, 0, 0, bytes.length, ...bytes];
+	};
+	const data = new Uint8Array([
+		...encoder.encode("BRDF"),
+		...[0, 0, 0, 2],
+		...[0, 5],
+		...encoder.encode("UTF-8"),
+		...[0, ...string("ex"), ...string("http://example.org/")],
+		...[3, 0, 0, 0, 0, 0, ...string("http://example.org/s")],
+		...[1, 5, 0, 0, 0, 0, 0, ...string("http://example.org/p")],
+		...[2, ...string("café"), 0xff],
+		127,
+	]);
+
+	const [quad] = parseBinaryRdf(data);
+	expect(quad?.subject.value).toBe("http://example.org/s");
+	expect(quad?.object.value).toBe("café");
+	expect(quad?.graph.termType).toBe("DefaultGraph");
+});
+
+test("parseBinaryRdf rejects truncated or foreign input", () => {
+	const bytes = serializeBinaryRdf([df.quad(ex("s"), ex("p"), ex("o"))]);
+	expect(() => parseBinaryRdf(bytes.subarray(0, bytes.length - 4))).toThrow(
+		RDFParseError,
+	);
+	expect(() =>
+		parseBinaryRdf(new TextEncoder().encode("<s> <p> <o> .")),
+	).toThrow(RDFParseError);
+});
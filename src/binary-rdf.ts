@@ -0,0 +1,337 @@
+import type { RdfSerializeOptions } from "./rdf-formats.ts";
+import {
+	type DataFactory,
+	dataFactory,
+	Namespaces,
+	type Quad,
+	type QuadGraph,
+	type QuadObject,
+	type QuadPredicate,
+	type QuadSubject,
+} from "./terms.ts";
+import { RDFParseError } from "./types.ts";
+
+const MAGIC = [0x42, 0x52, 0x44, 0x46]; // "BRDF"
+
+/** Record types of RDF4J's binary RDF format */
+const Records = {
+	NAMESPACE_DECL: 0,
+	STATEMENT: 1,
+	COMMENT: 2,
+	VALUE_DECL: 3,
+	END_OF_DATA: 127,
+} as const;
+
+/** Value types of RDF4J's binary RDF format */
+const Values = {
+	NULL: -1,
+	URI: 0,
+	BNODE: 1,
+	PLAIN_LITERAL: 2,
+	LANG_LITERAL: 3,
+	DATATYPE_LITERAL: 4,
+	VALUE_REF: 5,
+	TRIPLE: 6,
+} as const;
+
+type BinaryValue = QuadSubject | QuadPredicate | QuadObject | QuadGraph;
+
+/** Options for the binary RDF parser */
+export interface BinaryRdfParserOptions {
+	/** Factory used to create terms (default: built-in data factory) */
+	factory?: DataFactory;
+}
+
+/**
+ * Parse an RDF4J binary RDF document (`application/x-binary-rdf`).
+ * Format versions 1 (UTF-16 strings) and 2 (strings in a declared charset)
+ * are supported.
+ */
+export function parseBinaryRdf(
+	data: Uint8Array,
+	options: BinaryRdfParserOptions = {},
+): Quad[] {
+	const factory = options.factory ?? dataFactory;
+	const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+	let pos = 0;
+
+	const require = (length: number) => {
+		if (length < 0 || pos + length > data.byteLength) {
+			throw new RDFParseError(`Unexpected end of binary RDF at byte ${pos}`);
+		}
+	};
+	const readByte = () => {
+		require(1);
+		return view.getInt8(pos++);
+	};
+	const readInt = () => {
+		require(4);
+		const value = view.getInt32(pos);
+		pos += 4;
+		return value;
+	};
+	const readBytes = (length: number) => {
+		require(length);
+		const bytes = data.subarray(pos, pos + length);
+		pos += length;
+		return bytes;
+	};
+
+	if (MAGIC.some((byte, i) => data[i] !== byte)) {
+		throw new RDFParseError("Not an RDF4J binary RDF document");
+	}
+	pos = MAGIC.length;
+	const version = readInt();
+	if (version !== 1 && version !== 2) {
+		throw new RDFParseError(`Unsupported binary RDF format version ${version}`);
+	}
+
+	let decoder = new TextDecoder("utf-16be");
+	if (version === 2) {
+		require(2);
+		const length = view.getUint16(pos);
+		pos += 2;
+		const charset = new TextDecoder().decode(readBytes(length));
+		decoder = new TextDecoder(charset);
+	}
+
+	/** Version 1 counts UTF-16 code units; version 2 counts encoded bytes */
+	const readString = () => {
+		const length = readInt();
+		return decoder.decode(readBytes(version === 1 ? length * 2 : length));
+	};
+
+	const declared = new Map<number, BinaryValue>();
+
+	const readValue = (): BinaryValue => {
+		const type = readByte();
+		switch (type) {
+			case Values.NULL:
+				return factory.defaultGraph();
+			case Values.URI:
+				return factory.namedNode(readString());
+			case Values.BNODE:
+				return factory.blankNode(readString());
+			case Values.PLAIN_LITERAL:
+				return factory.literal(readString());
+			case Values.LANG_LITERAL: {
+				const label = readString();
+				return factory.literal(label, readString());
+			}
+			case Values.DATATYPE_LITERAL: {
+				const label = readString();
+				return factory.literal(label, factory.namedNode(readString()));
+			}
+			case Values.VALUE_REF: {
+				const id = readInt();
+				const value = declared.get(id);
+				if (!value) {
+					throw new RDFParseError(`Reference to undeclared value ${id}`);
+				}
+				return value;
+			}
+			case Values.TRIPLE: {
+				const subject = readValue() as QuadSubject;
+				const predicate = readValue() as QuadPredicate;
+				const object = readValue() as QuadObject;
+				return factory.quad(subject, predicate, object);
+			}
+			default:
+				throw new RDFParseError(`Unknown binary RDF value type ${type}`);
+		}
+	};
+
+	const quads: Quad[] = [];
+	for (;;) {
+		const record = readByte();
+		switch (record) {
+			case Records.END_OF_DATA:
+				return quads;
+			case Records.NAMESPACE_DECL:
+			case Records.COMMENT:
+				// Prefixes and comments carry no statement data
+				readString();
+				if (record === Records.NAMESPACE_DECL) {
+					readString();
+				}
+				break;
+			case Records.VALUE_DECL: {
+				const id = readInt();
+				declared.set(id, readValue());
+				break;
+			}
+			case Records.STATEMENT: {
+				const subject = readValue() as QuadSubject;
+				const predicate = readValue() as QuadPredicate;
+				const object = readValue() as QuadObject;
+				const graph = readValue() as QuadGraph;
+				quads.push(factory.quad(subject, predicate, object, graph));
+				break;
+			}
+			default:
+				throw new RDFParseError(`Unknown binary RDF record type ${record}`);
+		}
+	}
+}
+
+/** Growable big-endian byte buffer */
+class ByteWriter {
+	private buffer = new Uint8Array(1024);
+	private view = new DataView(this.buffer.buffer);
+	private length = 0;
+
+	byte(value: number): void {
+		this.ensure(1);
+		this.view.setInt8(this.length++, value);
+	}
+
+	int(value: number): void {
+		this.ensure(4);
+		this.view.setInt32(this.length, value);
+		this.length += 4;
+	}
+
+	/** Write a version 1 string: UTF-16 code unit count, then UTF-16BE */
+	string(value: string): void {
+		this.int(value.length);
+		this.ensure(value.length * 2);
+		for (let i = 0; i < value.length; i++) {
+			this.view.setUint16(this.length, value.charCodeAt(i));
+			this.length += 2;
+		}
+	}
+
+	bytes(): Uint8Array {
+		return this.buffer.slice(0, this.length);
+	}
+
+	private ensure(extra: number): void {
+		if (this.length + extra <= this.buffer.length) {
+			return;
+		}
+		let size = this.buffer.length * 2;
+		while (size < this.length + extra) {
+			size *= 2;
+		}
+		const next = new Uint8Array(size);
+		next.set(this.buffer.subarray(0, this.length));
+		this.buffer = next;
+		this.view = new DataView(next.buffer);
+	}
+}
+
+/** Key identifying a value for reuse through value declarations */
+function valueKey(value: BinaryValue): string | undefined {
+	switch (value.termType) {
+		case "NamedNode":
+			return `<${value.value}`;
+		case "BlankNode":
+			return `_${value.value}`;
+		case "Literal":
+			return `"${value.value}"${value.language}^${value.datatype.value}`;
+		default:
+			return undefined;
+	}
+}
+
+/**
+ * Serialize quads as an RDF4J binary RDF document (format version 1).
+ * Values that occur more than once are declared on their second use and
+ * referenced by id afterwards.
+ */
+export function serializeBinaryRdf(
+	quads: Iterable<Quad>,
+	options: RdfSerializeOptions = {},
+): Uint8Array {
+	const out = new ByteWriter();
+	for (const byte of MAGIC) {
+		out.byte(byte);
+	}
+	out.int(1);
+
+	for (const [prefix, namespace] of Object.entries(options.prefixes ?? {})) {
+		out.byte(Records.NAMESPACE_DECL);
+		out.string(prefix);
+		out.string(namespace);
+	}
+
+	const seen = new Set<string>();
+	const ids = new Map<string, number>();
+
+	const writeValue = (value: BinaryValue): void => {
+		const key = valueKey(value);
+		const id = key === undefined ? undefined : ids.get(key);
+		if (id !== undefined) {
+			out.byte(Values.VALUE_REF);
+			out.int(id);
+			return;
+		}
+
+		switch (value.termType) {
+			case "DefaultGraph":
+				out.byte(Values.NULL);
+				break;
+			case "NamedNode":
+				out.byte(Values.URI);
+				out.string(value.value);
+				break;
+			case "BlankNode":
+				out.byte(Values.BNODE);
+				out.string(value.value);
+				break;
+			case "Literal":
+				if (value.language) {
+					out.byte(Values.LANG_LITERAL);
+					out.string(value.value);
+					out.string(value.language);
+				} else if (value.datatype.value === `${Namespaces.XSD}string`) {
+					out.byte(Values.PLAIN_LITERAL);
+					out.string(value.value);
+				} else {
+					out.byte(Values.DATATYPE_LITERAL);
+					out.string(value.value);
+					out.string(value.datatype.value);
+				}
+				break;
+			case "Quad":
+				out.byte(Values.TRIPLE);
+				writeValue(value.subject);
+				writeValue(value.predicate);
+				writeValue(value.object);
+				break;
+			default:
+				throw new Error(`Cannot serialize ${value.termType} as binary RDF`);
+		}
+	};
+
+	/** Declare values being used for the second time */
+	const declareRepeated = (value: BinaryValue): void => {
+		const key = valueKey(value);
+		if (key === undefined || ids.has(key)) {
+			return;
+		}
+		if (!seen.has(key)) {
+			seen.add(key);
+			return;
+		}
+		seen.delete(key);
+		out.byte(Records.VALUE_DECL);
+		out.int(ids.size);
+		writeValue(value);
+		ids.set(key, ids.size);
+	};
+
+	for (const quad of quads) {
+		const terms = [quad.subject, quad.predicate, quad.object, quad.graph];
+		for (const term of terms) {
+			declareRepeated(term);
+		}
+		out.byte(Records.STATEMENT);
+		for (const term of terms) {
+			writeValue(term);
+		}
+	}
+
+	out.byte(Records.END_OF_DATA);
+	return out.bytes();
+}
@@ -0,0 +1,123 @@
+import { expect, test } from "bun:test";
+import { parseBinaryResults } from "./binary-results.ts";
+import { Namespaces } from "./terms.ts";
+import { QueryResultsError, RDFParseError } from "./types.ts";
+
+/** Assemble a binary results table from bytes, ints and strings */
+function table(...parts: Array<number | string | { int: number }>): Uint8Array {
+	const bytes: number[] = [...new TextEncoder().encode("BRTR"), 0, 0, 0, 4];
+	const int = (value: number) =>
+		bytes.push(
+			(value >>> 24) & 0xff,
+			(value >>> 16) & 0xff,
+			(value >>> 8) & 0xff,
+			value & 0xff,
+		);
+	for (const part of parts) {
+		if (typeof part === "number") {
+			bytes.push(part);
+		} else if (typeof part === "string") {
+			const encoded = new TextEncoder().encode(part);
+			int(encoded.length);
+			bytes.push(...encoded);
+		} else {
+			int(part.int);
+		}
+	}
+	return new Uint8Array(bytes);
+}
+
+test("parseBinaryResults decodes values, namespaces and repeats", () => {
+	const data = table(
+		{ int: 2 },
+		"s",
+		"o",
+		// Row 1: namespace record, qname, datatype literal using the namespace
+		2,
+		{ int: 0 },
+		"http://ex/",
+		3,
+		{ int: 0 },
+		"a",
+		2,
+		{ int: 1 },
+		Namespaces.XSD,
+		8,
+		"42",
+		3,
+		{ int: 1 },
+		"integer",
+		// Row 2: repeated subject, language literal
+		1,
+		7,
+		"café",
+		"EN",
+		// Row 3: blank node, unbound
+		5,
+		"b0",
+		0,
+		// Row 4: empty row
+		9,
+		// Row 5: full URI, plain literal
+		4,
+		"http://other/x",
+		6,
+		"plain",
+		127,
+	);
+
+	expect(parseBinaryResults(data)).toEqual({
+		head: { vars: ["s", "o"] },
+		results: {
+			bindings: [
+				{
+					s: { type: "uri", value: "http://ex/a" },
+					o: {
+						type: "literal",
+						value: "42",
+						datatype: `${Namespaces.XSD}integer`,
+					},
+				},
+				{
+					s: { type: "uri", value: "http://ex/a" },
+					o: { type: "literal", value: "café", "xml:lang": "EN" },
+				},
+				{ s: { type: "bnode", value: "b0" } },
+				{},
+				{
+					s: { type: "uri", value: "http://other/x" },
+					o: { type: "literal", value: "plain" },
+				},
+			],
+		},
+	});
+});
+
+test("parseBinaryResults raises error records", () => {
+	const data = table(
+		{ int: 1 },
+		"s",
+		4,
+		"http://ex/a",
+		126,
+		2,
+		"Query timed out",
+	);
+
+	expect(() => parseBinaryResults(data)).toThrow(QueryResultsError);
+	try {
+		parseBinaryResults(data);
+	} catch (error) {
+		expect((error as QueryResultsError).errorType).toBe("QUERY_EVALUATION");
+		expect((error as Error).message).toBe("Query timed out");
+	}
+});
+
+test("parseBinaryResults rejects truncated or foreign input", () => {
+	expect(() => parseBinaryResults(table({ int: 1 }, "s", 4))).toThrow(
+		RDFParseError,
+	);
+	expect(() =>
+		parseBinaryResults(new TextEncoder().encode('{"head":{}}')),
+	).toThrow(RDFParseError);
+});
@@ -0,0 +1,216 @@
+import type { SparqlBinding, SparqlBindings } from "./repository-client.ts";
+import type { SparqlTerm } from "./terms.ts";
+import { QueryResultsError, RDFParseError } from "./types.ts";
+
+const MAGIC = "BRTR";
+
+/** Record type markers used by RDF4J's binary results table format */
+const Records = {
+	NULL: 0,
+	REPEAT: 1,
+	NAMESPACE: 2,
+	QNAME: 3,
+	URI: 4,
+	BNODE: 5,
+	PLAIN_LITERAL: 6,
+	LANG_LITERAL: 7,
+	DATATYPE_LITERAL: 8,
+	EMPTY_ROW: 9,
+	TRIPLE: 10,
+	ERROR: 126,
+	TABLE_END: 127,
+} as const;
+
+const ERROR_TYPES: Record<number, QueryResultsError["errorType"]> = {
+	1: "MALFORMED_QUERY",
+	2: "QUERY_EVALUATION",
+};
+
+/** Sequential reader over a big-endian binary buffer */
+class BinaryReader {
+	private readonly view: DataView;
+	private readonly decoder = new TextDecoder();
+	private pos = 0;
+
+	constructor(
+		private readonly bytes: Uint8Array,
+		/** Format version, which determines how strings are encoded */
+		public version = 0,
+	) {
+		this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+	}
+
+	byte(): number {
+		this.require(1);
+		return this.view.getUint8(this.pos++);
+	}
+
+	int(): number {
+		this.require(4);
+		const value = this.view.getInt32(this.pos);
+		this.pos += 4;
+		return value;
+	}
+
+	raw(length: number): Uint8Array {
+		this.require(length);
+		const value = this.bytes.subarray(this.pos, this.pos + length);
+		this.pos += length;
+		return value;
+	}
+
+	/** Read a string: 16-bit length prefixed in version 1, 32-bit afterwards */
+	string(): string {
+		let length: number;
+		if (this.version === 1) {
+			this.require(2);
+			length = this.view.getUint16(this.pos);
+			this.pos += 2;
+		} else {
+			length = this.int();
+		}
+		return this.decoder.decode(this.raw(length));
+	}
+
+	private require(length: number): void {
+		if (length < 0 || this.pos + length > this.bytes.byteLength) {
+			throw new RDFParseError(
+				`Unexpected end of binary results at byte ${this.pos}`,
+			);
+		}
+	}
+}
+
+/**
+ * Parse RDF4J's binary tuple results table
+ * (`application/x-binary-rdf-results-table`) into the SPARQL JSON results
+ * shape. Error records embedded in the stream are raised as
+ * {@link QueryResultsError}.
+ */
+export function parseBinaryResults(data: Uint8Array): SparqlBindings {
+	const reader = new BinaryReader(data);
+	const magic = new TextDecoder().decode(reader.raw(MAGIC.length));
+	if (magic !== MAGIC) {
+		throw new RDFParseError("Not an RDF4J binary results table");
+	}
+	reader.version = reader.int();
+	if (reader.version < 1 || reader.version > 4) {
+		throw new RDFParseError(
+			`Unsupported binary results format version ${reader.version}`,
+		);
+	}
+
+	const columnCount = reader.int();
+	const vars: string[] = [];
+	for (let i = 0; i < columnCount; i++) {
+		vars.push(reader.string());
+	}
+
+	const namespaces = new Map<number, string>();
+	const bindings: SparqlBinding[] = [];
+	let previous: Array<SparqlTerm | undefined> = [];
+	let current: Array<SparqlTerm | undefined> = [];
+
+	const readNamespace = () => {
+		const id = reader.int();
+		namespaces.set(id, reader.string());
+	};
+
+	const readIri = (marker: number): string => {
+		if (marker === Records.URI) {
+			return reader.string();
+		}
+		const namespace = namespaces.get(reader.int());
+		if (namespace === undefined) {
+			throw new RDFParseError("Reference to undeclared namespace");
+		}
+		return namespace + reader.string();
+	};
+
+	/** Read the next value marker, processing any namespace records first */
+	const nextMarker = (): number => {
+		let marker = reader.byte();
+		while (marker === Records.NAMESPACE) {
+			readNamespace();
+			marker = reader.byte();
+		}
+		return marker;
+	};
+
+	const readValue = (marker: number): SparqlTerm | undefined => {
+		switch (marker) {
+			case Records.NULL:
+				return undefined;
+			case Records.REPEAT:
+				return previous[current.length];
+			case Records.QNAME:
+			case Records.URI:
+				return { type: "uri", value: readIri(marker) };
+			case Records.BNODE:
+				return { type: "bnode", value: reader.string() };
+			case Records.PLAIN_LITERAL:
+				return { type: "literal", value: reader.string() };
+			case Records.LANG_LITERAL: {
+				const value = reader.string();
+				return { type: "literal", value, "xml:lang": reader.string() };
+			}
+			case Records.DATATYPE_LITERAL: {
+				const value = reader.string();
+				const datatypeMarker = nextMarker();
+				if (
+					datatypeMarker !== Records.QNAME &&
+					datatypeMarker !== Records.URI
+				) {
+					throw new RDFParseError(
+						`Invalid datatype record type ${datatypeMarker}`,
+					);
+				}
+				return { type: "literal", value, datatype: readIri(datatypeMarker) };
+			}
+			case Records.TRIPLE:
+				throw new RDFParseError(
+					"RDF-star triple values are not supported in binary results",
+				);
+			default:
+				throw new RDFParseError(`Unknown binary results record type ${marker}`);
+		}
+	};
+
+	const emitRow = () => {
+		const binding: SparqlBinding = {};
+		current.forEach((term, i) => {
+			const name = vars[i];
+			if (term && name !== undefined) {
+				binding[name] = term;
+			}
+		});
+		bindings.push(binding);
+		previous = current;
+		current = [];
+	};
+
+	for (;;) {
+		const marker = nextMarker();
+		if (marker === Records.TABLE_END) {
+			break;
+		}
+		if (marker === Records.ERROR) {
+			const errorType = ERROR_TYPES[reader.byte()] ?? "QUERY_EVALUATION";
+			throw new QueryResultsError(reader.string(), errorType);
+		}
+		if (marker === Records.EMPTY_ROW) {
+			current = [];
+			emitRow();
+			continue;
+		}
+		current.push(readValue(marker));
+		if (current.length === columnCount) {
+			emitRow();
+		}
+	}
+
+	if (current.length > 0) {
+		throw new RDFParseError("Binary results table ended mid-row");
+	}
+	return { head: { vars }, results: { bindings } };
+}
@@ -0,0 +1,107 @@
+import { expect, test } from "bun:test";
+import { BindingsStream, SparqlJsonParser } from "./bindings-stream.ts";
+import { AbortError, RDFParseError } from "./types.ts";
+
+const document = JSON.stringify({
+	head: { vars: ["s", "label"] },
+	results: {
+		bindings: [
+			{
+				s: { type: "uri", value: "http://ex/1" },
+				label: { type: "literal", value: 'with "quotes" and } brace' },
+			},
+			{ s: { type: "uri", value: "http://ex/2" } },
+			{ s: { type: "bnode", value: "b0" } },
+		],
+	},
+});
+
+function chunkedStream(text: string, size: number) {
+	const bytes = new TextEncoder().encode(text);
+	let cancelled = false;
+	let offset = 0;
+	const stream = new ReadableStream<Uint8Array>({
+		pull(controller) {
+			if (offset >= bytes.length) {
+				controller.close();
+				return;
+			}
+			controller.enqueue(bytes.slice(offset, offset + size));
+			offset += size;
+		},
+		cancel() {
+			cancelled = true;
+		},
+	});
+	return { stream, isCancelled: () => cancelled };
+}
+
+test("SparqlJsonParser yields rows across arbitrary chunk boundaries", () => {
+	for (const size of [1, 7, 64, document.length]) {
+		const parser = new SparqlJsonParser();
+		const rows = [];
+		for (let i = 0; i < document.length; i += size) {
+			rows.push(...parser.push(document.slice(i, i + size)));
+		}
+		parser.end();
+
+		expect(parser.head).toEqual({ vars: ["s", "label"] });
+		expect(rows).toEqual(JSON.parse(document).results.bindings);
+	}
+});
+
+test("SparqlJsonParser rejects truncated documents", () => {
+	const parser = new SparqlJsonParser();
+	parser.push(document.slice(0, 40));
+	expect(() => parser.end()).toThrow(RDFParseError);
+});
+
+test("BindingsStream exposes vars before the first row", async () => {
+	const { stream } = chunkedStream(document, 16);
+	const bindings = await BindingsStream.open(stream);
+	expect(bindings.vars).toEqual(["s", "label"]);
+
+	const values = [];
+	for await (const row of bindings) {
+		values.push(row.s?.value);
+	}
+	expect(values).toEqual(["http://ex/1", "http://ex/2", "b0"]);
+});
+
+test("BindingsStream cancels the body when the consumer breaks", async () => {
+	const { stream, isCancelled } = chunkedStream(document, 8);
+	const bindings = await BindingsStream.open(stream);
+
+	for await (const row of bindings) {
+		expect(row.s?.value).toBe("http://ex/1");
+		break;
+	}
+	expect(isCancelled()).toBe(true);
+});
+
+test("BindingsStream raises AbortError when the request aborts mid-stream", async () => {
+	const controller = new AbortController();
+	const first = document.slice(0, document.indexOf("}},") + 3);
+	const stream = new ReadableStream<Uint8Array>({
+		start(body) {
+			body.enqueue(new TextEncoder().encode(first));
+			// Like fetch, fail the body once the request's signal aborts
+			controller.signal.addEventListener("abort", () =>
+				body.error(new DOMException("aborted", "AbortError")),
+			);
+		},
+	});
+	const bindings = await BindingsStream.open(stream, controller.signal);
+
+	const values: Array<string | undefined> = [];
+	const reason = new Error("cancelled");
+	const error = await (async () => {
+		for await (const row of bindings) {
+			values.push(row.s?.value);
+			controller.abort(reason);
+		}
+	})().catch((e) => e);
+	expect(values).toEqual(["http://ex/1"]);
+	expect(error).toBeInstanceOf(AbortError);
+	expect((error as AbortError).cause).toBe(reason);
+});
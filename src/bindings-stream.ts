@@ -0,0 +1,275 @@
+import { throwIfAborted } from "./http-client.ts";
+import type { SparqlBinding, SparqlBindings } from "./repository-client.ts";
+import { RDFParseError } from "./types.ts";
+
+interface Frame {
+	type: "object" | "array";
+	/** Key of the member currently being read (objects only) */
+	key?: string;
+	/** Whether the next string in this object is a member key */
+	expectKey: boolean;
+}
+
+/**
+ * Incremental parser for SPARQL JSON results documents. Only `head` and the
+ * individual entries of `results.bindings` are materialized, so memory use
+ * is bounded by the size of a single row rather than the whole response.
+ */
+export class SparqlJsonParser {
+	/** The parsed `head` member, once it has been read */
+	head?: SparqlBindings["head"];
+
+	private buffer = "";
+	private pos = 0;
+	private readonly stack: Frame[] = [];
+	private inString = false;
+	private escaped = false;
+	private stringStart = 0;
+	private captureStart: number | undefined;
+	private captureDepth = 0;
+	private started = false;
+
+	/** Feed a chunk of text, returning the binding rows completed by it */
+	push(chunk: string): SparqlBinding[] {
+		const rows: SparqlBinding[] = [];
+		this.buffer += chunk;
+
+		for (; this.pos < this.buffer.length; this.pos++) {
+			const char = this.buffer[this.pos];
+
+			if (this.inString) {
+				if (this.escaped) {
+					this.escaped = false;
+				} else if (char === "\\") {
+					this.escaped = true;
+				} else if (char === '"') {
+					this.inString = false;
+					this.endString();
+				}
+				continue;
+			}
+
+			switch (char) {
+				case '"':
+					this.inString = true;
+					this.stringStart = this.pos;
+					break;
+				case "{":
+				case "[":
+					this.beginContainer(char === "{" ? "object" : "array");
+					break;
+				case "}":
+				case "]":
+					this.endContainer(rows);
+					break;
+				case ",": {
+					const frame = this.stack.at(-1);
+					if (frame?.type === "object") {
+						frame.expectKey = true;
+					}
+					break;
+				}
+			}
+		}
+
+		this.compact();
+		return rows;
+	}
+
+	/** Signal the end of input, validating that the document was complete */
+	end(): void {
+		if (!this.started || this.stack.length > 0 || this.inString) {
+			throw new RDFParseError("Unexpected end of SPARQL JSON results");
+		}
+	}
+
+	private beginContainer(type: Frame["type"]): void {
+		if (!this.started && type !== "object") {
+			throw new RDFParseError("SPARQL JSON results must be an object");
+		}
+		this.started = true;
+
+		if (this.captureStart === undefined && this.isCapturePath()) {
+			this.captureStart = this.pos;
+			this.captureDepth = this.stack.length;
+		}
+		this.stack.push({ type, expectKey: type === "object" });
+	}
+
+	private endContainer(rows: SparqlBinding[]): void {
+		this.stack.pop();
+		if (
+			this.captureStart === undefined ||
+			this.stack.length !== this.captureDepth
+		) {
+			return;
+		}
+
+		const value = JSON.parse(
+			this.buffer.slice(this.captureStart, this.pos + 1),
+		);
+		this.captureStart = undefined;
+		if (this.stack.length === 1) {
+			this.head = value;
+		} else {
+			rows.push(value);
+		}
+	}
+
+	private endString(): void {
+		const frame = this.stack.at(-1);
+		if (frame?.type === "object" && frame.expectKey) {
+			frame.key = JSON.parse(this.buffer.slice(this.stringStart, this.pos + 1));
+			frame.expectKey = false;
+		}
+	}
+
+	/** Whether a container starting now is `head` or a `results.bindings` entry */
+	private isCapturePath(): boolean {
+		const [root, results, bindings] = this.stack;
+		if (this.stack.length === 1) {
+			return root?.key === "head";
+		}
+		return (
+			this.stack.length === 3 &&
+			root?.key === "results" &&
+			results?.key === "bindings" &&
+			bindings?.type === "array"
+		);
+	}
+
+	/** Drop buffered text that is no longer needed */
+	private compact(): void {
+		let keepFrom = this.pos;
+		if (this.captureStart !== undefined) {
+			keepFrom = Math.min(keepFrom, this.captureStart);
+		}
+		if (this.inString) {
+			keepFrom = Math.min(keepFrom, this.stringStart);
+		}
+		if (keepFrom === 0) {
+			return;
+		}
+
+		this.buffer = this.buffer.slice(keepFrom);
+		this.pos -= keepFrom;
+		this.stringStart -= keepFrom;
+		if (this.captureStart !== undefined) {
+			this.captureStart -= keepFrom;
+		}
+	}
+}
+
+/**
+ * Streamed SELECT results. `vars` is available as soon as the stream has
+ * been opened; rows are parsed incrementally while iterating. Breaking out
+ * of a `for await` loop (or calling `cancel()`) cancels the response body.
+ */
+export class BindingsStream implements AsyncIterable<SparqlBinding> {
+	private readonly decoder = new TextDecoder();
+	private readonly parser = new SparqlJsonParser();
+	private pending: SparqlBinding[] = [];
+	private done = false;
+	private consumed = false;
+
+	private constructor(
+		private readonly reader: ReadableStreamDefaultReader<Uint8Array>,
+		private readonly signal: AbortSignal | undefined,
+	) {}
+
+	/**
+	 * Open a stream over a SPARQL JSON results body, reading up to the head.
+	 * `signal` is the request's signal; reads failing after it aborts raise
+	 * an AbortError.
+	 */
+	static async open(
+		body: ReadableStream<Uint8Array>,
+		signal?: AbortSignal,
+	): Promise<BindingsStream> {
+		const stream = new BindingsStream(body.getReader(), signal);
+		try {
+			while (!stream.parser.head && (await stream.pull())) {
+				// Keep reading until the head has been parsed
+			}
+		} catch (error) {
+			await stream.cancel();
+			throw error;
+		}
+		return stream;
+	}
+
+	/** Variable names from the results `head` */
+	get vars(): string[] {
+		return this.parser.head?.vars ?? [];
+	}
+
+	async *[Symbol.asyncIterator](): AsyncGenerator<SparqlBinding> {
+		if (this.consumed) {
+			throw new Error("BindingsStream can only be iterated once");
+		}
+		this.consumed = true;
+
+		try {
+			for (;;) {
+				const rows = this.pending;
+				this.pending = [];
+				yield* rows;
+				if (this.done) {
+					return;
+				}
+				await this.pull();
+			}
+		} finally {
+			await this.cancel();
+		}
+	}
+
+	/** Stop reading and release the underlying response body */
+	async cancel(): Promise<void> {
+		if (!this.done) {
+			this.done = true;
+			await this.reader.cancel();
+		}
+	}
+
+	/** Read the next chunk; returns false once the body is exhausted */
+	private async pull(): Promise<boolean> {
+		const { done, value } = await this.read();
+		if (done) {
+			this.done = true;
+			this.reader.releaseLock();
+			this.pending.push(...this.parser.push(this.decoder.decode()));
+			this.parser.end();
+			return false;
+		}
+		for (const row of this.parser.push(
+			this.decoder.decode(value, { stream: true }),
+		)) {
+			this.pending.push(row);
+		}
+		return true;
+	}
+
+	/** Read from the body, raising an AbortError if the request was aborted */
+	private async read() {
+		try {
+			return await this.reader.read();
+		} catch (error) {
+			// The body has failed, so there is nothing left to cancel
+			this.done = true;
+			throwIfAborted(this.signal);
+			throw error;
+		}
+	}
+}
+
+/** Open a bindings stream over a successful query response */
+export async function openBindingsStream(
+	response: Response,
+	signal?: AbortSignal,
+): Promise<BindingsStream> {
+	if (!response.body) {
+		throw new RDFParseError("Query response has no body");
+	}
+	return BindingsStream.open(response.body, signal);
+}
@@ -1,7 +1,18 @@
 import { afterEach, beforeEach, expect, type Mock, mock, test } from "bun:test";
+import { parseBinaryRdf, serializeBinaryRdf } from "./binary-rdf.ts";
 import { RDF4JClient } from "./client.ts";
+import { MockRDF4JServer } from "./mock-server.ts";
+import { select, variable } from "./query-builder.ts";
 import type { SparqlBindings } from "./repository-client.ts";
-import { ContentTypes } from "./types.ts";
+import { iri, sparql } from "./sparql-template.ts";
+import { dataFactory } from "./terms.ts";
+import {
+	AbortError,
+	ContentTypes,
+	ShaclValidationError,
+	TransactionNotFoundError,
+	UnauthorizedError,
+} from "./types.ts";
 
 let mockFetchFn: Mock<
 	(url: string | URL | Request, init?: RequestInit) => Promise<Response>
@@ -12,7 +23,9 @@ function setMockFetch(response: unknown, contentType = "application/json") {
 	mockFetchFn = mock(() =>
 		Promise.resolve(
 			new Response(
-				typeof response === "string" ? response : JSON.stringify(response),
+				typeof response === "string" || response instanceof Uint8Array
+					? (response as BodyInit)
+					: JSON.stringify(response),
 				{
 					status: 200,
 					headers: { "content-type": contentType },
@@ -109,6 +122,33 @@ test("RepositoryClient.query sends SPARQL query", async () => {
 	expect(calledUrl).toContain("query=SELECT");
 });
 
+test("RepositoryClient.queryStream yields rows", async () => {
+	setMockFetch(
+		{
+			head: { vars: ["s"] },
+			results: {
+				bindings: [
+					{ s: { type: "uri", value: "http://example.org/1" } },
+					{ s: { type: "uri", value: "http://example.org/2" } },
+				],
+			},
+		},
+		ContentTypes.SPARQL_RESULTS_JSON,
+	);
+
+	const client = new RDF4JClient({ baseUrl: "http://localhost:8080/rdf4j" });
+	const stream = await client
+		.repository("test")
+		.queryStream("SELECT ?s WHERE { ?s ?p ?o }");
+
+	expect(stream.vars).toEqual(["s"]);
+	const values: string[] = [];
+	for await (const row of stream) {
+		values.push(row.s?.value ?? "");
+	}
+	expect(values).toEqual(["http://example.org/1", "http://example.org/2"]);
+});
+
 test("RepositoryClient.ask returns boolean", async () => {
 	setMockFetch({ head: {}, boolean: true });
 
@@ -119,6 +159,169 @@ test("RepositoryClient.ask returns boolean", async () => {
 	expect(result).toBe(true);
 });
 
+test("RepositoryClient accepts prepared queries", async () => {
+	setMockFetch({ head: {}, boolean: true }, ContentTypes.SPARQL_RESULTS_JSON);
+
+	const client = new RDF4JClient({ baseUrl: "http://localhost:8080/rdf4j" });
+	const name = 'O"Brien';
+	const result = await client
+		.repository("test")
+		.ask(sparql`ASK { ?s <http://xmlns.com/foaf/0.1/name> ${name} }`);
+
+	const url = new URL(mockFetchFn.mock.calls[0]?.[0] as string);
+	expect(url.searchParams.get("query")).toBe(
+		'ASK { ?s <http://xmlns.com/foaf/0.1/name> "O\\"Brien" }',
+	);
+	expect(result).toBe(true);
+});
+
+test("RepositoryClient.query accepts query builders", async () => {
+	setMockFetch(
+		{
+			head: { vars: ["name"] },
+			results: { bindings: [{ name: { type: "literal", value: "Alice" } }] },
+		},
+		ContentTypes.SPARQL_RESULTS_JSON,
+	);
+
+	const client = new RDF4JClient({ baseUrl: "http://localhost:8080/rdf4j" });
+	const query = select("name")
+		.where([
+			variable("s"),
+			iri("http://xmlns.com/foaf/0.1/name"),
+			variable("name"),
+		])
+		.limit(1);
+	const result = await client.repository("test").query(query);
+
+	const url = new URL(mockFetchFn.mock.calls[0]?.[0] as string);
+	expect(url.searchParams.get("query")).toBe(query.text);
+	// Bindings are typed by the projected variables
+	expect(result.results.bindings[0]?.name?.value).toBe("Alice");
+});
+
+test("RepositoryClient.execute dispatches on the query form", async () => {
+	const client = new RDF4JClient({ baseUrl: "http://localhost:8080/rdf4j" });
+	const repo = client.repository("test");
+
+	setMockFetch({ head: {}, boolean: true }, ContentTypes.SPARQL_RESULTS_JSON);
+	expect(
+		await repo.execute("PREFIX ex: <http://ex/>\nASK { ?s ?p ?o }"),
+	).toEqual({ type: "boolean", boolean: true });
+	let init = mockFetchFn.mock.calls[0]?.[1];
+	expect(new Headers(init?.headers).get("accept")).toBe(
+		ContentTypes.SPARQL_RESULTS_JSON,
+	);
+
+	setMockFetch(
+		"<http://ex/s> <http://ex/p> <http://ex/o> .\n",
+		ContentTypes.NTRIPLES,
+	);
+	const result = await repo.execute("CONSTRUCT WHERE { ?s ?p ?o }");
+	init = mockFetchFn.mock.calls[0]?.[1];
+	expect(new Headers(init?.headers).get("accept")).toBe(ContentTypes.NTRIPLES);
+	expect(result.type).toBe("graph");
+	if (result.type === "graph") {
+		expect(result.quads[0]?.subject.value).toBe("http://ex/s");
+	}
+
+	await expect(repo.execute("DROP ALL")).rejects.toThrow(TypeError);
+});
+
+test("RepositoryClient.queryRows maps results to native values", async () => {
+	setMockFetch(
+		{
+			head: { vars: ["name", "age"] },
+			results: {
+				bindings: [
+					{
+						name: { type: "literal", value: "Alice" },
+						age: {
+							type: "literal",
+							value: "42",
+							datatype: "http://www.w3.org/2001/XMLSchema#integer",
+						},
+					},
+				],
+			},
+		},
+		ContentTypes.SPARQL_RESULTS_JSON,
+	);
+
+	const client = new RDF4JClient({ baseUrl: "http://localhost:8080/rdf4j" });
+	const rows = await client
+		.repository("test")
+		.queryRows("SELECT ?name ?age WHERE { ?s ?p ?name }", {
+			schema: { name: "string", age: "number" },
+		});
+
+	expect(rows).toEqual([{ name: "Alice", age: 42 }]);
+});
+
+test("RepositoryClient.describe rejects unsafe resource IRIs", async () => {
+	setMockFetch("", ContentTypes.TURTLE);
+
+	const client = new RDF4JClient({ baseUrl: "http://localhost:8080/rdf4j" });
+	const repo = client.repository("test");
+	await repo.describe("http://ex/a");
+	await expect(repo.describe("http://ex/a> } <http://ex/b")).rejects.toThrow(
+		TypeError,
+	);
+
+	expect(mockFetchFn).toHaveBeenCalledTimes(1);
+	const url = new URL(mockFetchFn.mock.calls[0]?.[0] as string);
+	expect(url.searchParams.get("query")).toBe("DESCRIBE <http://ex/a>");
+});
+
+test("RepositoryClient.query can request binary results", async () => {
+	const encoder = new TextEncoder();
+	setMockFetch(
+		new Uint8Array([
+			...encoder.encode("BRTR"),
+			...[0, 0, 0, 4],
+			...[0, 0, 0, 1],
+			...[0, 0, 0, 1],
+			...encoder.encode("s"),
+			4,
+			...[0, 0, 0, 11],
+			...encoder.encode("http://ex/a"),
+			127,
+		]),
+		ContentTypes.BINARY_RDF_RESULTS,
+	);
+
+	const client = new RDF4JClient({ baseUrl: "http://localhost:8080/rdf4j" });
+	const result = await client
+		.repository("test")
+		.query("SELECT ?s WHERE { ?s ?p ?o }", { format: "binary" });
+
+	const options = mockFetchFn.mock.calls[0]?.[1] as RequestInit;
+	expect((options.headers as Record<string, string>).Accept).toBe(
+		ContentTypes.BINARY_RDF_RESULTS,
+	);
+	expect(result.results.bindings).toEqual([
+		{ s: { type: "uri", value: "http://ex/a" } },
+	]);
+});
+
+test("RepositoryClient.ask can request SPARQL XML results", async () => {
+	setMockFetch(
+		'<sparql xmlns="http://www.w3.org/2005/sparql-results#"><head/><boolean>false</boolean></sparql>',
+		ContentTypes.SPARQL_RESULTS_XML,
+	);
+
+	const client = new RDF4JClient({ baseUrl: "http://localhost:8080/rdf4j" });
+	const result = await client
+		.repository("test")
+		.ask("ASK { ?s ?p ?o }", { accept: ContentTypes.SPARQL_RESULTS_XML });
+
+	const options = mockFetchFn.mock.calls[0]?.[1] as RequestInit;
+	expect((options.headers as Record<string, string>).Accept).toBe(
+		ContentTypes.SPARQL_RESULTS_XML,
+	);
+	expect(result).toBe(false);
+});
+
 test("RepositoryClient.update sends SPARQL update", async () => {
 	mockFetchFn = mock(() =>
 		Promise.resolve(new Response(null, { status: 204 })),
@@ -155,6 +358,81 @@ test("RepositoryClient.add sends RDF data", async () => {
 	expect(options.body).toBe(turtle);
 });
 
+test("RepositoryClient.add serializes quads as N-Quads", async () => {
+	mockFetchFn = mock(() =>
+		Promise.resolve(new Response(null, { status: 204 })),
+	);
+	globalThis.fetch = mockFetchFn as unknown as typeof fetch;
+
+	const client = new RDF4JClient({ baseUrl: "http://localhost:8080/rdf4j" });
+	const repo = client.repository("test");
+	const { namedNode, literal, quad } = dataFactory;
+	await repo.add([
+		quad(namedNode("http://s"), namedNode("http://p"), literal("o")),
+	]);
+
+	const options = mockFetchFn.mock.calls[0]?.[1] as RequestInit;
+	expect((options.headers as Record<string, string>)["Content-Type"]).toBe(
+		ContentTypes.NQUADS,
+	);
+	expect(options.body).toBe('<http://s> <http://p> "o" .\n');
+});
+
+test("RepositoryClient.add encodes quads as binary RDF", async () => {
+	mockFetchFn = mock(() =>
+		Promise.resolve(new Response(null, { status: 204 })),
+	);
+	globalThis.fetch = mockFetchFn as unknown as typeof fetch;
+
+	const client = new RDF4JClient({ baseUrl: "http://localhost:8080/rdf4j" });
+	const { namedNode, literal, quad } = dataFactory;
+	const quads = [
+		quad(namedNode("http://s"), namedNode("http://p"), literal("o")),
+	];
+	await client
+		.repository("test")
+		.add(quads, { contentType: ContentTypes.BINARY_RDF });
+
+	const options = mockFetchFn.mock.calls[0]?.[1] as RequestInit;
+	expect((options.headers as Record<string, string>)["Content-Type"]).toBe(
+		ContentTypes.BINARY_RDF,
+	);
+	expect(options.body as Uint8Array).toEqual(serializeBinaryRdf(quads));
+});
+
+test("RepositoryClient.export returns binary RDF as bytes", async () => {
+	const { namedNode, quad } = dataFactory;
+	const bytes = serializeBinaryRdf([
+		quad(namedNode("http://s"), namedNode("http://p"), namedNode("http://o")),
+	]);
+	setMockFetch(bytes, ContentTypes.BINARY_RDF);
+
+	const client = new RDF4JClient({ baseUrl: "http://localhost:8080/rdf4j" });
+	const result = await client
+		.repository("test")
+		.export({ accept: ContentTypes.BINARY_RDF });
+
+	expect(result).toEqual(bytes);
+	expect(parseBinaryRdf(result)[0]?.object.value).toBe("http://o");
+});
+
+test("RepositoryClient.getQuads parses N-Quads response", async () => {
+	setMockFetch(
+		"<http://s> <http://p> <http://o> <http://g> .\n",
+		ContentTypes.NQUADS,
+	);
+
+	const client = new RDF4JClient({ baseUrl: "http://localhost:8080/rdf4j" });
+	const quads = await client.repository("test").getQuads();
+
+	const options = mockFetchFn.mock.calls[0]?.[1] as RequestInit;
+	expect((options.headers as Record<string, string>).Accept).toBe(
+		ContentTypes.NQUADS,
+	);
+	expect(quads).toHaveLength(1);
+	expect(quads[0]?.graph.value).toBe("http://g");
+});
+
 test("RepositoryClient.size returns statement count", async () => {
 	setMockFetch("12345", "text/plain");
 
@@ -231,9 +509,278 @@ ex:s ex:p ex:o .`;
 	expect(result).toBe(turtle);
 });
 
+test("RepositoryClient.getStatements encodes term filters", async () => {
+	setMockFetch("", "text/turtle");
+
+	const client = new RDF4JClient({ baseUrl: "http://localhost:8080/rdf4j" });
+	const repo = client.repository("test");
+	await repo.getStatements({
+		subj: dataFactory.namedNode("http://example.org/s"),
+		obj: dataFactory.literal("test", "en"),
+		context: [dataFactory.namedNode("http://example.org/g")],
+	});
+
+	const calledUrl = new URL(mockFetchFn.mock.calls[0]?.[0] as string);
+	expect(calledUrl.searchParams.get("subj")).toBe("<http://example.org/s>");
+	expect(calledUrl.searchParams.get("obj")).toBe('"test"@en');
+	expect(calledUrl.searchParams.get("context")).toBe("<http://example.org/g>");
+	expect(calledUrl.searchParams.has("pred")).toBe(false);
+});
+
+test("RepositoryClient.withTransaction commits or rolls back", async () => {
+	const server = new MockRDF4JServer({ repositories: ["test"] });
+	const repo = new RDF4JClient({
+		baseUrl: "http://mock",
+		fetch: server.fetch,
+	}).repository("test");
+	const quad = dataFactory.quad(
+		dataFactory.namedNode("http://example.org/s"),
+		dataFactory.namedNode("http://example.org/p"),
+		dataFactory.literal("o"),
+	);
+
+	await expect(
+		repo.withTransaction(async (tx) => {
+			await tx.add([quad]);
+			throw new Error("boom");
+		}),
+	).rejects.toThrow("boom");
+	expect(await repo.size()).toBe(0);
+
+	const result = await repo.withTransaction(
+		async (tx) => {
+			await tx.add([quad]);
+			return tx.size();
+		},
+		{ isolationLevel: "SNAPSHOT", keepAliveMs: 1000 },
+	);
+	expect(result).toBe(1);
+	expect(await repo.size()).toBe(1);
+});
+
+test("RepositoryClient.withTransaction aborts fn's signal on rollback", async () => {
+	const server = new MockRDF4JServer({ repositories: ["test"] });
+	const repo = new RDF4JClient({
+		baseUrl: "http://mock",
+		fetch: server.fetch,
+	}).repository("test");
+	const failure = new Error("boom");
+	let received: AbortSignal | undefined;
+
+	await expect(
+		repo.withTransaction(async (_tx, signal) => {
+			received = signal;
+			throw failure;
+		}),
+	).rejects.toBe(failure);
+	expect(received?.aborted).toBe(true);
+	expect(received?.reason).toBe(failure);
+});
+
+test("RepositoryClient.withTransaction removes its abort listener", async () => {
+	const server = new MockRDF4JServer({ repositories: ["test"] });
+	const repo = new RDF4JClient({
+		baseUrl: "http://mock",
+		fetch: server.fetch,
+	}).repository("test");
+	const { signal } = new AbortController();
+	let listeners = 0;
+	const add = signal.addEventListener.bind(signal);
+	const remove = signal.removeEventListener.bind(signal);
+	signal.addEventListener = (...args: Parameters<typeof add>) => {
+		listeners++;
+		add(...args);
+	};
+	signal.removeEventListener = (...args: Parameters<typeof remove>) => {
+		listeners--;
+		remove(...args);
+	};
+
+	for (let i = 0; i < 3; i++) {
+		await repo.withTransaction(async (tx) => tx.size(), { signal });
+	}
+	expect(listeners).toBe(0);
+});
+
+test("RepositoryClient.withTransaction retries conflicts", async () => {
+	const server = new MockRDF4JServer({ repositories: ["test"] });
+	let commits = 0;
+	const repo = new RDF4JClient({
+		baseUrl: "http://mock",
+		fetch: server.fetch,
+		middleware: [
+			(request, next) =>
+				request.url.includes("action=COMMIT") && commits++ === 0
+					? Promise.resolve(new Response("conflict", { status: 409 }))
+					: next(request),
+		],
+	}).repository("test");
+
+	let runs = 0;
+	await repo.withTransaction(
+		async (tx) => {
+			runs++;
+			await tx.add("<http://ex/s> <http://ex/p> <http://ex/o> .", {
+				contentType: ContentTypes.NTRIPLES,
+			});
+		},
+		{ retries: 1 },
+	);
+	expect(runs).toBe(2);
+	expect(await repo.size()).toBe(1);
+
+	commits = 0;
+	await expect(
+		repo.withTransaction(async () => undefined),
+	).rejects.toMatchObject({ status: 409 });
+});
+
+test("RepositoryClient.withTransaction does not retry SHACL violations", async () => {
+	const server = new MockRDF4JServer({ repositories: ["test"] });
+	const report = [
+		"@prefix sh: <http://www.w3.org/ns/shacl#>.",
+		"[] a sh:ValidationReport ; sh:conforms false ; sh:result [",
+		"\tsh:focusNode <http://ex/s> ;",
+		"\tsh:sourceConstraintComponent sh:DatatypeConstraintComponent",
+		"] .",
+	].join("\n");
+	const repo = new RDF4JClient({
+		baseUrl: "http://mock",
+		fetch: server.fetch,
+		middleware: [
+			(request, next) =>
+				request.url.includes("action=COMMIT")
+					? Promise.resolve(
+							new Response(report, {
+								status: 409,
+								headers: { "Content-Type": ContentTypes.TURTLE },
+							}),
+						)
+					: next(request),
+		],
+	}).repository("test");
+
+	let runs = 0;
+	const error = (await repo
+		.withTransaction(
+			async () => {
+				runs++;
+			},
+			{ retries: 3 },
+		)
+		.catch((e) => e)) as ShaclValidationError;
+	expect(error).toBeInstanceOf(ShaclValidationError);
+	expect(error.results[0]?.focusNode.value).toBe("http://ex/s");
+	expect(runs).toBe(1);
+});
+
+test("RepositoryClient.withTransaction rolls back when aborted", async () => {
+	const server = new MockRDF4JServer({ repositories: ["test"] });
+	const repo = new RDF4JClient({
+		baseUrl: "http://mock",
+		fetch: server.fetch,
+	}).repository("test");
+	const controller = new AbortController();
+
+	const run = repo.withTransaction(
+		async (tx) => {
+			await tx.add("<http://ex/s> <http://ex/p> <http://ex/o> .", {
+				contentType: ContentTypes.NTRIPLES,
+			});
+			controller.abort(new Error("cancelled"));
+			await new Promise(() => undefined);
+		},
+		{ signal: controller.signal },
+	);
+
+	const error = (await run.catch((e) => e)) as AbortError;
+	expect(error).toBeInstanceOf(AbortError);
+	expect((error.cause as Error).message).toBe("cancelled");
+	expect(await repo.size()).toBe(0);
+
+	const aborted = repo.withTransaction(async () => undefined, {
+		signal: AbortSignal.abort(),
+	});
+	await expect(aborted).rejects.toBeInstanceOf(AbortError);
+});
+
+test("Client methods pass their signal to requests", async () => {
+	const server = new MockRDF4JServer({ repositories: ["test"] });
+	const client = new RDF4JClient({
+		baseUrl: "http://mock",
+		fetch: server.fetch,
+	});
+	const repo = client.repository("test");
+	const signal = AbortSignal.abort();
+
+	const calls = [
+		() => client.listRepositories({ signal }),
+		() => repo.query("SELECT * WHERE { ?s ?p ?o }", { signal }),
+		() => repo.size(undefined, { signal }),
+		() => repo.beginTransaction(undefined, { signal }),
+		() => repo.graphStore().getDefault(undefined, { signal }),
+	];
+	for (const call of calls) {
+		await expect(call()).rejects.toBeInstanceOf(AbortError);
+	}
+
+	const transaction = await repo.beginTransaction();
+	await expect(transaction.commit({ signal })).rejects.toBeInstanceOf(
+		AbortError,
+	);
+	expect(transaction.isActive).toBe(true);
+	await transaction.rollback();
+});
+
 test("RDF4JClient exposes httpClient for custom requests", () => {
 	const client = new RDF4JClient({ baseUrl: "http://localhost:8080/rdf4j" });
 
 	expect(client.httpClient).toBeDefined();
 	expect(typeof client.httpClient.get).toBe("function");
 });
+
+test("Existence checks only treat 404 as missing", async () => {
+	const server = new MockRDF4JServer({ repositories: ["test"] });
+	let failing = false;
+	const client = new RDF4JClient({
+		baseUrl: "http://mock",
+		fetch: server.fetch,
+		middleware: [
+			(request, next) =>
+				failing
+					? Promise.resolve(new Response("Unauthorized", { status: 401 }))
+					: next(request),
+		],
+	});
+	const repo = client.repository("test");
+	const graph = dataFactory.namedNode("http://ex/g");
+
+	expect(await client.repositoryExists("missing")).toBe(false);
+	expect(await repo.getNamespace("missing")).toBeNull();
+	expect(await repo.graphStore().exists(graph)).toBe(false);
+
+	failing = true;
+	await expect(client.repositoryExists("test")).rejects.toThrow(
+		UnauthorizedError,
+	);
+	await expect(repo.getNamespace("ex")).rejects.toThrow(UnauthorizedError);
+	await expect(repo.graphStore().exists(graph)).rejects.toThrow(
+		UnauthorizedError,
+	);
+});
+
+test("Unknown transactions raise TransactionNotFoundError", async () => {
+	const server = new MockRDF4JServer({ repositories: ["test"] });
+	const repo = new RDF4JClient({
+		baseUrl: "http://mock",
+		fetch: server.fetch,
+	}).repository("test");
+	const transaction = await repo.beginTransaction();
+	// Commit behind the client's back, as if the transaction had expired
+	await server.fetch(
+		`http://mock/repositories/test/transactions/${transaction.id}?action=COMMIT`,
+		{ method: "PUT" },
+	);
+
+	await expect(transaction.size()).rejects.toThrow(TransactionNotFoundError);
+});
@@ -1,10 +1,15 @@
 import { HttpClient } from "./http-client.ts";
 import type { SparqlBindings } from "./repository-client.ts";
 import { RepositoryClient } from "./repository-client.ts";
+import { buildRepositoryConfig } from "./repository-config.ts";
 import {
 	ContentTypes,
+	NotFoundError,
 	type RDF4JConfig,
 	type RepositoryConfig,
+	type RepositoryType,
+	type SignalOptions,
+	type UntypedRepositoryConfig,
 } from "./types.ts";
 
 /** RDF4J repository information */
@@ -30,16 +35,18 @@ export class RDF4JClient {
 	}
 
 	/** Get server protocol version */
-	async getProtocol(): Promise<string> {
+	async getProtocol(options?: SignalOptions): Promise<string> {
 		return this.http.get<string>("/protocol", {
 			accept: ContentTypes.TEXT,
+			signal: options?.signal,
 		});
 	}
 
 	/** List all repositories */
-	async listRepositories(): Promise<Repository[]> {
+	async listRepositories(options?: SignalOptions): Promise<Repository[]> {
 		const result = await this.http.get<SparqlBindings>("/repositories", {
 			accept: ContentTypes.SPARQL_RESULTS_JSON,
+			signal: options?.signal,
 		});
 
 		return result.results.bindings.map((binding) => ({
@@ -55,12 +62,23 @@ export class RDF4JClient {
 	 * Create a new repository
 	 * @param config Repository configuration
 	 */
-	async createRepository(config: RepositoryConfig): Promise<void> {
-		const configTurtle =
-			config.configTurtle ?? this.generateDefaultConfig(config);
+	async createRepository<T extends RepositoryType>(
+		config: RepositoryConfig<T>,
+		options?: SignalOptions,
+	): Promise<void>;
+	async createRepository(
+		config: UntypedRepositoryConfig,
+		options?: SignalOptions,
+	): Promise<void>;
+	async createRepository(
+		config: RepositoryConfig | UntypedRepositoryConfig,
+		options?: SignalOptions,
+	): Promise<void> {
+		const configTurtle = config.configTurtle ?? buildRepositoryConfig(config);
 		await this.http.put<void>(`/repositories/${config.id}`, {
 			body: configTurtle,
 			contentType: ContentTypes.TURTLE,
+			signal: options?.signal,
 		});
 	}
 
@@ -68,20 +86,33 @@ export class RDF4JClient {
 	 * Delete a repository
 	 * @param repositoryId Repository ID to delete
 	 */
-	async deleteRepository(repositoryId: string): Promise<void> {
-		await this.http.delete<void>(`/repositories/${repositoryId}`);
+	async deleteRepository(
+		repositoryId: string,
+		options?: SignalOptions,
+	): Promise<void> {
+		await this.http.delete<void>(`/repositories/${repositoryId}`, {
+			signal: options?.signal,
+		});
 	}
 
 	/**
 	 * Check if a repository exists
 	 * @param repositoryId Repository ID to check
 	 */
-	async repositoryExists(repositoryId: string): Promise<boolean> {
+	async repositoryExists(
+		repositoryId: string,
+		options?: SignalOptions,
+	): Promise<boolean> {
 		try {
-			await this.http.head(`/repositories/${repositoryId}`);
+			await this.http.head(`/repositories/${repositoryId}`, {
+				signal: options?.signal,
+			});
 			return true;
-		} catch {
-			return false;
+		} catch (error) {
+			if (error instanceof NotFoundError) {
+				return false;
+			}
+			throw error;
 		}
 	}
 
@@ -89,64 +120,4 @@ export class RDF4JClient {
 	repository(repositoryId: string): RepositoryClient {
 		return new RepositoryClient(this.http, repositoryId);
 	}
-
-	/** Generate default repository configuration in Turtle format */
-	private generateDefaultConfig(config: RepositoryConfig): string {
-		const type = config.type ?? "memory";
-		const title = config.title ?? config.id;
-
-		// Generate repository config based on type
-		const typeMap: Record<string, { impl: string; sailType?: string }> = {
-			memory: {
-				impl: "openrdf:SailRepository",
-				sailType: "openrdf:MemoryStore",
-			},
-			native: {
-				impl: "openrdf:SailRepository",
-				sailType: "openrdf:NativeStore",
-			},
-			"memory-rdfs": {
-				impl: "openrdf:SailRepository",
-				sailType: "openrdf:ForwardChainingRDFSInferencer",
-			},
-			"native-rdfs": {
-				impl: "openrdf:SailRepository",
-				sailType: "openrdf:ForwardChainingRDFSInferencer",
-			},
-			sparql: { impl: "openrdf:SPARQLRepository" },
-			remote: { impl: "openrdf:HTTPRepository" },
-		};
-
-		const defaultConfig = {
-			impl: "openrdf:SailRepository",
-			sailType: "openrdf:MemoryStore",
-		};
-		const typeConfig = typeMap[type] ?? defaultConfig;
-
-		let turtle = `
-@prefix rdfs: <http://www.w3.org/2000/01/rdf-schema#>.
-@prefix rep: <http://www.openrdf.org/config/repository#>.
-@prefix sr: <http://www.openrdf.org/config/repository/sail#>.
-@prefix sail: <http://www.openrdf.org/config/sail#>.
-@prefix ms: <http://www.openrdf.org/config/sail/memory#>.
-@prefix ns: <http://www.openrdf.org/config/sail/native#>.
-
-[] a rep:Repository ;
-   rep:repositoryID "${config.id}" ;
-   rdfs:label "${title}" ;
-   rep:repositoryImpl [
-      rep:repositoryType "${typeConfig.impl}"`;
-
-		if (typeConfig.sailType) {
-			turtle += ` ;
-      sr:sailImpl [
-         sail:sailType "${typeConfig.sailType}"
-      ]`;
-		}
-
-		turtle += `
-   ] .
-`;
-		return turtle;
-	}
 }
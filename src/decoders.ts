@@ -0,0 +1,94 @@
+import { parseBinaryResults } from "./binary-results.ts";
+import { mediaType } from "./rdf-formats.ts";
+import {
+	parseSparqlCsv,
+	parseSparqlTsv,
+	parseSparqlXml,
+} from "./sparql-results.ts";
+import { ContentTypes } from "./types.ts";
+
+/** Decodes a response body into a value */
+export type ResponseDecoder = (
+	response: Response,
+) => unknown | Promise<unknown>;
+
+const json: ResponseDecoder = (response) => response.json();
+const text: ResponseDecoder = (response) => response.text();
+const bytes: ResponseDecoder = async (response) =>
+	new Uint8Array(await response.arrayBuffer());
+
+/**
+ * Response decoders keyed by media type. Lookup tries the exact media type,
+ * then its structured syntax suffix (e.g. `+json`), then `type/*` and `*\/*`.
+ */
+export class DecoderRegistry {
+	private readonly decoders = new Map<string, ResponseDecoder>();
+
+	/** Register (or replace) the decoder for a media type or wildcard range */
+	register(type: string, decoder: ResponseDecoder): this {
+		this.decoders.set(mediaType(type), decoder);
+		return this;
+	}
+
+	/** Remove the decoder for a media type */
+	unregister(type: string): boolean {
+		return this.decoders.delete(mediaType(type));
+	}
+
+	/** Find the decoder for a response content type */
+	get(contentType: string): ResponseDecoder | undefined {
+		const type = mediaType(contentType);
+		const [range] = type.split("/");
+		const suffix = /\+([a-z0-9.-]+)$/.exec(type)?.[1];
+
+		return (
+			this.decoders.get(type) ??
+			(suffix ? this.decoders.get(`${range}/${suffix}`) : undefined) ??
+			this.decoders.get(`${range}/*`) ??
+			this.decoders.get("*/*")
+		);
+	}
+
+	/** Decode a response body, returning undefined for empty responses */
+	async decode(response: Response): Promise<unknown> {
+		const contentType = response.headers.get("content-type") ?? "";
+		if (response.status === 204 || !contentType) {
+			return undefined;
+		}
+		const decoder = this.get(contentType) ?? text;
+		return decoder(response);
+	}
+}
+
+/** Create a registry with decoders for the formats RDF4J produces */
+export function createDefaultDecoders(): DecoderRegistry {
+	return (
+		new DecoderRegistry()
+			// JSON (including application/sparql-results+json and ld+json)
+			.register(ContentTypes.JSON, json)
+			.register(ContentTypes.SPARQL_RESULTS_JSON, json)
+			.register(ContentTypes.RDF_JSON, json)
+			.register(ContentTypes.JSONLD, json)
+			// SPARQL results XML, TSV and CSV are decoded into the JSON shape
+			.register(ContentTypes.SPARQL_RESULTS_XML, async (response) =>
+				parseSparqlXml(await response.text()),
+			)
+			.register(ContentTypes.SPARQL_RESULTS_TSV, async (response) =>
+				parseSparqlTsv(await response.text()),
+			)
+			.register(ContentTypes.SPARQL_RESULTS_CSV, async (response) =>
+				parseSparqlCsv(await response.text()),
+			)
+			// RDF4J binary results table, decoded into the JSON shape
+			.register(ContentTypes.BINARY_RDF_RESULTS, async (response) =>
+				parseBinaryResults(new Uint8Array(await response.arrayBuffer())),
+			)
+			// Other binary formats
+			.register(ContentTypes.BINARY_RDF, bytes)
+			.register("application/octet-stream", bytes)
+			// Text-based RDF and XML formats are returned as strings
+			.register("text/*", text)
+			.register("application/*", text)
+			.register("*/*", text)
+	);
+}
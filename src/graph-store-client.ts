@@ -1,5 +1,32 @@
 import type { HttpClient } from "./http-client.ts";
-import { ContentTypes } from "./types.ts";
+import {
+	parseQuads,
+	prepareRdfPayload,
+	type RdfPayload,
+} from "./rdf-formats.ts";
+import type { NamedNode, Quad } from "./terms.ts";
+import { ContentTypes, NotFoundError, type SignalOptions } from "./types.ts";
+
+/** Graph identifier as an IRI string or named node */
+export type GraphName = string | NamedNode;
+
+function graphIri(graph: GraphName): string {
+	return typeof graph === "string" ? graph : graph.value;
+}
+
+/**
+ * Serialize an upload payload; quads are sent as N-Triples and bytes as
+ * binary RDF by default
+ */
+function graphPayload(
+	data: RdfPayload,
+	contentType?: string,
+): { body: string | Uint8Array; contentType: string } {
+	if (data instanceof Uint8Array) {
+		return prepareRdfPayload(data, contentType);
+	}
+	return prepareRdfPayload(data, contentType ?? ContentTypes.NTRIPLES);
+}
 
 /** Client for SPARQL 1.1 Graph Store Protocol operations */
 export class GraphStoreClient {
@@ -15,66 +42,155 @@ export class GraphStoreClient {
 	/**
 	 * Get the default graph
 	 */
-	async getDefault(accept?: string): Promise<string> {
+	async getDefault(accept?: string, options?: SignalOptions): Promise<string> {
 		return this.http.get<string>(`${this.basePath}/service`, {
 			params: { default: "true" },
 			accept: accept ?? ContentTypes.TURTLE,
+			signal: options?.signal,
 		});
 	}
 
+	/**
+	 * Get the default graph as quads
+	 */
+	async getDefaultQuads(options?: SignalOptions): Promise<Quad[]> {
+		const ntriples = await this.getDefault(ContentTypes.NTRIPLES, options);
+		return parseQuads(ntriples ?? "", ContentTypes.NTRIPLES);
+	}
+
 	/**
 	 * Replace the default graph
 	 */
-	async putDefault(data: string, contentType: string): Promise<void> {
+	async putDefault(
+		data: string,
+		contentType: string,
+		options?: SignalOptions,
+	): Promise<void>;
+	async putDefault(
+		quads: Iterable<Quad>,
+		contentType?: string,
+		options?: SignalOptions,
+	): Promise<void>;
+	async putDefault(
+		bytes: Uint8Array,
+		contentType?: string,
+		options?: SignalOptions,
+	): Promise<void>;
+	async putDefault(
+		data: RdfPayload,
+		contentType?: string,
+		options?: SignalOptions,
+	): Promise<void> {
+		const payload = graphPayload(data, contentType);
 		await this.http.put<void>(`${this.basePath}/service`, {
-			body: data,
-			contentType,
+			body: payload.body,
+			contentType: payload.contentType,
 			params: { default: "true" },
+			signal: options?.signal,
 		});
 	}
 
 	/**
 	 * Add to the default graph
 	 */
-	async postDefault(data: string, contentType: string): Promise<void> {
+	async postDefault(
+		data: string,
+		contentType: string,
+		options?: SignalOptions,
+	): Promise<void>;
+	async postDefault(
+		quads: Iterable<Quad>,
+		contentType?: string,
+		options?: SignalOptions,
+	): Promise<void>;
+	async postDefault(
+		bytes: Uint8Array,
+		contentType?: string,
+		options?: SignalOptions,
+	): Promise<void>;
+	async postDefault(
+		data: RdfPayload,
+		contentType?: string,
+		options?: SignalOptions,
+	): Promise<void> {
+		const payload = graphPayload(data, contentType);
 		await this.http.post<void>(`${this.basePath}/service`, {
-			body: data,
-			contentType,
+			body: payload.body,
+			contentType: payload.contentType,
 			params: { default: "true" },
+			signal: options?.signal,
 		});
 	}
 
 	/**
 	 * Delete the default graph
 	 */
-	async deleteDefault(): Promise<void> {
+	async deleteDefault(options?: SignalOptions): Promise<void> {
 		await this.http.delete<void>(`${this.basePath}/service`, {
 			params: { default: "true" },
+			signal: options?.signal,
 		});
 	}
 
 	/**
 	 * Get a named graph (indirect reference)
 	 */
-	async get(graphUri: string, accept?: string): Promise<string> {
+	async get(
+		graphUri: GraphName,
+		accept?: string,
+		options?: SignalOptions,
+	): Promise<string> {
 		return this.http.get<string>(`${this.basePath}/service`, {
-			params: { graph: graphUri },
+			params: { graph: graphIri(graphUri) },
 			accept: accept ?? ContentTypes.TURTLE,
+			signal: options?.signal,
 		});
 	}
 
+	/**
+	 * Get a named graph as quads (indirect reference)
+	 */
+	async getQuads(
+		graphUri: GraphName,
+		options?: SignalOptions,
+	): Promise<Quad[]> {
+		const ntriples = await this.get(graphUri, ContentTypes.NTRIPLES, options);
+		return parseQuads(ntriples ?? "", ContentTypes.NTRIPLES);
+	}
+
 	/**
 	 * Replace a named graph (indirect reference)
 	 */
 	async put(
-		graphUri: string,
+		graphUri: GraphName,
 		data: string,
 		contentType: string,
+		options?: SignalOptions,
+	): Promise<void>;
+	async put(
+		graphUri: GraphName,
+		quads: Iterable<Quad>,
+		contentType?: string,
+		options?: SignalOptions,
+	): Promise<void>;
+	async put(
+		graphUri: GraphName,
+		bytes: Uint8Array,
+		contentType?: string,
+		options?: SignalOptions,
+	): Promise<void>;
+	async put(
+		graphUri: GraphName,
+		data: RdfPayload,
+		contentType?: string,
+		options?: SignalOptions,
 	): Promise<void> {
+		const payload = graphPayload(data, contentType);
 		await this.http.put<void>(`${this.basePath}/service`, {
-			body: data,
-			contentType,
-			params: { graph: graphUri },
+			body: payload.body,
+			contentType: payload.contentType,
+			params: { graph: graphIri(graphUri) },
+			signal: options?.signal,
 		});
 	}
 
@@ -82,34 +198,61 @@ export class GraphStoreClient {
 	 * Add to a named graph (indirect reference)
 	 */
 	async post(
-		graphUri: string,
+		graphUri: GraphName,
 		data: string,
 		contentType: string,
+		options?: SignalOptions,
+	): Promise<void>;
+	async post(
+		graphUri: GraphName,
+		quads: Iterable<Quad>,
+		contentType?: string,
+		options?: SignalOptions,
+	): Promise<void>;
+	async post(
+		graphUri: GraphName,
+		bytes: Uint8Array,
+		contentType?: string,
+		options?: SignalOptions,
+	): Promise<void>;
+	async post(
+		graphUri: GraphName,
+		data: RdfPayload,
+		contentType?: string,
+		options?: SignalOptions,
 	): Promise<void> {
+		const payload = graphPayload(data, contentType);
 		await this.http.post<void>(`${this.basePath}/service`, {
-			body: data,
-			contentType,
-			params: { graph: graphUri },
+			body: payload.body,
+			contentType: payload.contentType,
+			params: { graph: graphIri(graphUri) },
+			signal: options?.signal,
 		});
 	}
 
 	/**
 	 * Delete a named graph (indirect reference)
 	 */
-	async delete(graphUri: string): Promise<void> {
+	async delete(graphUri: GraphName, options?: SignalOptions): Promise<void> {
 		await this.http.delete<void>(`${this.basePath}/service`, {
-			params: { graph: graphUri },
+			params: { graph: graphIri(graphUri) },
+			signal: options?.signal,
 		});
 	}
 
 	/**
 	 * Get a directly referenced named graph
 	 */
-	async getDirect(graphName: string, accept?: string): Promise<string> {
+	async getDirect(
+		graphName: GraphName,
+		accept?: string,
+		options?: SignalOptions,
+	): Promise<string> {
 		return this.http.get<string>(
-			`${this.basePath}/${encodeURIComponent(graphName)}`,
+			`${this.basePath}/${encodeURIComponent(graphIri(graphName))}`,
 			{
 				accept: accept ?? ContentTypes.TURTLE,
+				signal: options?.signal,
 			},
 		);
 	}
@@ -118,15 +261,36 @@ export class GraphStoreClient {
 	 * Replace a directly referenced named graph
 	 */
 	async putDirect(
-		graphName: string,
+		graphName: GraphName,
 		data: string,
 		contentType: string,
+		options?: SignalOptions,
+	): Promise<void>;
+	async putDirect(
+		graphName: GraphName,
+		quads: Iterable<Quad>,
+		contentType?: string,
+		options?: SignalOptions,
+	): Promise<void>;
+	async putDirect(
+		graphName: GraphName,
+		bytes: Uint8Array,
+		contentType?: string,
+		options?: SignalOptions,
+	): Promise<void>;
+	async putDirect(
+		graphName: GraphName,
+		data: RdfPayload,
+		contentType?: string,
+		options?: SignalOptions,
 	): Promise<void> {
+		const payload = graphPayload(data, contentType);
 		await this.http.put<void>(
-			`${this.basePath}/${encodeURIComponent(graphName)}`,
+			`${this.basePath}/${encodeURIComponent(graphIri(graphName))}`,
 			{
-				body: data,
-				contentType,
+				body: payload.body,
+				contentType: payload.contentType,
+				signal: options?.signal,
 			},
 		);
 	}
@@ -135,15 +299,36 @@ export class GraphStoreClient {
 	 * Add to a directly referenced named graph
 	 */
 	async postDirect(
-		graphName: string,
+		graphName: GraphName,
 		data: string,
 		contentType: string,
+		options?: SignalOptions,
+	): Promise<void>;
+	async postDirect(
+		graphName: GraphName,
+		quads: Iterable<Quad>,
+		contentType?: string,
+		options?: SignalOptions,
+	): Promise<void>;
+	async postDirect(
+		graphName: GraphName,
+		bytes: Uint8Array,
+		contentType?: string,
+		options?: SignalOptions,
+	): Promise<void>;
+	async postDirect(
+		graphName: GraphName,
+		data: RdfPayload,
+		contentType?: string,
+		options?: SignalOptions,
 	): Promise<void> {
+		const payload = graphPayload(data, contentType);
 		await this.http.post<void>(
-			`${this.basePath}/${encodeURIComponent(graphName)}`,
+			`${this.basePath}/${encodeURIComponent(graphIri(graphName))}`,
 			{
-				body: data,
-				contentType,
+				body: payload.body,
+				contentType: payload.contentType,
+				signal: options?.signal,
 			},
 		);
 	}
@@ -151,23 +336,31 @@ export class GraphStoreClient {
 	/**
 	 * Delete a directly referenced named graph
 	 */
-	async deleteDirect(graphName: string): Promise<void> {
+	async deleteDirect(
+		graphName: GraphName,
+		options?: SignalOptions,
+	): Promise<void> {
 		await this.http.delete<void>(
-			`${this.basePath}/${encodeURIComponent(graphName)}`,
+			`${this.basePath}/${encodeURIComponent(graphIri(graphName))}`,
+			{ signal: options?.signal },
 		);
 	}
 
 	/**
 	 * Check if a named graph exists
 	 */
-	async exists(graphUri: string): Promise<boolean> {
+	async exists(graphUri: GraphName, options?: SignalOptions): Promise<boolean> {
 		try {
 			await this.http.head(`${this.basePath}/service`, {
-				params: { graph: graphUri },
+				params: { graph: graphIri(graphUri) },
+				signal: options?.signal,
 			});
 			return true;
-		} catch {
-			return false;
+		} catch (error) {
+			if (error instanceof NotFoundError) {
+				return false;
+			}
+			throw error;
 		}
 	}
 }
@@ -1,6 +1,19 @@
 import { afterEach, beforeEach, expect, type Mock, mock, test } from "bun:test";
 import { HttpClient } from "./http-client.ts";
-import { ContentTypes, RDF4JError } from "./types.ts";
+import {
+	AbortError,
+	ConflictError,
+	ContentTypes,
+	MalformedQueryError,
+	NetworkError,
+	NotFoundError,
+	RDF4JError,
+	ShaclValidationError,
+	TimeoutError,
+	TransactionNotFoundError,
+	UnauthorizedError,
+	UnsupportedMediaTypeError,
+} from "./types.ts";
 
 let mockFetchFn: Mock<
 	(url: string | URL | Request, init?: RequestInit) => Promise<Response>
@@ -209,3 +222,522 @@ test("HttpClient uses correct HTTP methods", async () => {
 	options = mockFetchFn.mock.calls[4]?.[1] as RequestInit;
 	expect(options.method).toBe("HEAD");
 });
+
+test("HttpClient decodes SPARQL JSON results", async () => {
+	mockFetchFn = mock(() =>
+		Promise.resolve(
+			new Response(JSON.stringify({ head: {}, boolean: true }), {
+				status: 200,
+				headers: {
+					"content-type": "application/sparql-results+json;charset=UTF-8",
+				},
+			}),
+		),
+	);
+	globalThis.fetch = mockFetchFn as unknown as typeof fetch;
+
+	const client = new HttpClient({ baseUrl: "http://localhost:8080" });
+	const result = await client.get("/test");
+
+	expect(result).toEqual({ head: {}, boolean: true });
+});
+
+test("HttpClient decodes binary formats as bytes", async () => {
+	mockFetchFn = mock(() =>
+		Promise.resolve(
+			new Response(new Uint8Array([1, 2, 3]), {
+				status: 200,
+				headers: { "content-type": ContentTypes.BINARY_RDF },
+			}),
+		),
+	);
+	globalThis.fetch = mockFetchFn as unknown as typeof fetch;
+
+	const client = new HttpClient({ baseUrl: "http://localhost:8080" });
+	const result = await client.get("/test");
+
+	expect(result).toEqual(new Uint8Array([1, 2, 3]));
+});
+
+test("HttpClient uses registered decoders", async () => {
+	mockFetchFn = mock(() =>
+		Promise.resolve(
+			new Response("a,b", {
+				status: 200,
+				headers: { "content-type": "application/x-custom" },
+			}),
+		),
+	);
+	globalThis.fetch = mockFetchFn as unknown as typeof fetch;
+
+	const client = new HttpClient({
+		baseUrl: "http://localhost:8080",
+		decoders: {
+			"application/x-custom": async (response) =>
+				(await response.text()).split(","),
+		},
+	});
+	expect(await client.get<string[]>("/test")).toEqual(["a", "b"]);
+
+	client.decoders.register("application/x-custom", () => "replaced");
+	const { body } = await client.requestWithHeaders("GET", "/test");
+	expect(body).toBe("replaced");
+});
+
+/** Mock fetch returning the given responses in order */
+function mockResponses(...responses: Array<() => Response>) {
+	let call = 0;
+	mockFetchFn = mock(() => {
+		const next = responses[Math.min(call++, responses.length - 1)];
+		return Promise.resolve((next as () => Response)());
+	});
+	globalThis.fetch = mockFetchFn as unknown as typeof fetch;
+}
+
+const unavailable = () =>
+	new Response("", { status: 503, statusText: "Service Unavailable" });
+const ok = () =>
+	new Response("ok", {
+		status: 200,
+		headers: { "content-type": "text/plain" },
+	});
+
+test("HttpClient makes a single attempt without a retry policy", async () => {
+	mockResponses(unavailable, ok);
+	const client = new HttpClient({ baseUrl: "http://localhost:8080/rdf4j" });
+
+	await expect(client.get("/test")).rejects.toThrow(RDF4JError);
+	expect(mockFetchFn).toHaveBeenCalledTimes(1);
+});
+
+test("HttpClient retries idempotent requests on retryable statuses", async () => {
+	mockResponses(unavailable, unavailable, ok);
+	const client = new HttpClient({
+		baseUrl: "http://localhost:8080/rdf4j",
+		retry: { maxAttempts: 3, initialDelay: 1 },
+	});
+
+	expect(await client.get<string>("/test")).toBe("ok");
+	expect(mockFetchFn).toHaveBeenCalledTimes(3);
+});
+
+test("HttpClient gives up after maxAttempts", async () => {
+	mockResponses(unavailable);
+	const client = new HttpClient({
+		baseUrl: "http://localhost:8080/rdf4j",
+		retry: { maxAttempts: 2, initialDelay: 1 },
+	});
+
+	await expect(client.delete("/test")).rejects.toThrow(RDF4JError);
+	expect(mockFetchFn).toHaveBeenCalledTimes(2);
+});
+
+test("HttpClient retries network errors but not client errors", async () => {
+	let call = 0;
+	mockFetchFn = mock(() =>
+		call++ === 0
+			? Promise.reject(new TypeError("fetch failed"))
+			: Promise.resolve(new Response("", { status: 404 })),
+	);
+	globalThis.fetch = mockFetchFn as unknown as typeof fetch;
+	const client = new HttpClient({
+		baseUrl: "http://localhost:8080/rdf4j",
+		retry: { initialDelay: 1 },
+	});
+
+	await expect(client.get("/test")).rejects.toThrow("HTTP 404");
+	expect(mockFetchFn).toHaveBeenCalledTimes(2);
+});
+
+test("HttpClient does not retry errors reading the response", async () => {
+	mockResponses(
+		() =>
+			new Response("{ not json", {
+				status: 200,
+				headers: { "content-type": "application/json" },
+			}),
+		ok,
+	);
+	const client = new HttpClient({
+		baseUrl: "http://localhost:8080/rdf4j",
+		retry: { initialDelay: 1 },
+	});
+
+	await expect(client.get("/test")).rejects.toThrow(SyntaxError);
+	expect(mockFetchFn).toHaveBeenCalledTimes(1);
+});
+
+test("HttpClient does not retry POST unless marked idempotent", async () => {
+	mockResponses(unavailable, ok);
+	const client = new HttpClient({
+		baseUrl: "http://localhost:8080/rdf4j",
+		retry: { initialDelay: 1 },
+	});
+
+	await expect(client.post("/update", { body: "x" })).rejects.toThrow(
+		RDF4JError,
+	);
+	expect(mockFetchFn).toHaveBeenCalledTimes(1);
+
+	mockResponses(unavailable, ok);
+	expect(
+		await client.post<string>("/query", { body: "x", idempotent: true }),
+	).toBe("ok");
+	expect(mockFetchFn).toHaveBeenCalledTimes(2);
+});
+
+test("HttpClient never retries requests marked non-idempotent by default", async () => {
+	mockResponses(unavailable, ok);
+	const client = new HttpClient({
+		baseUrl: "http://localhost:8080/rdf4j",
+		retry: { initialDelay: 1 },
+	});
+
+	await expect(client.put("/tx", { idempotent: false })).rejects.toThrow(
+		RDF4JError,
+	);
+	expect(mockFetchFn).toHaveBeenCalledTimes(1);
+
+	const optedIn = new HttpClient({
+		baseUrl: "http://localhost:8080/rdf4j",
+		retry: { initialDelay: 1, retryNonIdempotent: true },
+	});
+	mockResponses(unavailable, ok);
+	expect(await optedIn.put<string>("/tx", { idempotent: false })).toBe("ok");
+});
+
+test("HttpClient honors Retry-After", async () => {
+	mockResponses(
+		() =>
+			new Response("", {
+				status: 429,
+				headers: { "retry-after": "0" },
+			}),
+		ok,
+	);
+	const client = new HttpClient({
+		baseUrl: "http://localhost:8080/rdf4j",
+		// Backoff alone would exceed the test timeout
+		retry: { initialDelay: 60000, maxDelay: 60000 },
+	});
+
+	expect(await client.get<string>("/test")).toBe("ok");
+	expect(mockFetchFn).toHaveBeenCalledTimes(2);
+});
+
+test("HttpClient runs middleware in order around each request", async () => {
+	const calls: string[] = [];
+	const client = new HttpClient({
+		baseUrl: "http://localhost:8080/rdf4j",
+		middleware: [
+			async (request, next) => {
+				calls.push("outer:before");
+				const response = await next({
+					...request,
+					headers: { ...request.headers, "X-Correlation-Id": "abc" },
+				});
+				calls.push("outer:after");
+				return response;
+			},
+			async (request, next) => {
+				calls.push("inner:before");
+				const response = await next({
+					...request,
+					url: request.url.replace("localhost:8080", "gateway"),
+				});
+				calls.push("inner:after");
+				return response;
+			},
+		],
+	});
+
+	await client.get("/test", { params: { a: 1 } });
+
+	expect(calls).toEqual([
+		"outer:before",
+		"inner:before",
+		"inner:after",
+		"outer:after",
+	]);
+	const [url, init] = mockFetchFn.mock.calls[0] ?? [];
+	expect(url).toBe("http://gateway/rdf4j/test?a=1");
+	expect((init?.headers as Record<string, string>)["X-Correlation-Id"]).toBe(
+		"abc",
+	);
+});
+
+test("HttpClient middleware can short-circuit and transform responses", async () => {
+	const client = new HttpClient({ baseUrl: "http://localhost:8080/rdf4j" });
+	client.use(async (request, next) =>
+		request.url.endsWith("/cached")
+			? new Response("cached", { headers: { "content-type": "text/plain" } })
+			: next(request),
+	);
+	client.use(async (request, next) => {
+		const response = await next(request);
+		// Treat missing resources as empty results
+		return response.status === 404
+			? new Response(null, { status: 204 })
+			: response;
+	});
+
+	expect(await client.get<string>("/cached")).toBe("cached");
+	expect(mockFetchFn).not.toHaveBeenCalled();
+
+	mockFetchFn.mockImplementation(() =>
+		Promise.resolve(new Response("", { status: 404 })),
+	);
+	expect(await client.get("/missing")).toBeUndefined();
+});
+
+test("HttpClient middleware sees error responses and network errors", async () => {
+	const seen: Array<number | string> = [];
+	const client = new HttpClient({
+		baseUrl: "http://localhost:8080/rdf4j",
+		middleware: [
+			async (request, next) => {
+				try {
+					const response = await next(request);
+					seen.push(response.status);
+					return response;
+				} catch (error) {
+					seen.push((error as Error).message);
+					throw error;
+				}
+			},
+		],
+	});
+
+	mockFetchFn.mockImplementation(() =>
+		Promise.resolve(new Response("", { status: 500 })),
+	);
+	await expect(client.get("/test")).rejects.toThrow(RDF4JError);
+
+	mockFetchFn.mockImplementation(() =>
+		Promise.reject(new TypeError("connection reset")),
+	);
+	await expect(client.get("/test")).rejects.toThrow(NetworkError);
+
+	expect(seen).toEqual([500, "Network error: connection reset"]);
+});
+
+test("HttpClient does not retry errors thrown by middleware", async () => {
+	let calls = 0;
+	const client = new HttpClient({
+		baseUrl: "http://localhost:8080/rdf4j",
+		retry: { initialDelay: 1 },
+		middleware: [
+			async (request, next) => {
+				calls++;
+				await next(request);
+				// A bug in the middleware, not a transport failure
+				throw new TypeError("Cannot read properties of undefined");
+			},
+		],
+	});
+	mockFetchFn.mockImplementation(() =>
+		Promise.resolve(new Response("{}", { status: 200 })),
+	);
+
+	const error = await client.get("/test").catch((e) => e);
+	expect(error).toBeInstanceOf(TypeError);
+	expect(error).not.toBeInstanceOf(NetworkError);
+	expect(calls).toBe(1);
+});
+
+test("HttpClient throws ShaclValidationError for validation reports", async () => {
+	const report = [
+		"@prefix sh: <http://www.w3.org/ns/shacl#>.",
+		"[] a sh:ValidationReport ; sh:conforms false ; sh:result [",
+		"\tsh:focusNode <http://example.org/alice> ;",
+		"\tsh:resultPath <http://example.org/name> ;",
+		"\tsh:sourceConstraintComponent sh:MinCountConstraintComponent ;",
+		"\tsh:resultSeverity sh:Violation ;",
+		'\tsh:resultMessage "A name is required"',
+		"] .",
+	].join("\n");
+	const client = new HttpClient({
+		baseUrl: "http://localhost:8080",
+		fetch: () =>
+			Promise.resolve(
+				new Response(report, {
+					status: 409,
+					statusText: "Conflict",
+					headers: {
+						"content-type": "application/shacl-validation-report+turtle",
+					},
+				}),
+			),
+	});
+
+	const error = await client
+		.post<never>("/statements")
+		.catch((e: ShaclValidationError) => e);
+	expect(error).toBeInstanceOf(ShaclValidationError);
+	expect(error).toBeInstanceOf(RDF4JError);
+	expect(error.status).toBe(409);
+	expect(error.message).toBe(
+		"SHACL validation failed with 1 result(s); first: A name is required (focus node http://example.org/alice)",
+	);
+	expect(error.results).toMatchObject([
+		{
+			focusNode: { value: "http://example.org/alice" },
+			path: { value: "http://example.org/name" },
+			severity: "Violation",
+		},
+	]);
+});
+
+test("HttpClient maps error responses to error classes", async () => {
+	const cases: Array<[number, string, new (...args: never[]) => Error]> = [
+		[400, "MALFORMED QUERY: Encountered ...", MalformedQueryError],
+		[401, "", UnauthorizedError],
+		[403, "Forbidden", UnauthorizedError],
+		[404, "Unknown repository: test", NotFoundError],
+		[404, "Transaction with id 123 not found", TransactionNotFoundError],
+		[400, "Unknown transaction ID: 123", TransactionNotFoundError],
+		[409, "Conflict", ConflictError],
+		[415, "Unsupported MIME type: text/foo", UnsupportedMediaTypeError],
+		[400, "UNSUPPORTED FILE FORMAT: text/foo", UnsupportedMediaTypeError],
+		[500, "Internal error", RDF4JError],
+	];
+	for (const [status, body, type] of cases) {
+		const client = new HttpClient({
+			baseUrl: "http://localhost:8080",
+			fetch: () => Promise.resolve(new Response(body, { status })),
+		});
+		const error = await client.get<never>("/test").catch((e: Error) => e);
+		expect(error).toBeInstanceOf(type);
+		expect(error).toBeInstanceOf(RDF4JError);
+		expect(error.constructor).toBe(type);
+	}
+});
+
+test("HttpClient keeps plain-text error messages", async () => {
+	const message =
+		'MALFORMED QUERY: Encountered " "}" "} "" at line 3, column 14.';
+	const client = new HttpClient({
+		baseUrl: "http://localhost:8080",
+		fetch: () =>
+			Promise.resolve(
+				new Response(message, {
+					status: 400,
+					statusText: "Bad Request",
+					headers: { "content-type": "text/plain" },
+				}),
+			),
+	});
+
+	const error = await client
+		.get<never>("/test")
+		.catch((e: MalformedQueryError) => e);
+	expect(error).toBeInstanceOf(MalformedQueryError);
+	expect(error.message).toBe(`HTTP 400: ${message}`);
+	expect(error.response).toEqual({ message, status: 400 });
+	expect(error.line).toBe(3);
+	expect(error.column).toBe(14);
+});
+
+test("HttpClient ignores HTML error pages", async () => {
+	const client = new HttpClient({
+		baseUrl: "http://localhost:8080",
+		fetch: () =>
+			Promise.resolve(
+				new Response("<html><body>Error</body></html>", {
+					status: 500,
+					statusText: "Server Error",
+					headers: { "content-type": "text/html" },
+				}),
+			),
+	});
+
+	await expect(client.get("/test")).rejects.toThrow("HTTP 500: Server Error");
+});
+
+test("HttpClient throws TimeoutError and NetworkError", async () => {
+	const hanging = new HttpClient({
+		baseUrl: "http://localhost:8080",
+		timeout: 5,
+		retry: { initialDelay: 1 },
+		fetch: (_url, init) =>
+			new Promise((_, reject) => {
+				init?.signal?.addEventListener("abort", () =>
+					reject(new DOMException("aborted", "AbortError")),
+				);
+			}),
+	});
+	const timeout = await hanging
+		.get<never>("/test")
+		.catch((e: TimeoutError) => e);
+	expect(timeout).toBeInstanceOf(TimeoutError);
+	expect(timeout.timeout).toBe(5);
+	expect(timeout.message).toBe("Request timed out after 5 ms");
+	expect(timeout).toBeInstanceOf(RDF4JError);
+	expect(timeout.status).toBe(0);
+
+	const reset = new TypeError("connection reset");
+	const offline = new HttpClient({
+		baseUrl: "http://localhost:8080",
+		fetch: () => Promise.reject(reset),
+	});
+	const network = await offline
+		.get<never>("/test")
+		.catch((e: NetworkError) => e);
+	expect(network).toBeInstanceOf(NetworkError);
+	expect(network.message).toBe("Network error: connection reset");
+	expect(network.cause).toBe(reset);
+	expect(network).toBeInstanceOf(RDF4JError);
+	expect(network.status).toBe(0);
+});
+
+test("HttpClient raises AbortError when the caller's signal aborts", async () => {
+	let calls = 0;
+	const client = new HttpClient({
+		baseUrl: "http://localhost:8080",
+		timeout: 1000,
+		fetch: (_url, init) => {
+			calls++;
+			return new Promise((_, reject) => {
+				init?.signal?.addEventListener("abort", () =>
+					reject(new DOMException("aborted", "AbortError")),
+				);
+			});
+		},
+	});
+
+	const controller = new AbortController();
+	const request = client.get<never>("/test", { signal: controller.signal });
+	controller.abort(new Error("cancelled"));
+	const error = await request.catch((e: AbortError) => e);
+	expect(error).toBeInstanceOf(AbortError);
+	expect(error).not.toBeInstanceOf(TimeoutError);
+	expect(error).toBeInstanceOf(RDF4JError);
+	expect(error.status).toBe(0);
+	expect((error.cause as Error).message).toBe("cancelled");
+	expect(calls).toBe(1);
+
+	const aborted = await client
+		.get<never>("/test", { signal: AbortSignal.abort() })
+		.catch((e: AbortError) => e);
+	expect(aborted).toBeInstanceOf(AbortError);
+	expect(calls).toBe(1);
+});
+
+test("HttpClient stops retrying when the caller's signal aborts", async () => {
+	const controller = new AbortController();
+	let calls = 0;
+	const client = new HttpClient({
+		baseUrl: "http://localhost:8080",
+		retry: { maxAttempts: 5, initialDelay: 10_000 },
+		fetch: () => {
+			calls++;
+			setTimeout(() => controller.abort(), 5);
+			return Promise.resolve(new Response("", { status: 503 }));
+		},
+	});
+
+	await expect(
+		client.get("/test", { signal: controller.signal }),
+	).rejects.toBeInstanceOf(AbortError);
+	expect(calls).toBe(1);
+});
@@ -1,20 +1,192 @@
+import { createDefaultDecoders, type DecoderRegistry } from "./decoders.ts";
 import {
+	composeMiddleware,
+	type HttpHandler,
+	type HttpRequest,
+	type Middleware,
+} from "./middleware.ts";
+import { parseQuads } from "./rdf-formats.ts";
+import { isRetryable, retryDelay } from "./retry.ts";
+import { parseShaclReport, reportFormat } from "./shacl-report.ts";
+import { Namespaces, type Quad } from "./terms.ts";
+import {
+	AbortError,
+	ConflictError,
 	ContentTypes,
 	type HttpMethod,
+	MalformedQueryError,
+	NetworkError,
+	NotFoundError,
 	type RDF4JConfig,
 	RDF4JError,
+	type RDF4JErrorResponse,
 	type RequestOptions,
+	type RetryPolicy,
+	ShaclValidationError,
+	TimeoutError,
+	TransactionNotFoundError,
+	type Transport,
+	UnauthorizedError,
+	UnsupportedMediaTypeError,
 } from "./types.ts";
 
+/** Throw `AbortError` if the caller's signal has been aborted */
+export function throwIfAborted(
+	signal: AbortSignal | undefined,
+	message = "Request aborted",
+): void {
+	if (signal?.aborted) {
+		throw new AbortError(message, { cause: signal.reason });
+	}
+}
+
+/** Wait before a retry, stopping early if the caller aborts */
+async function sleep(
+	ms: number,
+	signal: AbortSignal | undefined,
+): Promise<void> {
+	await new Promise<void>((resolve) => {
+		const timeoutId = setTimeout(done, ms);
+		function done() {
+			clearTimeout(timeoutId);
+			signal?.removeEventListener("abort", done);
+			resolve();
+		}
+		signal?.addEventListener("abort", done, { once: true });
+	});
+	throwIfAborted(signal);
+}
+
+/**
+ * Errors of a failed transport call: `fetch` rejects with TypeError,
+ * runtimes add a `code`. Aborts and the client's own errors are excluded.
+ */
+function isNetworkError(error: unknown): error is Error {
+	return (
+		error instanceof TypeError ||
+		(error instanceof Error &&
+			!(error instanceof RDF4JError) &&
+			error.name !== "AbortError" &&
+			typeof (error as { code?: unknown }).code === "string")
+	);
+}
+
+/**
+ * Build the error for a failed response from its status and body. RDF4J
+ * mostly explains errors in a plain-text body such as
+ * `MALFORMED QUERY: ...` or `Unknown transaction ID`.
+ */
+function createHttpError(response: Response, text: string): RDF4JError {
+	const { status, statusText, headers } = response;
+	const report = parseValidationReport(response, text);
+	if (report) {
+		return new ShaclValidationError(
+			parseShaclReport(report),
+			report,
+			status,
+			statusText,
+			headers,
+		);
+	}
+
+	let body: RDF4JErrorResponse | undefined;
+	let detail: string | undefined;
+	try {
+		body = text ? JSON.parse(text) : undefined;
+	} catch {
+		// Plain-text bodies carry the message; HTML error pages are ignored
+		const plain = text.trim();
+		if (plain && !/html/i.test(headers.get("Content-Type") ?? "")) {
+			detail = plain;
+			body = { message: plain, status };
+		}
+	}
+
+	const args = [
+		`HTTP ${status}: ${detail ?? statusText}`,
+		status,
+		statusText,
+		body,
+		headers,
+	] as const;
+
+	const message = detail ?? body?.message ?? body?.error ?? "";
+	if (/^MALFORMED QUERY\b/i.test(message)) {
+		return new MalformedQueryError(...args);
+	}
+	if (
+		/unknown transaction|transaction\b.*\b(not found|does not exist)/i.test(
+			message,
+		)
+	) {
+		return new TransactionNotFoundError(...args);
+	}
+	if (status === 415 || /^UNSUPPORTED FILE FORMAT\b/i.test(message)) {
+		return new UnsupportedMediaTypeError(...args);
+	}
+	switch (status) {
+		case 401:
+		case 403:
+			return new UnauthorizedError(...args);
+		case 404:
+			return new NotFoundError(...args);
+		case 409:
+			return new ConflictError(...args);
+		default:
+			return new RDF4JError(...args);
+	}
+}
+
+/**
+ * The SHACL validation report of a failed response. RDF4J answers writes
+ * that violate the repository's shapes with 409 and the report as RDF.
+ */
+function parseValidationReport(
+	response: Response,
+	text: string,
+): Quad[] | undefined {
+	const format = reportFormat(response.headers.get("Content-Type") ?? "");
+	if (response.status !== 409 || format === undefined || !text) {
+		return undefined;
+	}
+	try {
+		const report = parseQuads(text, format);
+		return report.some(
+			(quad) => quad.object.value === `${Namespaces.SH}ValidationReport`,
+		)
+			? report
+			: undefined;
+	} catch {
+		return undefined;
+	}
+}
+
 /** Low-level HTTP client for making REST API calls */
 export class HttpClient {
 	private readonly baseUrl: string;
 	private readonly defaultHeaders: Record<string, string>;
 	private readonly timeout: number;
+	private readonly retry?: RetryPolicy;
+	private readonly transport: Transport;
+	private readonly middleware: Middleware[];
+	private dispatch: HttpHandler;
+
+	/** Response decoders consulted by `request` and `requestWithHeaders` */
+	readonly decoders: DecoderRegistry;
 
 	constructor(config: RDF4JConfig) {
 		this.baseUrl = config.baseUrl.replace(/\/$/, "");
 		this.timeout = config.timeout ?? 30000;
+		this.retry = config.retry;
+		// Resolve the global fetch per call so it can be replaced at runtime
+		this.transport = config.fetch ?? ((url, init) => fetch(url, init));
+		this.middleware = [...(config.middleware ?? [])];
+		this.dispatch = this.compose();
+
+		this.decoders = createDefaultDecoders();
+		for (const [type, decoder] of Object.entries(config.decoders ?? {})) {
+			this.decoders.register(type, decoder);
+		}
 
 		this.defaultHeaders = {
 			...config.headers,
@@ -28,6 +200,40 @@ export class HttpClient {
 		}
 	}
 
+	/**
+	 * Append middleware to the chain; it runs inside any middleware
+	 * registered before it
+	 */
+	use(middleware: Middleware): this {
+		this.middleware.push(middleware);
+		this.dispatch = this.compose();
+		return this;
+	}
+
+	/**
+	 * Chain the middleware around the transport. Only failures of the
+	 * transport become NetworkErrors; errors thrown by middleware propagate
+	 * unchanged and are not retried.
+	 */
+	private compose(): HttpHandler {
+		return composeMiddleware(this.middleware, async (request) => {
+			try {
+				return await this.transport(request.url, {
+					method: request.method,
+					headers: request.headers,
+					body: request.body,
+					signal: request.signal,
+				});
+			} catch (error) {
+				throw isNetworkError(error)
+					? new NetworkError(`Network error: ${error.message}`, {
+							cause: error,
+						})
+					: error;
+			}
+		});
+	}
+
 	/** Build full URL with query parameters */
 	private buildUrl(
 		path: string,
@@ -49,7 +255,7 @@ export class HttpClient {
 
 	/** Prepare request body and content type */
 	private prepareBody(options: RequestOptions): {
-		body: string | undefined;
+		body: BodyInit | undefined;
 		contentType: string | undefined;
 	} {
 		if (!options.body) {
@@ -63,18 +269,26 @@ export class HttpClient {
 			};
 		}
 
+		if (options.body instanceof Uint8Array) {
+			return {
+				body: options.body as Uint8Array<ArrayBuffer>,
+				contentType: options.contentType ?? "application/octet-stream",
+			};
+		}
+
 		return {
 			body: JSON.stringify(options.body),
 			contentType: options.contentType ?? ContentTypes.JSON,
 		};
 	}
 
-	/** Make an HTTP request */
-	async request<T = unknown>(
+	/** Send a single request and return the response once headers arrive */
+	private async send(
 		method: HttpMethod,
 		path: string,
-		options: RequestOptions = {},
-	): Promise<T> {
+		options: RequestOptions,
+		signal: AbortSignal,
+	): Promise<Response> {
 		const url = this.buildUrl(path, options.params);
 		const { body, contentType } = this.prepareBody(options);
 
@@ -91,125 +305,108 @@ export class HttpClient {
 			headers.Accept = options.accept;
 		}
 
-		const controller = new AbortController();
-		const timeoutId = setTimeout(
-			() => controller.abort(),
-			options.timeout ?? this.timeout,
-		);
-
-		try {
-			const response = await fetch(url, {
-				method,
-				headers,
-				body,
-				signal: controller.signal,
-			});
-
-			if (!response.ok) {
-				let errorResponse: unknown;
-				try {
-					const text = await response.text();
-					errorResponse = text ? JSON.parse(text) : undefined;
-				} catch {
-					// Response body is not JSON
-				}
-
-				throw new RDF4JError(
-					`HTTP ${response.status}: ${response.statusText}`,
-					response.status,
-					response.statusText,
-					errorResponse as Record<string, unknown>,
-				);
-			}
+		const request: HttpRequest = { method, url, headers, body, signal };
+		const response = await this.dispatch(request);
 
-			const responseContentType = response.headers.get("content-type") ?? "";
+		if (!response.ok) {
+			const text = await response.text().catch(() => "");
+			throw createHttpError(response, text);
+		}
 
-			if (response.status === 204 || !responseContentType) {
-				return undefined as T;
-			}
+		return response;
+	}
 
-			if (responseContentType.includes("application/json")) {
-				return (await response.json()) as T;
+	/**
+	 * Send a request and read its response with `read`, retrying according
+	 * to the configured retry policy. Each attempt has its own timeout,
+	 * which covers `read`.
+	 */
+	private async execute<T>(
+		method: HttpMethod,
+		path: string,
+		options: RequestOptions,
+		read: (response: Response) => Promise<T>,
+	): Promise<T> {
+		const policy = this.retry;
+		const retryable =
+			policy !== undefined && isRetryable(policy, method, options.idempotent);
+
+		const timeout = options.timeout ?? this.timeout;
+		const external = options.signal;
+
+		for (let attempt = 1; ; attempt++) {
+			throwIfAborted(external);
+			const controller = new AbortController();
+			let timedOut = false;
+			const timeoutId = setTimeout(() => {
+				timedOut = true;
+				controller.abort();
+			}, timeout);
+			const signal = external
+				? AbortSignal.any([controller.signal, external])
+				: controller.signal;
+
+			try {
+				const response = await this.send(method, path, options, signal);
+				return await read(response);
+			} catch (caught) {
+				throwIfAborted(external);
+				const error = timedOut
+					? new TimeoutError(`Request timed out after ${timeout} ms`, timeout, {
+							cause: caught,
+						})
+					: caught;
+				const delay = retryable
+					? retryDelay(policy, error, attempt)
+					: undefined;
+				if (delay === undefined) {
+					throw error;
+				}
+				await sleep(delay, external);
+			} finally {
+				clearTimeout(timeoutId);
 			}
-
-			return (await response.text()) as T;
-		} finally {
-			clearTimeout(timeoutId);
 		}
 	}
 
+	/** Make an HTTP request */
+	async request<T = unknown>(
+		method: HttpMethod,
+		path: string,
+		options: RequestOptions = {},
+	): Promise<T> {
+		return this.execute(
+			method,
+			path,
+			options,
+			async (response) => (await this.decoders.decode(response)) as T,
+		);
+	}
+
 	/** Make an HTTP request and return response with headers */
 	async requestWithHeaders(
 		method: HttpMethod,
 		path: string,
 		options: RequestOptions = {},
 	): Promise<{ body: unknown; headers: Headers; status: number }> {
-		const url = this.buildUrl(path, options.params);
-		const { body, contentType } = this.prepareBody(options);
-
-		const headers: Record<string, string> = {
-			...this.defaultHeaders,
-			...options.headers,
-		};
-
-		if (contentType) {
-			headers["Content-Type"] = contentType;
-		}
-
-		if (options.accept) {
-			headers.Accept = options.accept;
-		}
-
-		const controller = new AbortController();
-		const timeoutId = setTimeout(
-			() => controller.abort(),
-			options.timeout ?? this.timeout,
-		);
-
-		try {
-			const response = await fetch(url, {
-				method,
-				headers,
-				body,
-				signal: controller.signal,
-			});
-
-			if (!response.ok) {
-				let errorResponse: unknown;
-				try {
-					const text = await response.text();
-					errorResponse = text ? JSON.parse(text) : undefined;
-				} catch {
-					// Response body is not JSON
-				}
-
-				throw new RDF4JError(
-					`HTTP ${response.status}: ${response.statusText}`,
-					response.status,
-					response.statusText,
-					errorResponse as Record<string, unknown>,
-				);
-			}
-
-			const responseContentType = response.headers.get("content-type") ?? "";
-
-			let responseBody: unknown;
-			if (response.status === 204 || !responseContentType) {
-				responseBody = undefined;
-			} else if (responseContentType.includes("application/json")) {
-				responseBody = await response.json();
-			} else {
-				responseBody = await response.text();
-			}
+		return this.execute(method, path, options, async (response) => ({
+			body: await this.decoders.decode(response),
+			headers: response.headers,
+			status: response.status,
+		}));
+	}
 
-			return {
-				body: responseBody,
-				headers: response.headers,
-				status: response.status,
-			};
-		} finally {
-			clearTimeout(timeoutId);
-		}
+	/**
+	 * Make an HTTP request and return the raw response for streaming.
+	 * The timeout only applies until the response headers have arrived;
+	 * aborting the signal also cancels the body.
+	 */
+	async requestStream(
+		method: HttpMethod,
+		path: string,
+		options: RequestOptions = {},
+	): Promise<Response> {
+		return this.execute(method, path, options, async (response) => response);
 	}
 
 	/** GET request */
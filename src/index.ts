@@ -1,20 +1,230 @@
+// Binary RDF
+export type { BinaryRdfParserOptions } from "./binary-rdf.ts";
+export { parseBinaryRdf, serializeBinaryRdf } from "./binary-rdf.ts";
+// Binary results table
+export { parseBinaryResults } from "./binary-results.ts";
+// Streaming SELECT results
+export { BindingsStream, SparqlJsonParser } from "./bindings-stream.ts";
 // Main client
 export type { Repository } from "./client.ts";
 export { RDF4JClient } from "./client.ts";
+// Response decoders
+export type { ResponseDecoder } from "./decoders.ts";
+export { createDefaultDecoders, DecoderRegistry } from "./decoders.ts";
 // Graph Store client
+export type { GraphName } from "./graph-store-client.ts";
 export { GraphStoreClient } from "./graph-store-client.ts";
 // HTTP client
 export { HttpClient } from "./http-client.ts";
+// Middleware
+export type {
+	HttpHandler,
+	HttpRequest,
+	Middleware,
+} from "./middleware.ts";
+export { composeMiddleware } from "./middleware.ts";
+// Mock RDF4J server for tests
+export type {
+	MockRepository,
+	MockServerOptions,
+	MockSparqlHandler,
+	QuadPattern,
+} from "./mock-server.ts";
+export { MemoryQuadStore, MockRDF4JServer } from "./mock-server.ts";
+// N-Triples / N-Quads
+export type { NQuadsParserOptions, TextSource } from "./ntriples.ts";
+export {
+	NQuadsParser,
+	parseNQuads,
+	parseNTriples,
+	quadToString,
+	serializeNQuads,
+	serializeNQuadsStream,
+	serializeNTriples,
+} from "./ntriples.ts";
+// Pagination
+export type {
+	KeysetPageFetcher,
+	OffsetPageFetcher,
+	PaginationOptions,
+} from "./pagination.ts";
+export {
+	pageQuery,
+	paginateByKey,
+	paginateByOffset,
+} from "./pagination.ts";
+// SPARQL query builder
+export type {
+	Pattern,
+	PatternTerm,
+	SortDirection,
+	TriplePattern,
+} from "./query-builder.ts";
+export {
+	AskBuilder,
+	alias,
+	ask,
+	ConstructBuilder,
+	construct,
+	DeleteWhereBuilder,
+	deleteWhere,
+	insert,
+	Projection,
+	remove,
+	SelectBuilder,
+	select,
+	UpdateBuilder,
+	variable,
+} from "./query-builder.ts";
+// SPARQL query forms
+export type { QueryForm, QueryResult } from "./query-form.ts";
+export { detectQueryForm } from "./query-form.ts";
+// RDF formats
+export type {
+	RdfFormat,
+	RdfPayload,
+	RdfSerializeOptions,
+} from "./rdf-formats.ts";
+export {
+	getRdfFormat,
+	parseQuadStream,
+	parseQuads,
+	registerRdfFormat,
+	serializeQuads,
+} from "./rdf-formats.ts";
+// Recording / replay transports
+export type {
+	RecordedInteraction,
+	TransportFixture,
+} from "./recording-transport.ts";
+export {
+	RecordingTransport,
+	ReplayTransport,
+} from "./recording-transport.ts";
 // Repository client
 export type {
 	QueryOptions,
+	SparqlBinding,
 	SparqlBindings,
 	SparqlBooleanResult,
 	StatementOptions,
+	TransactionOptions,
+	UploadOptions,
 } from "./repository-client.ts";
 export { RepositoryClient } from "./repository-client.ts";
+// Repository configuration
+export type {
+	CustomRuleOptions,
+	FederationOptions,
+	LuceneOptions,
+	MemoryStoreOptions,
+	NativeStoreOptions,
+	ParsedRepositoryConfig,
+	RemoteRepositoryOptions,
+	RepositoryConfigChange,
+	RepositoryTypeOptions,
+	SailOptions,
+	ShaclOptions,
+	SparqlRepositoryOptions,
+} from "./repository-config.ts";
+export {
+	buildRepositoryConfig,
+	CONFIG_NAMESPACE,
+	diffRepositoryConfig,
+	parseRepositoryConfig,
+} from "./repository-config.ts";
+// Result mapping
+export type {
+	DatatypeConverter,
+	DatatypeConverters,
+	FieldParser,
+	FieldSpec,
+	FieldType,
+	FieldTypes,
+	NativeRow,
+	NativeValue,
+	ResultMappingOptions,
+	ResultSchema,
+	SchemaRow,
+} from "./result-mapping.ts";
+export {
+	mapBindings,
+	mapRows,
+	toNativeValue,
+	xsdConverters,
+} from "./result-mapping.ts";
+// SHACL validation reports
+export type { ShaclValidationResult } from "./shacl-report.ts";
+export { parseShaclReport, reportFormat } from "./shacl-report.ts";
+// SHACL shapes client
+export type { DryRunResult, ShapesUploadOptions } from "./shapes-client.ts";
+export { SHACL_SHAPE_GRAPH, ShapesClient } from "./shapes-client.ts";
+// SPARQL results formats
+export type { SparqlResultsFormat } from "./sparql-results.ts";
+export {
+	parseSparqlCsv,
+	parseSparqlTsv,
+	parseSparqlXml,
+	sparqlResultsMediaType,
+} from "./sparql-results.ts";
+// SPARQL tagged templates
+export type { SparqlQuery, SparqlValue } from "./sparql-template.ts";
+export {
+	encodeSparqlValue,
+	iri,
+	PreparedQuery,
+	queryText,
+	sparql,
+	values,
+} from "./sparql-template.ts";
+// RDF/JS term model
+export type {
+	DataFactory,
+	QuadGraph,
+	QuadObject,
+	QuadPredicate,
+	QuadSubject,
+	SparqlTerm,
+	Term,
+	TermBindings,
+} from "./terms.ts";
+export {
+	BlankNode,
+	DefaultGraph,
+	dataFactory,
+	fromSparqlTerm,
+	Literal,
+	NamedNode,
+	Namespaces,
+	Quad,
+	termToString,
+	toSparqlTerm,
+	toTermBindings,
+	Variable,
+} from "./terms.ts";
 // Transaction client
 export { TransactionClient } from "./transaction-client.ts";
+// Transaction documents
+export type {
+	StatementPattern,
+	TransactionOperation,
+} from "./transaction-document.ts";
+export {
+	parseTransaction,
+	serializeTransaction,
+	TransactionDocument,
+} from "./transaction-document.ts";
+// Turtle / TriG
+export type { TurtleParserOptions, TurtleWriterOptions } from "./turtle.ts";
+export {
+	parseTriG,
+	parseTurtle,
+	resolveIri,
+	serializeTriG,
+	serializeTurtle,
+	TurtleParser,
+	TurtleWriter,
+} from "./turtle.ts";
 
 // Types
 export type {
@@ -26,6 +236,26 @@ export type {
 	RepositoryConfig,
 	RepositoryType,
 	RequestOptions,
+	RetryPolicy,
+	SignalOptions,
 	TransactionAction,
+	Transport,
+	UntypedRepositoryConfig,
+} from "./types.ts";
+export {
+	AbortError,
+	ConflictError,
+	ContentTypes,
+	MalformedQueryError,
+	NetworkError,
+	NotFoundError,
+	QueryResultsError,
+	RDF4JError,
+	RDFParseError,
+	ResultMappingError,
+	ShaclValidationError,
+	TimeoutError,
+	TransactionNotFoundError,
+	UnauthorizedError,
+	UnsupportedMediaTypeError,
 } from "./types.ts";
-export { ContentTypes, RDF4JError } from "./types.ts";
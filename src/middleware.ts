@@ -0,0 +1,39 @@
+import type { HttpMethod } from "./types.ts";
+
+/** An outgoing request as seen by middleware */
+export interface HttpRequest {
+	method: HttpMethod;
+	/** Absolute URL including query parameters */
+	url: string;
+	headers: Record<string, string>;
+	body?: BodyInit;
+	/** Aborted when the request times out */
+	signal: AbortSignal;
+}
+
+/** Sends a request and resolves with the raw response */
+export type HttpHandler = (request: HttpRequest) => Promise<Response>;
+
+/**
+ * Wraps request dispatch. Middleware may modify the request before calling
+ * `next`, inspect or replace the response (including error responses),
+ * catch `NetworkError`s, or return a response without calling `next`.
+ */
+export type Middleware = (
+	request: HttpRequest,
+	next: HttpHandler,
+) => Promise<Response>;
+
+/**
+ * Compose middleware around a handler. The first middleware is the
+ * outermost and sees the request first and the response last.
+ */
+export function composeMiddleware(
+	middleware: readonly Middleware[],
+	handler: HttpHandler,
+): HttpHandler {
+	return middleware.reduceRight<HttpHandler>(
+		(next, current) => (request) => current(request, next),
+		handler,
+	);
+}
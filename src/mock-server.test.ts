@@ -0,0 +1,181 @@
+import { afterAll, beforeAll, expect, test } from "bun:test";
+import { RDF4JClient } from "./client.ts";
+import { MockRDF4JServer } from "./mock-server.ts";
+import { dataFactory as df } from "./terms.ts";
+import { ContentTypes } from "./types.ts";
+
+const ex = (name: string) => df.namedNode(`http://example.org/${name}`);
+
+const server = new MockRDF4JServer({ repositories: ["test"] });
+let client: RDF4JClient;
+
+beforeAll(() => {
+	client = new RDF4JClient({ baseUrl: server.start() });
+});
+
+afterAll(async () => {
+	await server.stop();
+});
+
+test("MockRDF4JServer manages repositories over HTTP", async () => {
+	expect(await client.getProtocol()).toBe("12");
+
+	await client.createRepository({ id: "other", title: "Other repository" });
+	expect(await client.repositoryExists("other")).toBe(true);
+	expect(await client.listRepositories()).toContainEqual(
+		expect.objectContaining({ id: "other", title: "Other repository" }),
+	);
+
+	await client.deleteRepository("other");
+	expect(await client.repositoryExists("other")).toBe(false);
+});
+
+test("MockRDF4JServer stores and filters statements", async () => {
+	const repo = client.repository("test");
+	await repo.clear();
+	await repo.add([
+		df.quad(ex("alice"), ex("knows"), ex("bob"), ex("g1")),
+		df.quad(ex("alice"), ex("name"), df.literal("Alice", "en")),
+		df.quad(ex("bob"), ex("name"), df.literal("Bob")),
+	]);
+	await repo.add(
+		'<http://example.org/carol> <http://example.org/name> "Carol" .',
+		{
+			contentType: ContentTypes.NTRIPLES,
+			context: ex("g2"),
+		},
+	);
+
+	expect(await repo.size()).toBe(4);
+	expect(await repo.size(ex("g1"))).toBe(1);
+	expect((await repo.contexts()).sort()).toEqual([
+		"http://example.org/g1",
+		"http://example.org/g2",
+	]);
+
+	const names = await repo.getQuads({ pred: ex("name") });
+	expect(names.map((quad) => quad.object.value).sort()).toEqual([
+		"Alice",
+		"Bob",
+		"Carol",
+	]);
+	const english = await repo.getQuads({ obj: df.literal("Alice", "en") });
+	expect(english).toHaveLength(1);
+
+	await repo.delete({ subj: ex("bob") });
+	expect(await repo.size()).toBe(3);
+
+	const bytes = await repo.export({ accept: ContentTypes.BINARY_RDF });
+	await repo.clear();
+	await repo.add(bytes);
+	expect(await repo.size()).toBe(3);
+});
+
+test("MockRDF4JServer supports namespaces", async () => {
+	const repo = client.repository("test");
+	await repo.setNamespace("ex", "http://example.org/");
+	expect(await repo.namespaces()).toEqual({ ex: "http://example.org/" });
+	expect(await repo.getNamespace("ex")).toBe("http://example.org/");
+
+	await repo.deleteNamespace("ex");
+	expect(await repo.getNamespace("ex")).toBeNull();
+});
+
+test("MockRDF4JServer isolates transactions until commit", async () => {
+	const repo = client.repository("test");
+	await repo.clear();
+
+	const tx = await repo.beginTransaction();
+	await tx.add([df.quad(ex("s"), ex("p"), ex("o"))]);
+	expect(await tx.size()).toBe(1);
+	expect(await repo.size()).toBe(0);
+	await tx.commit();
+	expect(await repo.size()).toBe(1);
+
+	const rolledBack = await repo.beginTransaction();
+	await rolledBack.delete({ subj: ex("s") });
+	expect(await rolledBack.getQuads()).toEqual([]);
+	await rolledBack.rollback();
+	expect(await repo.size()).toBe(1);
+});
+
+test("MockRDF4JServer keeps writes made outside a transaction at commit", async () => {
+	const local = new MockRDF4JServer({
+		repositories: ["test"],
+		// Stand-in for an update that replaces ex:old with ex:new
+		sparql: ({ store }) => {
+			store.deleteMatches({ subject: ex("old") });
+			store.add(df.quad(ex("new"), ex("p"), ex("o")));
+			return new Response(null, { status: 204 });
+		},
+	});
+	const repo = new RDF4JClient({
+		baseUrl: "http://mock",
+		fetch: local.fetch,
+	}).repository("test");
+	await repo.add([df.quad(ex("old"), ex("p"), ex("o"))]);
+
+	const tx = await repo.beginTransaction();
+	await tx.add([df.quad(ex("tx"), ex("p"), ex("o"))]);
+	await tx.update(
+		"DELETE WHERE { ex:old ?p ?o } ; INSERT DATA { ex:new ex:p ex:o }",
+	);
+	await repo.add([df.quad(ex("outside"), ex("p"), ex("o"))]);
+	await tx.commit();
+
+	const subjects = (await repo.getQuads()).map((quad) => quad.subject.value);
+	expect(subjects.sort()).toEqual(
+		["new", "outside", "tx"].map((name) => ex(name).value),
+	);
+});
+
+test("MockRDF4JServer implements the Graph Store protocol", async () => {
+	const repo = client.repository("test");
+	await repo.clear();
+	const graphs = repo.graphStore();
+
+	await graphs.put(ex("g"), [df.quad(ex("s"), ex("p"), df.literal("1"))]);
+	await graphs.post(ex("g"), [df.quad(ex("s"), ex("p"), df.literal("2"))]);
+	await graphs.postDefault([df.quad(ex("d"), ex("p"), ex("o"))]);
+
+	expect(await graphs.exists(ex("g"))).toBe(true);
+	expect(await graphs.getQuads(ex("g"))).toHaveLength(2);
+	expect(await graphs.getDefaultQuads()).toHaveLength(1);
+
+	await graphs.putDirect(ex("direct"), [df.quad(ex("s"), ex("p"), ex("o"))]);
+	expect(await repo.size(ex("direct"))).toBe(1);
+
+	await graphs.delete(ex("g"));
+	expect(await graphs.exists(ex("g"))).toBe(false);
+});
+
+test("MockRDF4JServer serves requests in-process and delegates SPARQL", async () => {
+	const local = new MockRDF4JServer({
+		repositories: ["test"],
+		sparql: ({ kind, store }) =>
+			kind === "query"
+				? Response.json(
+						{ head: {}, boolean: store.size > 0 },
+						{ headers: { "content-type": ContentTypes.SPARQL_RESULTS_JSON } },
+					)
+				: new Response(null, { status: 204 }),
+	});
+	const inProcess = new RDF4JClient({
+		baseUrl: "http://mock/rdf4j-server",
+		fetch: local.fetch,
+	});
+	const repo = inProcess.repository("test");
+
+	expect(await repo.ask("ASK { ?s ?p ?o }")).toBe(false);
+	await repo.add([df.quad(ex("s"), ex("p"), ex("o"))]);
+	expect(await repo.ask("ASK { ?s ?p ?o }")).toBe(true);
+
+	await expect(
+		new RDF4JClient({
+			baseUrl: "http://mock",
+			fetch: new MockRDF4JServer({ repositories: ["x"] }).fetch,
+		})
+			.repository("x")
+			.query("SELECT * WHERE { ?s ?p ?o }"),
+	).rejects.toMatchObject({ status: 501 });
+});
@@ -0,0 +1,800 @@
+import { parseBinaryRdf, serializeBinaryRdf } from "./binary-rdf.ts";
+import { parseNQuads, quadToString } from "./ntriples.ts";
+import { mediaType, parseQuads, serializeQuads } from "./rdf-formats.ts";
+import type { SparqlBinding, SparqlBindings } from "./repository-client.ts";
+import {
+	type BlankNode,
+	DefaultGraph,
+	NamedNode,
+	Namespaces,
+	Quad,
+	type QuadGraph,
+	type SparqlTerm,
+	type Term,
+	toSparqlTerm,
+} from "./terms.ts";
+import { parseTransaction } from "./transaction-document.ts";
+import { parseTurtle } from "./turtle.ts";
+import { ContentTypes, type Transport } from "./types.ts";
+
+/** Pattern used to select statements; undefined positions match anything */
+export interface QuadPattern {
+	subject?: Term;
+	predicate?: Term;
+	object?: Term;
+	/** Contexts to match; an empty list matches every context */
+	graphs?: Term[];
+}
+
+/** In-memory quad store with set semantics */
+export class MemoryQuadStore {
+	private readonly quads = new Map<string, Quad>();
+
+	constructor(quads: Iterable<Quad> = []) {
+		for (const quad of quads) {
+			this.add(quad);
+		}
+	}
+
+	get size(): number {
+		return this.quads.size;
+	}
+
+	add(quad: Quad): void {
+		this.quads.set(quadToString(quad), quad);
+	}
+
+	delete(quad: Quad): boolean {
+		return this.quads.delete(quadToString(quad));
+	}
+
+	/** Quads matching a pattern */
+	match(pattern: QuadPattern = {}): Quad[] {
+		const { subject, predicate, object, graphs = [] } = pattern;
+		return [...this.quads.values()].filter(
+			(quad) =>
+				(!subject || quad.subject.equals(subject)) &&
+				(!predicate || quad.predicate.equals(predicate)) &&
+				(!object || quad.object.equals(object)) &&
+				(graphs.length === 0 || graphs.some((g) => quad.graph.equals(g))),
+		);
+	}
+
+	/** Remove all quads matching a pattern, returning how many were removed */
+	deleteMatches(pattern: QuadPattern = {}): number {
+		const matches = this.match(pattern);
+		for (const quad of matches) {
+			this.delete(quad);
+		}
+		return matches.length;
+	}
+
+	/** Distinct named graphs (and blank node contexts) in the store */
+	contexts(): Array<NamedNode | BlankNode> {
+		const contexts = new Map<string, NamedNode | BlankNode>();
+		for (const { graph } of this.quads.values()) {
+			if (graph.termType === "NamedNode" || graph.termType === "BlankNode") {
+				contexts.set(`${graph.termType}:${graph.value}`, graph);
+			}
+		}
+		return [...contexts.values()];
+	}
+
+	clone(): MemoryQuadStore {
+		return new MemoryQuadStore(this.quads.values());
+	}
+}
+
+/** A repository hosted by the mock server */
+export interface MockRepository {
+	id: string;
+	title: string;
+	/** Latest configuration document of the repository */
+	config: string;
+	store: MemoryQuadStore;
+	namespaces: Map<string, string>;
+}
+
+/**
+ * Handles SPARQL queries and updates, which the mock server cannot
+ * evaluate itself. `store` is the transaction's working copy for requests
+ * made within a transaction.
+ */
+export type MockSparqlHandler = (context: {
+	kind: "query" | "update";
+	sparql: string;
+	repository: MockRepository;
+	store: MemoryQuadStore;
+	request: Request;
+}) => Response | Promise<Response>;
+
+/** Options for the mock RDF4J server */
+export interface MockServerOptions {
+	/** Port to listen on (default: a random free port) */
+	port?: number;
+	/** IDs of empty memory repositories to create up front */
+	repositories?: string[];
+	/** Protocol version reported by `/protocol` (default: "12") */
+	protocol?: string;
+	/** Handler for SPARQL queries and updates (default: 501 responses) */
+	sparql?: MockSparqlHandler;
+}
+
+interface Transaction {
+	repository: MockRepository;
+	/** Working copy that requests within the transaction read and write */
+	store: MemoryQuadStore;
+	/** Changes made so far, replayed onto the repository's store at commit */
+	changes: Array<(store: MemoryQuadStore) => void>;
+}
+
+/** Error mapped to a plain-text HTTP error response */
+class HttpError extends Error {
+	constructor(
+		readonly status: number,
+		message: string,
+	) {
+		super(message);
+	}
+}
+
+const STATEMENT_FORMATS = [
+	ContentTypes.NQUADS,
+	ContentTypes.NTRIPLES,
+	ContentTypes.TURTLE,
+	ContentTypes.TRIG,
+	ContentTypes.BINARY_RDF,
+];
+
+const PLACEHOLDER = "<urn:x-mock:placeholder>";
+
+function text(body: string, status = 200): Response {
+	return new Response(body, {
+		status,
+		headers: { "content-type": ContentTypes.TEXT },
+	});
+}
+
+function noContent(): Response {
+	return new Response(null, { status: 204 });
+}
+
+function sparqlJson(vars: string[], bindings: SparqlBinding[]): Response {
+	const body: SparqlBindings = { head: { vars }, results: { bindings } };
+	return Response.json(body, {
+		headers: { "content-type": ContentTypes.SPARQL_RESULTS_JSON },
+	});
+}
+
+function literal(value: string | boolean): SparqlTerm {
+	return typeof value === "boolean"
+		? {
+				type: "literal",
+				value: String(value),
+				datatype: `${Namespaces.XSD}boolean`,
+			}
+		: { type: "literal", value };
+}
+
+/** The `rdfs:label` of a repository configuration */
+function configLabel(config: string): string | undefined {
+	return parseTurtle(config).find(
+		(quad) => quad.predicate.value === `${Namespaces.RDFS}label`,
+	)?.object.value;
+}
+
+/** Parse an N-Triples encoded term from a request parameter */
+function parseTerm(value: string): Term {
+	if (value === "null") {
+		return DefaultGraph.instance;
+	}
+	const encoded = /^(<|_:|"|<<)/.test(value) ? value : `<${value}>`;
+	try {
+		const [quad] = parseNQuads(`${PLACEHOLDER} ${PLACEHOLDER} ${encoded} .`);
+		if (quad) {
+			return quad.object;
+		}
+	} catch {
+		// Reported below
+	}
+	throw new HttpError(400, `MALFORMED QUERY: invalid value ${value}`);
+}
+
+/** Read a statement pattern from `subj`, `pred`, `obj` and `context` */
+function patternFromParams(params: URLSearchParams): QuadPattern {
+	const term = (name: string) => {
+		const value = params.get(name);
+		return value ? parseTerm(value) : undefined;
+	};
+	return {
+		subject: term("subj"),
+		predicate: term("pred"),
+		object: term("obj"),
+		graphs: contextsFromParams(params),
+	};
+}
+
+/** Contexts from repeated or comma-separated `context` parameters */
+function contextsFromParams(params: URLSearchParams): Term[] {
+	return params
+		.getAll("context")
+		.flatMap((value) => value.split(/,(?=\s*(?:<|_:|null))/))
+		.filter((value) => value.trim() !== "")
+		.map((value) => parseTerm(value.trim()));
+}
+
+/** Pick the first acceptable statement format (default: N-Quads) */
+function negotiate(request: Request): string {
+	const accepted = (request.headers.get("accept") ?? "")
+		.split(",")
+		.map((type) => mediaType(type));
+	return (
+		accepted.find((type) =>
+			STATEMENT_FORMATS.some((format) => format === type),
+		) ?? ContentTypes.NQUADS
+	);
+}
+
+/**
+ * In-process RDF4J server for integration tests, backed by in-memory quad
+ * stores. It implements the REST endpoints used by the clients (protocol,
+ * repositories, statements, size, contexts, namespaces, transactions and
+ * the Graph Store protocol). SPARQL evaluation is delegated to the
+ * `sparql` option.
+ *
+ * Use `start()` to listen on a port, or pass `fetch` as the client's
+ * transport to skip the network entirely.
+ */
+export class MockRDF4JServer {
+	readonly repositories = new Map<string, MockRepository>();
+
+	private readonly transactions = new Map<string, Transaction>();
+	private server?: ReturnType<typeof Bun.serve>;
+
+	constructor(private readonly options: MockServerOptions = {}) {
+		for (const id of options.repositories ?? []) {
+			this.createRepository(id);
+		}
+	}
+
+	/** Base URL of the running server */
+	get url(): string {
+		if (!this.server) {
+			throw new Error("Mock server is not running");
+		}
+		return `http://${this.server.hostname}:${this.server.port}`;
+	}
+
+	/** Start listening, returning the base URL */
+	start(): string {
+		this.server ??= Bun.serve({
+			port: this.options.port ?? 0,
+			hostname: "127.0.0.1",
+			fetch: (request) => this.handle(request),
+		});
+		return this.url;
+	}
+
+	/** Stop listening */
+	async stop(): Promise<void> {
+		await this.server?.stop(true);
+		this.server = undefined;
+	}
+
+	/** Transport that serves requests in-process, without a socket */
+	readonly fetch: Transport = (url, init) =>
+		this.handle(new Request(url, init));
+
+	/** Create (or replace) an empty repository */
+	createRepository(id: string, title = id, config = ""): MockRepository {
+		const repository: MockRepository = {
+			id,
+			title,
+			config,
+			store: new MemoryQuadStore(),
+			namespaces: new Map(),
+		};
+		this.repositories.set(id, repository);
+		return repository;
+	}
+
+	/** Handle a request to the REST API */
+	async handle(request: Request): Promise<Response> {
+		try {
+			return await this.route(request);
+		} catch (error) {
+			if (error instanceof HttpError) {
+				return text(error.message, error.status);
+			}
+			return text(`MALFORMED DATA: ${(error as Error).message}`, 400);
+		}
+	}
+
+	private async route(request: Request): Promise<Response> {
+		const url = new URL(request.url);
+		const segments = url.pathname
+			.split("/")
+			.filter(Boolean)
+			.map((segment) => decodeURIComponent(segment));
+		// Allow the server to be mounted below a path prefix
+		const start = segments.findIndex(
+			(segment) => segment === "protocol" || segment === "repositories",
+		);
+		const [root, id, resource, ...rest] =
+			start === -1 ? [] : segments.slice(start);
+		const method = request.method;
+
+		if (root === "protocol" && method === "GET") {
+			return text(this.options.protocol ?? "12");
+		}
+		if (root !== "repositories") {
+			throw new HttpError(404, `Not found: ${url.pathname}`);
+		}
+		if (id === undefined) {
+			if (method !== "GET") {
+				throw new HttpError(405, "Method not allowed");
+			}
+			return this.listRepositories(url);
+		}
+		if (resource === undefined) {
+			return this.repositoryResource(request, id);
+		}
+
+		const repository = this.repository(id);
+		switch (resource) {
+			case "config":
+				if (method === "POST") {
+					const config = await request.text();
+					repository.config = config;
+					repository.title = configLabel(config) ?? repository.title;
+					return noContent();
+				}
+				return text(repository.config);
+			case "statements":
+				return this.statements(request, repository, repository.store);
+			case "size":
+				return text(
+					String(
+						repository.store.match({
+							graphs: contextsFromParams(url.searchParams),
+						}).length,
+					),
+				);
+			case "contexts":
+				return sparqlJson(
+					["contextID"],
+					repository.store
+						.contexts()
+						.map((context) => ({ contextID: toSparqlTerm(context) })),
+				);
+			case "namespaces":
+				return this.namespaces(request, repository, rest[0]);
+			case "transactions":
+				return this.transaction(request, repository, rest[0]);
+			case "rdf-graphs":
+				return this.graphStore(request, repository, rest[0]);
+			default:
+				throw new HttpError(404, `Not found: ${url.pathname}`);
+		}
+	}
+
+	private repository(id: string): MockRepository {
+		const repository = this.repositories.get(id);
+		if (!repository) {
+			throw new HttpError(404, `Unknown repository: ${id}`);
+		}
+		return repository;
+	}
+
+	private listRepositories(url: URL): Response {
+		return sparqlJson(
+			["uri", "id", "title", "readable", "writable"],
+			[...this.repositories.values()].map((repository) => ({
+				uri: {
+					type: "uri",
+					value: `${url.origin}/repositories/${repository.id}`,
+				},
+				id: literal(repository.id),
+				title: literal(repository.title),
+				readable: literal(true),
+				writable: literal(true),
+			})),
+		);
+	}
+
+	/** Repository creation, deletion, existence checks and SPARQL */
+	private async repositoryResource(
+		request: Request,
+		id: string,
+	): Promise<Response> {
+		switch (request.method) {
+			case "PUT": {
+				const config = await request.text();
+				this.createRepository(id, configLabel(config) ?? id, config);
+				return noContent();
+			}
+			case "DELETE":
+				this.repository(id);
+				this.repositories.delete(id);
+				return noContent();
+			case "HEAD":
+				this.repository(id);
+				return new Response(null, { status: 200 });
+			default: {
+				const repository = this.repository(id);
+				return this.sparql(request, "query", repository, repository.store);
+			}
+		}
+	}
+
+	/** Delegate a SPARQL query or update to the configured handler */
+	private async sparql(
+		request: Request,
+		kind: "query" | "update",
+		repository: MockRepository,
+		store: MemoryQuadStore,
+	): Promise<Response> {
+		const url = new URL(request.url);
+		let sparql = url.searchParams.get(kind) ?? "";
+		if (request.method === "POST") {
+			const body = await request.text();
+			const contentType = mediaType(request.headers.get("content-type") ?? "");
+			sparql =
+				contentType === ContentTypes.FORM
+					? (new URLSearchParams(body).get(kind) ?? "")
+					: body;
+		}
+		if (!this.options.sparql) {
+			throw new HttpError(
+				501,
+				`SPARQL ${kind} evaluation is not supported by the mock server`,
+			);
+		}
+		return this.options.sparql({ kind, sparql, repository, store, request });
+	}
+
+	/** Read the RDF payload of a request into quads */
+	private async readQuads(request: Request): Promise<Quad[]> {
+		const url = new URL(request.url);
+		const contentType = request.headers.get("content-type") ?? "";
+		const quads =
+			mediaType(contentType) === ContentTypes.BINARY_RDF
+				? parseBinaryRdf(new Uint8Array(await request.arrayBuffer()))
+				: parseQuads(await request.text(), contentType, {
+						baseIRI: url.searchParams.get("baseURI") ?? undefined,
+					});
+
+		// Statements are added to each given context instead of their own
+		const contexts = contextsFromParams(url.searchParams);
+		if (contexts.length === 0) {
+			return quads;
+		}
+		return contexts.flatMap((context) =>
+			quads.map(
+				(quad) =>
+					new Quad(
+						quad.subject,
+						quad.predicate,
+						quad.object,
+						context as QuadGraph,
+					),
+			),
+		);
+	}
+
+	/** Serialize quads in the negotiated format */
+	private writeQuads(
+		request: Request,
+		repository: MockRepository,
+		quads: Quad[],
+	): Response {
+		const format = negotiate(request);
+		const body: BodyInit =
+			format === ContentTypes.BINARY_RDF
+				? (serializeBinaryRdf(quads) as Uint8Array<ArrayBuffer>)
+				: serializeQuads(quads, format, {
+						prefixes: Object.fromEntries(repository.namespaces),
+					});
+		return new Response(body, { headers: { "content-type": format } });
+	}
+
+	private async statements(
+		request: Request,
+		repository: MockRepository,
+		store: MemoryQuadStore,
+	): Promise<Response> {
+		const url = new URL(request.url);
+		const contentType = mediaType(request.headers.get("content-type") ?? "");
+		const isUpdate =
+			contentType === ContentTypes.SPARQL_UPDATE ||
+			(contentType === ContentTypes.FORM && request.method === "POST") ||
+			url.searchParams.has("update");
+
+		switch (request.method) {
+			case "GET":
+				return this.writeQuads(
+					request,
+					repository,
+					store.match(patternFromParams(url.searchParams)),
+				);
+			case "POST":
+				if (isUpdate) {
+					return this.sparql(request, "update", repository, store);
+				}
+				if (contentType === ContentTypes.RDF_TRANSACTION) {
+					return this.applyTransaction(request, repository);
+				}
+				for (const quad of await this.readQuads(request)) {
+					store.add(quad);
+				}
+				return noContent();
+			case "PUT": {
+				const quads = await this.readQuads(request);
+				store.deleteMatches({ graphs: contextsFromParams(url.searchParams) });
+				for (const quad of quads) {
+					store.add(quad);
+				}
+				return noContent();
+			}
+			case "DELETE":
+				store.deleteMatches(patternFromParams(url.searchParams));
+				return noContent();
+			default:
+				throw new HttpError(405, "Method not allowed");
+		}
+	}
+
+	/** Apply a transaction document atomically to the repository */
+	private async applyTransaction(
+		request: Request,
+		repository: MockRepository,
+	): Promise<Response> {
+		const store = repository.store.clone();
+		const namespaces = new Map(repository.namespaces);
+		for (const operation of parseTransaction(await request.text())) {
+			switch (operation.type) {
+				case "add":
+					store.add(operation.quad);
+					break;
+				case "remove": {
+					const { subject, predicate, object, contexts } = operation.pattern;
+					store.deleteMatches({ subject, predicate, object, graphs: contexts });
+					break;
+				}
+				case "clear":
+					store.deleteMatches({ graphs: operation.contexts });
+					break;
+				case "setNamespace":
+					namespaces.set(operation.prefix, operation.namespace);
+					break;
+				case "removeNamespace":
+					namespaces.delete(operation.prefix);
+					break;
+				case "clearNamespaces":
+					namespaces.clear();
+					break;
+			}
+		}
+		repository.store = store;
+		repository.namespaces = namespaces;
+		return noContent();
+	}
+
+	private async namespaces(
+		request: Request,
+		repository: MockRepository,
+		prefix: string | undefined,
+	): Promise<Response> {
+		if (prefix === undefined) {
+			if (request.method === "DELETE") {
+				repository.namespaces.clear();
+				return noContent();
+			}
+			return sparqlJson(
+				["prefix", "namespace"],
+				[...repository.namespaces].map(([prefix, namespace]) => ({
+					prefix: literal(prefix),
+					namespace: literal(namespace),
+				})),
+			);
+		}
+
+		switch (request.method) {
+			case "PUT":
+				repository.namespaces.set(prefix, (await request.text()).trim());
+				return noContent();
+			case "DELETE":
+				repository.namespaces.delete(prefix);
+				return noContent();
+			default: {
+				const namespace = repository.namespaces.get(prefix);
+				if (namespace === undefined) {
+					throw new HttpError(404, `Undefined prefix: ${prefix}`);
+				}
+				return text(namespace);
+			}
+		}
+	}
+
+	private async transaction(
+		request: Request,
+		repository: MockRepository,
+		id: string | undefined,
+	): Promise<Response> {
+		const url = new URL(request.url);
+		if (id === undefined) {
+			if (request.method !== "POST") {
+				throw new HttpError(405, "Method not allowed");
+			}
+			const transactionId = crypto.randomUUID();
+			this.transactions.set(transactionId, {
+				repository,
+				store: repository.store.clone(),
+				changes: [],
+			});
+			return new Response(null, {
+				status: 201,
+				headers: {
+					location: `${url.origin}/repositories/${repository.id}/transactions/${transactionId}`,
+				},
+			});
+		}
+
+		const transaction = this.transactions.get(id);
+		if (!transaction || transaction.repository !== repository) {
+			throw new HttpError(404, `Transaction not found: ${id}`);
+		}
+		if (request.method === "DELETE") {
+			this.transactions.delete(id);
+			return noContent();
+		}
+
+		const { store, changes } = transaction;
+		const change = (apply: (store: MemoryQuadStore) => void) => {
+			apply(store);
+			changes.push(apply);
+			return noContent();
+		};
+		const action = url.searchParams.get("action");
+		switch (action) {
+			case "ADD": {
+				const quads = await this.readQuads(request);
+				return change((target) => {
+					for (const quad of quads) {
+						target.add(quad);
+					}
+				});
+			}
+			case "DELETE": {
+				if (request.headers.get("content-type")) {
+					const quads = await this.readQuads(request);
+					return change((target) => {
+						for (const quad of quads) {
+							target.delete(quad);
+						}
+					});
+				}
+				const pattern = patternFromParams(url.searchParams);
+				return change((target) => target.deleteMatches(pattern));
+			}
+			case "GET":
+				return this.writeQuads(
+					request,
+					repository,
+					store.match(patternFromParams(url.searchParams)),
+				);
+			case "SIZE":
+				return text(
+					String(
+						store.match({ graphs: contextsFromParams(url.searchParams) })
+							.length,
+					),
+				);
+			case "QUERY":
+				return this.sparql(request, "query", repository, store);
+			case "UPDATE": {
+				const before = store.clone();
+				const response = await this.sparql(
+					request,
+					"update",
+					repository,
+					store,
+				);
+				// Whatever is left of `before` was removed by the update
+				const added = store.match().filter((quad) => !before.delete(quad));
+				const removed = before.match();
+				changes.push((target) => {
+					for (const quad of removed) {
+						target.delete(quad);
+					}
+					for (const quad of added) {
+						target.add(quad);
+					}
+				});
+				return response;
+			}
+			case "PING":
+				return text("");
+			case "PREPARE":
+				return noContent();
+			case "COMMIT":
+				// Replay onto the live store to keep writes made outside the transaction
+				for (const apply of changes) {
+					apply(repository.store);
+				}
+				this.transactions.delete(id);
+				return noContent();
+			default:
+				throw new HttpError(400, `Unsupported transaction action: ${action}`);
+		}
+	}
+
+	/** SPARQL 1.1 Graph Store protocol, indirect and direct references */
+	private async graphStore(
+		request: Request,
+		repository: MockRepository,
+		name: string | undefined,
+	): Promise<Response> {
+		const url = new URL(request.url);
+		let graph: QuadGraph;
+		if (name === undefined) {
+			throw new HttpError(404, "Missing graph reference");
+		} else if (name !== "service") {
+			graph = new NamedNode(name);
+		} else if (url.searchParams.has("default")) {
+			graph = DefaultGraph.instance;
+		} else {
+			graph = new NamedNode(url.searchParams.get("graph") ?? "");
+		}
+
+		const { store } = repository;
+		const exists =
+			graph.termType === "DefaultGraph" ||
+			store.match({ graphs: [graph] }).length > 0;
+
+		const readIntoGraph = async () =>
+			(await this.readQuads(request)).map(
+				(quad) => new Quad(quad.subject, quad.predicate, quad.object, graph),
+			);
+
+		switch (request.method) {
+			case "GET":
+			case "HEAD": {
+				if (!exists) {
+					throw new HttpError(404, `Graph not found: ${graph.value}`);
+				}
+				const response = this.writeQuads(
+					request,
+					repository,
+					store
+						.match({ graphs: [graph] })
+						.map((quad) => new Quad(quad.subject, quad.predicate, quad.object)),
+				);
+				return request.method === "HEAD"
+					? new Response(null, { headers: response.headers })
+					: response;
+			}
+			case "PUT": {
+				const quads = await readIntoGraph();
+				store.deleteMatches({ graphs: [graph] });
+				for (const quad of quads) {
+					store.add(quad);
+				}
+				return noContent();
+			}
+			case "POST":
+				for (const quad of await readIntoGraph()) {
+					store.add(quad);
+				}
+				return noContent();
+			case "DELETE":
+				if (!exists) {
+					throw new HttpError(404, `Graph not found: ${graph.value}`);
+				}
+				store.deleteMatches({ graphs: [graph] });
+				return noContent();
+			default:
+				throw new HttpError(405, "Method not allowed");
+		}
+	}
+}
@@ -0,0 +1,135 @@
+import { expect, test } from "bun:test";
+import {
+	NQuadsParser,
+	parseNQuads,
+	parseNTriples,
+	serializeNQuads,
+	serializeNQuadsStream,
+	serializeNTriples,
+} from "./ntriples.ts";
+import { dataFactory, Namespaces } from "./terms.ts";
+import { RDFParseError } from "./types.ts";
+
+const { namedNode, blankNode, literal, quad } = dataFactory;
+
+test("parseNQuads parses all term kinds", () => {
+	const quads = parseNQuads(
+		[
+			"# comment",
+			"<http://ex/s> <http://ex/p> <http://ex/o> .",
+			'_:b1 <http://ex/p> "chat"@fr <http://ex/g> .',
+			'<http://ex/s> <http://ex/p> "1"^^<http://www.w3.org/2001/XMLSchema#integer> _:g . # trailing',
+			"",
+		].join("\n"),
+	);
+
+	expect(quads).toHaveLength(3);
+	expect(
+		quads[0]?.equals(
+			quad(
+				namedNode("http://ex/s"),
+				namedNode("http://ex/p"),
+				namedNode("http://ex/o"),
+			),
+		),
+	).toBe(true);
+	expect(quads[1]?.subject.equals(blankNode("b1"))).toBe(true);
+	expect(quads[1]?.object.equals(literal("chat", "fr"))).toBe(true);
+	expect(quads[1]?.graph.equals(namedNode("http://ex/g"))).toBe(true);
+	expect(
+		quads[2]?.object.equals(
+			literal("1", namedNode(`${Namespaces.XSD}integer`)),
+		),
+	).toBe(true);
+	expect(quads[2]?.graph.termType).toBe("BlankNode");
+});
+
+test("parser decodes string and unicode escapes", () => {
+	const [parsed] = parseNTriples(
+		'<http://ex/\\u00E9> <http://ex/p> "a\\tb\\"c\\U0001F600\\\\" .',
+	);
+	expect(parsed?.subject.value).toBe("http://ex/é");
+	expect(parsed?.object.value).toBe('a\tb"c😀\\');
+});
+
+test("parser rejects invalid input with position", () => {
+	expect(() => parseNTriples("<http://ex/s> <http://ex/p> <rel> .")).toThrow(
+		RDFParseError,
+	);
+	expect(() =>
+		parseNTriples("<http://ex/s> <http://ex/p> <http://ex/o> <http://ex/g> ."),
+	).toThrow(RDFParseError);
+	expect(() =>
+		parseNQuads("<http://ex/s> <http://ex/p> <http://ex/o>"),
+	).toThrow(RDFParseError);
+
+	try {
+		parseNQuads('\n<http://ex/s> <http://ex/p> "open .');
+	} catch (e) {
+		const error = e as RDFParseError;
+		expect(error.line).toBe(2);
+		expect(error.message).toContain("Unterminated string literal");
+	}
+});
+
+test("serializer round-trips through the parser", () => {
+	const quads = [
+		quad(
+			namedNode("http://ex/s"),
+			namedNode("http://ex/p"),
+			literal('x "y"\n'),
+		),
+		quad(
+			blankNode("b0"),
+			namedNode("http://ex/p"),
+			literal("hi", "en"),
+			namedNode("http://ex/g"),
+		),
+	];
+
+	const nquads = serializeNQuads(quads);
+	const parsed = parseNQuads(nquads);
+	expect(parsed).toHaveLength(2);
+	expect(parsed.every((q, i) => q.equals(quads[i]))).toBe(true);
+
+	expect(serializeNTriples(quads)).toBe(
+		'<http://ex/s> <http://ex/p> "x \\"y\\"\\n" .\n_:b0 <http://ex/p> "hi"@en .\n',
+	);
+});
+
+test("parseStream handles chunks split mid-line and CRLF", async () => {
+	const text =
+		'<http://ex/s> <http://ex/p> "é" .\r\n<http://ex/s> <http://ex/p> <http://ex/o> .';
+	const bytes = new TextEncoder().encode(text);
+	const stream = new ReadableStream<Uint8Array>({
+		start(controller) {
+			// Split inside the multi-byte "é"
+			controller.enqueue(bytes.slice(0, 30));
+			controller.enqueue(bytes.slice(30, 40));
+			controller.enqueue(bytes.slice(40));
+			controller.close();
+		},
+	});
+
+	const quads = [];
+	for await (const q of new NQuadsParser().parseStream(stream)) {
+		quads.push(q);
+	}
+	expect(quads).toHaveLength(2);
+	expect(quads[0]?.object.value).toBe("é");
+});
+
+test("serializeNQuadsStream yields one line per quad", async () => {
+	async function* source() {
+		yield quad(
+			namedNode("http://ex/s"),
+			namedNode("http://ex/p"),
+			literal("o"),
+		);
+	}
+	const lines = [];
+	for await (const line of serializeNQuadsStream(source())) {
+		lines.push(line);
+	}
+	expect(lines).toEqual(['<http://ex/s> <http://ex/p> "o" .\n']);
+});
@@ -0,0 +1,393 @@
+import {
+	type BlankNode,
+	type DataFactory,
+	dataFactory,
+	type Literal,
+	type NamedNode,
+	type Quad,
+	type QuadGraph,
+	type QuadObject,
+	type QuadSubject,
+	type Term,
+	termToString,
+} from "./terms.ts";
+import { RDFParseError } from "./types.ts";
+
+/** Options for the N-Triples / N-Quads parser */
+export interface NQuadsParserOptions {
+	/** Reject graph labels when parsing N-Triples (default: "n-quads") */
+	format?: "n-triples" | "n-quads";
+	/** Factory used to create terms (default: built-in data factory) */
+	factory?: DataFactory;
+}
+
+/** Chunk sources accepted by the streaming parser */
+export type TextSource =
+	| ReadableStream<Uint8Array>
+	| AsyncIterable<string | Uint8Array>
+	| Iterable<string>;
+
+const ABSOLUTE_IRI = /^[A-Za-z][A-Za-z0-9+.-]*:/;
+// biome-ignore lint/suspicious/noControlCharactersInRegex: control characters are not allowed in IRIs
+const INVALID_IRI_CHAR = /[\u0000- <>"{}|^`\\]/;
+const BLANK_NODE_LABEL =
+	/^[\p{L}_:0-9](?:[\p{L}\p{N}_:\-.\u00B7\p{M}\u203F-\u2040]*[\p{L}\p{N}_:\-\u00B7\p{M}\u203F-\u2040])?/u;
+const LANGUAGE_TAG = /^[a-zA-Z]+(?:-[a-zA-Z0-9]+)*/;
+const ECHAR: Record<string, string> = {
+	t: "\t",
+	b: "\b",
+	n: "\n",
+	r: "\r",
+	f: "\f",
+	'"': '"',
+	"'": "'",
+	"\\": "\\",
+};
+
+/** Line-based, spec-compliant N-Triples and N-Quads parser */
+export class NQuadsParser {
+	private readonly factory: DataFactory;
+	private readonly allowGraph: boolean;
+
+	private line = "";
+	private pos = 0;
+	private lineNumber = 0;
+
+	constructor(options: NQuadsParserOptions = {}) {
+		this.factory = options.factory ?? dataFactory;
+		this.allowGraph = options.format !== "n-triples";
+	}
+
+	/** Parse a complete document */
+	parse(text: string): Quad[] {
+		const quads: Quad[] = [];
+		let lineNumber = 0;
+		for (const line of text.split(/\r\n|\r|\n/)) {
+			const quad = this.parseLine(line, ++lineNumber);
+			if (quad) {
+				quads.push(quad);
+			}
+		}
+		return quads;
+	}
+
+	/** Parse a document incrementally, yielding quads as lines complete */
+	async *parseStream(source: TextSource): AsyncGenerator<Quad> {
+		const decoder = new TextDecoder();
+		let buffer = "";
+		let lineNumber = 0;
+
+		for await (const chunk of readChunks(source)) {
+			buffer +=
+				typeof chunk === "string"
+					? chunk
+					: decoder.decode(chunk, { stream: true });
+
+			let eol = buffer.search(/[\r\n]/);
+			while (eol !== -1) {
+				const quad = this.parseLine(buffer.slice(0, eol), ++lineNumber);
+				if (quad) {
+					yield quad;
+				}
+				// Treat CRLF as a single line break
+				const skip = buffer[eol] === "\r" && buffer[eol + 1] === "\n" ? 2 : 1;
+				buffer = buffer.slice(eol + skip);
+				eol = buffer.search(/[\r\n]/);
+			}
+		}
+
+		buffer += decoder.decode();
+		const quad = this.parseLine(buffer, ++lineNumber);
+		if (quad) {
+			yield quad;
+		}
+	}
+
+	/** Parse a single line, returning null for blank and comment lines */
+	parseLine(line: string, lineNumber = 1): Quad | null {
+		this.line = line;
+		this.pos = 0;
+		this.lineNumber = lineNumber;
+
+		this.skipWhitespace();
+		if (this.atEndOfStatement()) {
+			return null;
+		}
+
+		const subject = this.readSubject();
+		this.skipWhitespace();
+		const predicate = this.readIri();
+		this.skipWhitespace();
+		const object = this.readObject();
+		this.skipWhitespace();
+
+		let graph: QuadGraph | undefined;
+		if (this.peek() !== ".") {
+			if (!this.allowGraph) {
+				throw this.error("Expected '.'");
+			}
+			graph = this.peek() === "_" ? this.readBlankNode() : this.readIri();
+			this.skipWhitespace();
+		}
+
+		this.expect(".");
+		this.skipWhitespace();
+		if (!this.atEndOfStatement()) {
+			throw this.error("Unexpected content after '.'");
+		}
+
+		return this.factory.quad(subject, predicate, object, graph);
+	}
+
+	private readSubject(): QuadSubject {
+		switch (this.peek()) {
+			case "<":
+				return this.peek(1) === "<" ? this.readQuotedTriple() : this.readIri();
+			case "_":
+				return this.readBlankNode();
+			default:
+				throw this.error("Expected IRI or blank node as subject");
+		}
+	}
+
+	private readObject(): QuadObject {
+		switch (this.peek()) {
+			case "<":
+				return this.peek(1) === "<" ? this.readQuotedTriple() : this.readIri();
+			case "_":
+				return this.readBlankNode();
+			case '"':
+				return this.readLiteral();
+			default:
+				throw this.error("Expected IRI, blank node or literal as object");
+		}
+	}
+
+	private readQuotedTriple(): Quad {
+		this.expect("<<");
+		this.skipWhitespace();
+		const subject = this.readSubject();
+		this.skipWhitespace();
+		const predicate = this.readIri();
+		this.skipWhitespace();
+		const object = this.readObject();
+		this.skipWhitespace();
+		this.expect(">>");
+		return this.factory.quad(subject, predicate, object);
+	}
+
+	private readIri(): NamedNode {
+		this.expect("<");
+		let value = "";
+		for (;;) {
+			const char = this.line[this.pos];
+			if (char === undefined) {
+				throw this.error("Unterminated IRI");
+			}
+			this.pos++;
+			if (char === ">") {
+				break;
+			}
+			if (char === "\\") {
+				const escaped = this.readUnicodeEscape();
+				if (INVALID_IRI_CHAR.test(escaped)) {
+					throw this.error("Invalid character in IRI");
+				}
+				value += escaped;
+			} else if (INVALID_IRI_CHAR.test(char)) {
+				throw this.error(`Invalid character ${JSON.stringify(char)} in IRI`);
+			} else {
+				value += char;
+			}
+		}
+		if (!ABSOLUTE_IRI.test(value)) {
+			throw this.error(`Relative IRI <${value}> is not allowed`);
+		}
+		return this.factory.namedNode(value);
+	}
+
+	private readBlankNode(): BlankNode {
+		this.expect("_:");
+		const match = BLANK_NODE_LABEL.exec(this.line.slice(this.pos));
+		if (!match) {
+			throw this.error("Invalid blank node label");
+		}
+		this.pos += match[0].length;
+		return this.factory.blankNode(match[0]);
+	}
+
+	private readLiteral(): Literal {
+		this.expect('"');
+		let value = "";
+		for (;;) {
+			const char = this.line[this.pos];
+			if (char === undefined) {
+				throw this.error("Unterminated string literal");
+			}
+			this.pos++;
+			if (char === '"') {
+				break;
+			}
+			if (char === "\\") {
+				const next = this.line[this.pos];
+				const escaped = next === undefined ? undefined : ECHAR[next];
+				if (escaped !== undefined) {
+					this.pos++;
+					value += escaped;
+				} else {
+					value += this.readUnicodeEscape();
+				}
+			} else {
+				value += char;
+			}
+		}
+
+		if (this.peek() === "@") {
+			this.pos++;
+			const match = LANGUAGE_TAG.exec(this.line.slice(this.pos));
+			if (!match) {
+				throw this.error("Invalid language tag");
+			}
+			this.pos += match[0].length;
+			return this.factory.literal(value, match[0]);
+		}
+
+		if (this.peek() === "^") {
+			this.expect("^^");
+			return this.factory.literal(value, this.readIri());
+		}
+
+		return this.factory.literal(value);
+	}
+
+	/** Read a \uXXXX or \UXXXXXXXX escape (the backslash is already consumed) */
+	private readUnicodeEscape(): string {
+		const kind = this.line[this.pos];
+		const length = kind === "u" ? 4 : kind === "U" ? 8 : 0;
+		const hex = this.line.slice(this.pos + 1, this.pos + 1 + length);
+		if (!length || !/^[0-9A-Fa-f]+$/.test(hex) || hex.length !== length) {
+			throw this.error("Invalid escape sequence");
+		}
+		this.pos += 1 + length;
+		const codePoint = Number.parseInt(hex, 16);
+		if (codePoint > 0x10ffff) {
+			throw this.error("Invalid code point in escape sequence");
+		}
+		return String.fromCodePoint(codePoint);
+	}
+
+	private peek(offset = 0): string | undefined {
+		return this.line[this.pos + offset];
+	}
+
+	private expect(token: string): void {
+		if (!this.line.startsWith(token, this.pos)) {
+			throw this.error(`Expected '${token}'`);
+		}
+		this.pos += token.length;
+	}
+
+	private skipWhitespace(): void {
+		while (this.peek() === " " || this.peek() === "\t") {
+			this.pos++;
+		}
+	}
+
+	private atEndOfStatement(): boolean {
+		return this.pos >= this.line.length || this.peek() === "#";
+	}
+
+	private error(message: string): RDFParseError {
+		return new RDFParseError(message, this.lineNumber, this.pos + 1);
+	}
+}
+
+/** Normalize the supported chunk sources into an async iterable */
+export async function* readChunks(
+	source: TextSource,
+): AsyncGenerator<string | Uint8Array> {
+	if (source instanceof ReadableStream) {
+		const reader = source.getReader();
+		try {
+			for (;;) {
+				const { done, value } = await reader.read();
+				if (done) {
+					return;
+				}
+				yield value;
+			}
+		} finally {
+			reader.releaseLock();
+		}
+	} else {
+		yield* source;
+	}
+}
+
+/** Parse an N-Quads document */
+export function parseNQuads(text: string, factory?: DataFactory): Quad[] {
+	return new NQuadsParser({ factory }).parse(text);
+}
+
+/** Parse an N-Triples document */
+export function parseNTriples(text: string, factory?: DataFactory): Quad[] {
+	return new NQuadsParser({ format: "n-triples", factory }).parse(text);
+}
+
+/** Parse a single N-Triples encoded term, such as `<iri>` or `"text"@en` */
+export function parseNTriplesTerm(text: string): Term {
+	const placeholder = "<urn:x-term:placeholder>";
+	let quads: Quad[] = [];
+	try {
+		quads = parseNTriples(`${placeholder} ${placeholder} ${text} .`);
+	} catch {
+		// Reported below
+	}
+	const [quad] = quads;
+	if (quads.length !== 1 || !quad) {
+		throw new RDFParseError(`Invalid N-Triples term: ${text}`);
+	}
+	return quad.object;
+}
+
+/** Serialize a quad as a single N-Quads statement (without line break) */
+export function quadToString(quad: Quad, includeGraph = true): string {
+	const terms = [
+		termToString(quad.subject),
+		termToString(quad.predicate),
+		termToString(quad.object),
+	];
+	if (includeGraph && quad.graph.termType !== "DefaultGraph") {
+		terms.push(termToString(quad.graph));
+	}
+	return `${terms.join(" ")} .`;
+}
+
+/** Serialize quads as an N-Quads document */
+export function serializeNQuads(quads: Iterable<Quad>): string {
+	let result = "";
+	for (const quad of quads) {
+		result += `${quadToString(quad)}\n`;
+	}
+	return result;
+}
+
+/** Serialize quads as an N-Triples document, dropping graph labels */
+export function serializeNTriples(quads: Iterable<Quad>): string {
+	let result = "";
+	for (const quad of quads) {
+		result += `${quadToString(quad, false)}\n`;
+	}
+	return result;
+}
+
+/** Serialize quads incrementally, yielding one N-Quads line per quad */
+export async function* serializeNQuadsStream(
+	quads: AsyncIterable<Quad> | Iterable<Quad>,
+	options: { format?: "n-triples" | "n-quads" } = {},
+): AsyncGenerator<string> {
+	const includeGraph = options.format !== "n-triples";
+	for await (const quad of quads) {
+		yield `${quadToString(quad, includeGraph)}\n`;
+	}
+}
@@ -0,0 +1,250 @@
+import { expect, test } from "bun:test";
+import { RDF4JClient } from "./client.ts";
+import { MockRDF4JServer } from "./mock-server.ts";
+import { pageQuery, paginateByKey, paginateByOffset } from "./pagination.ts";
+import { dataFactory as df, type SparqlTerm } from "./terms.ts";
+import { ContentTypes, RDFParseError } from "./types.ts";
+
+const ex = (name: string) => df.namedNode(`http://example.org/${name}`);
+
+async function collect<T>(rows: AsyncIterable<T>): Promise<T[]> {
+	const result: T[] = [];
+	for await (const row of rows) {
+		result.push(row);
+	}
+	return result;
+}
+
+const numbers = Array.from({ length: 25 }, (_, i) => i);
+
+test("paginateByOffset stops at a short page and honours maxRows", async () => {
+	const requests: Array<[number, number]> = [];
+	const fetchPage = async (offset: number, limit: number) => {
+		requests.push([offset, limit]);
+		return numbers.slice(offset, offset + limit);
+	};
+
+	expect(await collect(paginateByOffset(fetchPage, { pageSize: 10 }))).toEqual(
+		numbers,
+	);
+	expect(requests).toEqual([
+		[0, 10],
+		[10, 10],
+		[20, 10],
+	]);
+
+	requests.length = 0;
+	expect(
+		await collect(paginateByOffset(fetchPage, { pageSize: 10, maxRows: 15 })),
+	).toEqual(numbers.slice(0, 15));
+	expect(requests).toEqual([
+		[0, 10],
+		[10, 5],
+	]);
+});
+
+test("paginateByOffset prefetches pages ahead of the consumer", async () => {
+	const requested: number[] = [];
+	const rows = paginateByOffset(
+		async (offset, limit) => {
+			requested.push(offset);
+			return numbers.slice(offset, offset + limit);
+		},
+		{ pageSize: 5, prefetch: 2 },
+	);
+
+	expect((await rows.next()).value).toBe(0);
+	expect(requested).toEqual([0, 5, 10]);
+	await rows.return();
+});
+
+test("paginateByKey requests rows after the last key", async () => {
+	const afters: Array<string | undefined> = [];
+	const rows = await collect(
+		paginateByKey(
+			async (after, limit) => {
+				afters.push(after?.value);
+				const start = after ? Number(after.value) + 1 : 0;
+				return numbers.slice(start, start + limit);
+			},
+			(row): SparqlTerm => ({ type: "literal", value: String(row) }),
+			{ pageSize: 10 },
+		),
+	);
+
+	expect(rows).toEqual(numbers);
+	expect(afters).toEqual([undefined, "9", "19"]);
+});
+
+test("pageQuery appends LIMIT and OFFSET to offset pages", () => {
+	const query =
+		"PREFIX ex: <http://example.org/>\nSELECT ?s WHERE { ?s ex:p ?o } ORDER BY DESC(?o)";
+
+	expect(pageQuery(query, { limit: 10, offset: 20 }).text).toBe(
+		`${query}\nLIMIT 10\nOFFSET 20`,
+	);
+	expect(pageQuery(`${query}\n`, { limit: 10 }).text).toBe(
+		`${query}\nLIMIT 10`,
+	);
+	expect(
+		pageQuery("SELECT ?s WHERE { ?s ?p ?o } LIMIT 25 OFFSET 5", {
+			limit: 10,
+			offset: 20,
+		}).text,
+	).toBe("SELECT ?s WHERE { ?s ?p ?o }\nLIMIT 5\nOFFSET 25");
+	expect(
+		pageQuery("SELECT ?s WHERE { ?s ?p ?o } OFFSET 5 LIMIT 8", {
+			limit: 10,
+			offset: 10,
+		}).text,
+	).toBe("SELECT ?s WHERE { ?s ?p ?o }\nLIMIT 0\nOFFSET 15");
+	expect(
+		pageQuery("SELECT ?s WHERE { ?s ?p ?o } ORDER BY ?s VALUES ?s { <a> }", {
+			limit: 10,
+			offset: 10,
+		}).text,
+	).toBe(
+		"SELECT ?s WHERE { ?s ?p ?o } ORDER BY ?s\nLIMIT 10\nOFFSET 10\nVALUES ?s { <a> }",
+	);
+});
+
+test("pageQuery wraps keyset pages as a subquery", () => {
+	const query =
+		"PREFIX ex: <http://example.org/>\nSELECT ?s WHERE { ?s ex:p ?o }";
+
+	expect(pageQuery(query, { limit: 10, key: "s" }).text).toBe(
+		[
+			"PREFIX ex: <http://example.org/>",
+			"SELECT * WHERE {",
+			"\t{",
+			"SELECT ?s WHERE { ?s ex:p ?o }",
+			"\t}",
+			"}",
+			"ORDER BY ?s",
+			"LIMIT 10",
+		].join("\n"),
+	);
+	expect(
+		pageQuery(query, {
+			limit: 10,
+			key: "s",
+			after: { type: "uri", value: "http://example.org/a" },
+		}).text,
+	).toContain('\tFILTER(STR(?s) > "http://example.org/a")\n}\nORDER BY ?s\n');
+});
+
+test("RepositoryClient.paginateStatements yields quads page by page", async () => {
+	const queries: string[] = [];
+	const subjects = ["a", "b", "c"];
+	const server = new MockRDF4JServer({
+		repositories: ["test"],
+		sparql: ({ sparql }) => {
+			queries.push(sparql);
+			const limit = Number(/LIMIT (\d+)/.exec(sparql)?.[1]);
+			const offset = Number(/OFFSET (\d+)/.exec(sparql)?.[1] ?? 0);
+			return Response.json(
+				{
+					head: { vars: ["s", "p", "o", "g"] },
+					results: {
+						bindings: subjects.slice(offset, offset + limit).map((name) => ({
+							s: { type: "uri", value: ex(name).value },
+							p: { type: "uri", value: ex("p").value },
+							o: { type: "literal", value: name },
+							g: { type: "uri", value: ex("g").value },
+						})),
+					},
+				},
+				{ headers: { "content-type": ContentTypes.SPARQL_RESULTS_JSON } },
+			);
+		},
+	});
+	const repo = new RDF4JClient({
+		baseUrl: "http://mock",
+		fetch: server.fetch,
+	}).repository("test");
+
+	const quads = await collect(
+		repo.paginateStatements({
+			pred: ex("p"),
+			context: ex("g"),
+			pageSize: 2,
+		}),
+	);
+
+	expect(quads).toHaveLength(3);
+	expect(
+		quads[2]?.equals(df.quad(ex("c"), ex("p"), df.literal("c"), ex("g"))),
+	).toBe(true);
+	expect(queries).toHaveLength(2);
+	expect(queries[0]).toContain("VALUES (?p) { (<http://example.org/p>) }");
+	expect(queries[0]).toContain("GRAPH ?g {");
+	expect(queries[0]).toContain("ORDER BY ?s ?p ?o ?g");
+});
+
+test("RepositoryClient.paginateStatements reads the default graph context", async () => {
+	const queries: string[] = [];
+	const server = new MockRDF4JServer({
+		repositories: ["test"],
+		sparql: ({ sparql }) => {
+			queries.push(sparql);
+			return Response.json(
+				{ head: { vars: ["s", "p", "o", "g"] }, results: { bindings: [] } },
+				{ headers: { "content-type": ContentTypes.SPARQL_RESULTS_JSON } },
+			);
+		},
+	});
+	const repo = new RDF4JClient({
+		baseUrl: "http://mock",
+		fetch: server.fetch,
+	}).repository("test");
+
+	await collect(repo.paginateStatements({ context: "null" }));
+	await collect(
+		repo.paginateStatements({ context: [df.defaultGraph(), ex("g")] }),
+	);
+
+	const inDefaultGraph = "FILTER NOT EXISTS { GRAPH ?g { ?s ?p ?o } }";
+	expect(queries[0]).toContain(inDefaultGraph);
+	expect(queries[0]).not.toContain("null");
+	expect(queries[1]).toContain("VALUES (?g) { (<http://example.org/g>) }");
+	expect(queries[1]).toContain("} UNION {");
+	expect(queries[1]).toContain(inDefaultGraph);
+});
+
+test("RepositoryClient.paginateStatements parses N-Triples filters", async () => {
+	const queries: string[] = [];
+	const server = new MockRDF4JServer({
+		repositories: ["test"],
+		sparql: ({ sparql }) => {
+			queries.push(sparql);
+			return Response.json(
+				{ head: { vars: ["s", "p", "o", "g"] }, results: { bindings: [] } },
+				{ headers: { "content-type": ContentTypes.SPARQL_RESULTS_JSON } },
+			);
+		},
+	});
+	const repo = new RDF4JClient({
+		baseUrl: "http://mock",
+		fetch: server.fetch,
+	}).repository("test");
+
+	await collect(
+		repo.paginateStatements({
+			subj: "<http://example.org/a>",
+			obj: '"a \\"quoted\\" value"@en',
+		}),
+	);
+	expect(queries[0]).toContain(
+		'VALUES (?s ?o) { (<http://example.org/a> "a \\"quoted\\" value"@en) }',
+	);
+
+	for (const subj of ["<a> } ; DROP ALL #", "null", "http://example.org/a"]) {
+		await expect(collect(repo.paginateStatements({ subj }))).rejects.toThrow(
+			RDFParseError,
+		);
+	}
+	await expect(
+		collect(repo.paginateStatements({ subj: "<http://ex/a\\u003E>" })),
+	).rejects.toThrow();
+	expect(queries).toHaveLength(1);
+});
@@ -0,0 +1,185 @@
+import { splitPrologue } from "./query-form.ts";
+import {
+	encodeSparqlValue,
+	PreparedQuery,
+	queryText,
+	type SparqlQuery,
+} from "./sparql-template.ts";
+import { fromSparqlTerm, type SparqlTerm, Variable } from "./terms.ts";
+
+/** Options for iterating over a result set page by page */
+export interface PaginationOptions {
+	/** Rows requested per page (default: 1000) */
+	pageSize?: number;
+	/** Stop after this many rows */
+	maxRows?: number;
+	/**
+	 * Pages to request ahead of the consumer (default: 0). Ignored with
+	 * keyset pagination, where each page depends on the previous one.
+	 */
+	prefetch?: number;
+	/**
+	 * Variable holding a unique sort key. When set, pages are requested with
+	 * `FILTER(?key > last)` and `ORDER BY ?key` (keyset pagination) instead
+	 * of `OFFSET`, which stays fast deep into large result sets.
+	 */
+	orderBy?: string;
+}
+
+/** Fetches `limit` rows starting at `offset` */
+export type OffsetPageFetcher<T> = (
+	offset: number,
+	limit: number,
+) => Promise<T[]>;
+
+/** Fetches `limit` rows following the row whose key is `after` */
+export type KeysetPageFetcher<T> = (
+	after: SparqlTerm | undefined,
+	limit: number,
+) => Promise<T[]>;
+
+function pageSize(options: PaginationOptions): number {
+	const size = options.pageSize ?? 1000;
+	if (!Number.isSafeInteger(size) || size <= 0) {
+		throw new RangeError(`Invalid page size: ${size}`);
+	}
+	return size;
+}
+
+/**
+ * Iterate over rows fetched with successive offsets, keeping up to
+ * `prefetch` further pages in flight. Iteration ends at the first page
+ * shorter than requested or after `maxRows` rows.
+ */
+export async function* paginateByOffset<T>(
+	fetchPage: OffsetPageFetcher<T>,
+	options: PaginationOptions = {},
+): AsyncGenerator<T, void, undefined> {
+	const size = pageSize(options);
+	const maxRows = options.maxRows ?? Number.POSITIVE_INFINITY;
+	const prefetch = options.prefetch ?? 0;
+	const pending: Array<{ rows: Promise<T[]>; limit: number }> = [];
+	let offset = 0;
+
+	while (true) {
+		while (pending.length <= prefetch && offset < maxRows) {
+			const limit = Math.min(size, maxRows - offset);
+			const rows = fetchPage(offset, limit);
+			// Failures of prefetched pages surface when the page is reached
+			rows.catch(() => undefined);
+			pending.push({ rows, limit });
+			offset += limit;
+		}
+
+		const page = pending.shift();
+		if (!page) {
+			return;
+		}
+		const rows = await page.rows;
+		yield* rows;
+		if (rows.length < page.limit) {
+			return;
+		}
+	}
+}
+
+/**
+ * Iterate over rows fetched after the key of the last row of the previous
+ * page. Iteration ends at the first page shorter than requested or after
+ * `maxRows` rows.
+ */
+export async function* paginateByKey<T>(
+	fetchPage: KeysetPageFetcher<T>,
+	keyOf: (row: T) => SparqlTerm | undefined,
+	options: PaginationOptions = {},
+): AsyncGenerator<T, void, undefined> {
+	const size = pageSize(options);
+	const maxRows = options.maxRows ?? Number.POSITIVE_INFINITY;
+	let after: SparqlTerm | undefined;
+	let count = 0;
+
+	while (count < maxRows) {
+		const limit = Math.min(size, maxRows - count);
+		const rows = await fetchPage(after, limit);
+		yield* rows;
+		count += rows.length;
+		const last = rows.at(-1);
+		if (rows.length < limit || last === undefined) {
+			return;
+		}
+		after = keyOf(last);
+		if (after === undefined) {
+			throw new TypeError("Sort key is unbound in the last row of a page");
+		}
+	}
+}
+
+/** A trailing `VALUES` block, which has to stay after `LIMIT` and `OFFSET` */
+const TRAILING_VALUES = /\s*\bVALUES\s*(?:\?\w+|\([^()]*\))\s*\{[^{}]*\}\s*$/i;
+
+/** The query's own `LIMIT` and `OFFSET`, in either order */
+const TRAILING_SLICE =
+	/\s*\b(?:LIMIT\s+(\d+)(?:\s+OFFSET\s+(\d+))?|OFFSET\s+(\d+)(?:\s+LIMIT\s+(\d+))?)\s*$/i;
+
+/**
+ * Append `LIMIT` and `OFFSET` to a query, narrowing the query's own slice
+ * if it has one
+ */
+function sliceQuery(query: SparqlQuery, limit: number, offset = 0): string {
+	const text = queryText(query).trimEnd();
+	const values = TRAILING_VALUES.exec(text);
+	let head = values ? text.slice(0, values.index) : text;
+	let start = offset;
+	let count = limit;
+	const slice = TRAILING_SLICE.exec(head);
+	if (slice) {
+		head = head.slice(0, slice.index);
+		start += Number(slice[2] ?? slice[3] ?? 0);
+		const own = slice[1] ?? slice[4];
+		if (own !== undefined) {
+			count = Math.max(0, Math.min(limit, Number(own) - offset));
+		}
+	}
+	const lines = [head, `LIMIT ${count}`];
+	if (start) {
+		lines.push(`OFFSET ${start}`);
+	}
+	if (values) {
+		lines.push(values[0].trim());
+	}
+	return lines.join("\n");
+}
+
+/**
+ * Restrict a SELECT query to a single page. Offset pages append `LIMIT` and
+ * `OFFSET` to the query itself, so its `ORDER BY` still applies. Keyset
+ * pages wrap the query as a subquery sorted by the key; prefixes stay in
+ * front of the wrapped query.
+ */
+export function pageQuery(
+	query: SparqlQuery,
+	page: { limit: number; offset?: number; key?: string; after?: SparqlTerm },
+): PreparedQuery {
+	if (page.key === undefined) {
+		return new PreparedQuery(sliceQuery(query, page.limit, page.offset));
+	}
+	const { prologue, body } = splitPrologue(query);
+	const lines = [`${prologue}SELECT * WHERE {`, "\t{", body, "\t}"];
+	const key = encodeSparqlValue(new Variable(page.key));
+	if (page.after?.type === "bnode") {
+		throw new TypeError("Blank nodes cannot be used as sort keys");
+	}
+	if (page.after !== undefined) {
+		// IRIs cannot be compared with `>`, but sort by their string form
+		lines.push(
+			page.after.type === "uri"
+				? `\tFILTER(STR(${key}) > ${encodeSparqlValue(page.after.value)})`
+				: `\tFILTER(${key} > ${encodeSparqlValue(fromSparqlTerm(page.after))})`,
+		);
+	}
+	lines.push("}", `ORDER BY ${key}`, `LIMIT ${page.limit}`);
+	if (page.offset) {
+		lines.push(`OFFSET ${page.offset}`);
+	}
+	return new PreparedQuery(lines.join("\n"));
+}
@@ -0,0 +1,198 @@
+import { expect, test } from "bun:test";
+import {
+	alias,
+	ask,
+	construct,
+	deleteWhere,
+	insert,
+	remove,
+	type SelectBuilder,
+	select,
+	variable,
+} from "./query-builder.ts";
+import { iri, PreparedQuery, sparql } from "./sparql-template.ts";
+
+const s = variable("s");
+const name = variable("name");
+const age = variable("age");
+const FOAF_NAME = iri("http://xmlns.com/foaf/0.1/name");
+
+test("select builds a query with solution modifiers", () => {
+	const query = select("s", "name")
+		.distinct()
+		.prefix("foaf", "http://xmlns.com/foaf/0.1/")
+		.where([s, sparql`foaf:name`, name])
+		.optional([s, sparql`foaf:age`, age])
+		.filter(sparql`LANG(${name}) = ${"en"}`)
+		.orderBy("name")
+		.orderBy("s", "desc")
+		.limit(10)
+		.offset(20);
+
+	expect(query).toBeInstanceOf(PreparedQuery);
+	expect(query.variables).toEqual(["s", "name"]);
+	expect(query.text).toBe(
+		[
+			"PREFIX foaf: <http://xmlns.com/foaf/0.1/>",
+			"SELECT DISTINCT ?s ?name",
+			"WHERE {",
+			"\t?s foaf:name ?name .",
+			"\tOPTIONAL {",
+			"\t\t?s foaf:age ?age .",
+			"\t}",
+			'\tFILTER(LANG(?name) = "en")',
+			"}",
+			"ORDER BY ?name DESC(?s)",
+			"LIMIT 10",
+			"OFFSET 20",
+		].join("\n"),
+	);
+});
+
+test("select projects aggregates and groups", () => {
+	const query = select("name", alias(sparql`COUNT(${s})`, "count"))
+		.where([s, FOAF_NAME, name])
+		.groupBy("name")
+		.having(sparql`COUNT(${s}) > ${1}`)
+		.orderBy(sparql`COUNT(${s})`, "desc");
+
+	const typed: SelectBuilder<"name" | "count"> = query;
+	expect(typed.variables).toEqual(["name", "count"]);
+	expect(query.text).toBe(
+		[
+			"SELECT ?name (COUNT(?s) AS ?count)",
+			"WHERE {",
+			"\t?s <http://xmlns.com/foaf/0.1/name> ?name .",
+			"}",
+			"GROUP BY ?name",
+			"HAVING (COUNT(?s) > 1)",
+			"ORDER BY DESC(COUNT(?s))",
+		].join("\n"),
+	);
+});
+
+test("select supports union, graph, values and subqueries", () => {
+	const inner = select("s").where([s, FOAF_NAME, name]).limit(5);
+	const query = select()
+		.union([[s, FOAF_NAME, "Alice"]], [[s, FOAF_NAME, "Bob"]])
+		.graph(iri("http://example.org/g"), [s, FOAF_NAME, name])
+		.values([{ name: "Alice" }, { name: "Bob" }])
+		.where(inner);
+
+	expect(query.text).toBe(
+		[
+			"SELECT *",
+			"WHERE {",
+			"\t{",
+			'\t\t?s <http://xmlns.com/foaf/0.1/name> "Alice" .',
+			"\t} UNION {",
+			'\t\t?s <http://xmlns.com/foaf/0.1/name> "Bob" .',
+			"\t}",
+			"\tGRAPH <http://example.org/g> {",
+			"\t\t?s <http://xmlns.com/foaf/0.1/name> ?name .",
+			"\t}",
+			'\tVALUES (?name) { ("Alice") ("Bob") }',
+			"\t{",
+			"\t\tSELECT ?s",
+			"\t\tWHERE {",
+			"\t\t\t?s <http://xmlns.com/foaf/0.1/name> ?name .",
+			"\t\t}",
+			"\t\tLIMIT 5",
+			"\t}",
+			"}",
+		].join("\n"),
+	);
+});
+
+test("subquery prefixes move to the outer prologue", () => {
+	const inner = select("s")
+		.prefix("foaf", "http://xmlns.com/foaf/0.1/")
+		.prefix("ex", "http://example.org/")
+		.where([s, sparql`foaf:name`, name]);
+	const query = select("s")
+		.prefix("ex", "http://example.org/")
+		.where([s, sparql`ex:p`, variable("o")])
+		.optional(inner);
+
+	expect(query.text).toBe(
+		[
+			"PREFIX ex: <http://example.org/>",
+			"PREFIX foaf: <http://xmlns.com/foaf/0.1/>",
+			"SELECT ?s",
+			"WHERE {",
+			"\t?s ex:p ?o .",
+			"\tOPTIONAL {",
+			"\t\t{",
+			"\t\t\tSELECT ?s",
+			"\t\t\tWHERE {",
+			"\t\t\t\t?s foaf:name ?name .",
+			"\t\t\t}",
+			"\t\t}",
+			"\t}",
+			"}",
+		].join("\n"),
+	);
+	expect(() =>
+		select().prefix("ex", "http://example.com/").where(inner),
+	).toThrow(TypeError);
+});
+
+test("builder values are escaped", () => {
+	const query = ask().where([s, FOAF_NAME, 'x" } DROP ALL #']);
+
+	expect(query.text).toBe(
+		'ASK\nWHERE {\n\t?s <http://xmlns.com/foaf/0.1/name> "x\\" } DROP ALL #" .\n}',
+	);
+	expect(() => select("bad name" as string)).toThrow(TypeError);
+	expect(() => select().prefix("a b", "http://ex/")).toThrow(TypeError);
+	expect(() => select().prefix("ex", "http://ex/> DROP ALL")).toThrow(
+		TypeError,
+	);
+	expect(() => select().limit(-1)).toThrow(RangeError);
+});
+
+test("construct builds a template and pattern", () => {
+	const query = construct([s, FOAF_NAME, name])
+		.where([s, iri("http://example.org/name"), name])
+		.limit(3);
+
+	expect(query.text).toBe(
+		[
+			"CONSTRUCT {",
+			"\t?s <http://xmlns.com/foaf/0.1/name> ?name .",
+			"}",
+			"WHERE {",
+			"\t?s <http://example.org/name> ?name .",
+			"}",
+			"LIMIT 3",
+		].join("\n"),
+	);
+});
+
+test("update builders produce DELETE/INSERT WHERE and DELETE WHERE", () => {
+	const rename = remove([s, FOAF_NAME, name])
+		.insert([s, FOAF_NAME, "Bob"])
+		.where([s, FOAF_NAME, name])
+		.filter(sparql`${name} = ${"Alice"}`);
+
+	expect(rename.text).toBe(
+		[
+			"DELETE {",
+			"\t?s <http://xmlns.com/foaf/0.1/name> ?name .",
+			"}",
+			"INSERT {",
+			'\t?s <http://xmlns.com/foaf/0.1/name> "Bob" .',
+			"}",
+			"WHERE {",
+			"\t?s <http://xmlns.com/foaf/0.1/name> ?name .",
+			'\tFILTER(?name = "Alice")',
+			"}",
+		].join("\n"),
+	);
+	expect(insert([s, FOAF_NAME, "x"]).text).toBe(
+		'INSERT {\n\t?s <http://xmlns.com/foaf/0.1/name> "x" .\n}\nWHERE {\n}',
+	);
+	expect(deleteWhere([s, FOAF_NAME, name]).text).toBe(
+		"DELETE WHERE {\n\t?s <http://xmlns.com/foaf/0.1/name> ?name .\n}",
+	);
+});
@@ -0,0 +1,384 @@
+import {
+	encodeSparqlValue,
+	PreparedQuery,
+	type SparqlValue,
+	values,
+} from "./sparql-template.ts";
+import { NamedNode, Variable } from "./terms.ts";
+
+/** A value in a triple pattern: a term, a literal value or a fragment */
+export type PatternTerm = Exclude<SparqlValue, readonly SparqlValue[]>;
+
+/**
+ * A triple pattern. Strings are literals; use `variable()` for variables
+ * and `sparql` fragments for prefixed names.
+ */
+export type TriplePattern = readonly [PatternTerm, PatternTerm, PatternTerm];
+
+/** A graph pattern: a triple pattern, a `sparql` fragment or a subquery */
+export type Pattern = TriplePattern | PreparedQuery;
+
+/** Sort direction for `orderBy` */
+export type SortDirection = "asc" | "desc";
+
+/** A projected expression, created with `alias` */
+export class Projection<Name extends string = string> {
+	constructor(
+		readonly expression: PreparedQuery,
+		readonly name: Name,
+	) {}
+}
+
+const PREFIX_NAME = /^(?:\p{L}(?:[\p{L}\p{N}_.-]*[\p{L}\p{N}_-])?)?$/u;
+
+/** Create a variable term, to interpolate as `?name` */
+export function variable(name: string): Variable {
+	return new Variable(name);
+}
+
+/** Project an expression under a name: `(expression AS ?name)` */
+export function alias<Name extends string>(
+	expression: PreparedQuery,
+	name: Name,
+): Projection<Name> {
+	return new Projection(expression, name);
+}
+
+function encodeVariable(name: string): string {
+	return encodeSparqlValue(new Variable(name));
+}
+
+/** A variable name or an expression */
+function encodeKey(key: string | PreparedQuery): string {
+	return typeof key === "string" ? encodeVariable(key) : `(${key.text})`;
+}
+
+function block(head: string, lines: readonly string[]): string[] {
+	return [`${head}{`, ...lines.map((line) => `\t${line}`), "}"];
+}
+
+function renderPattern(pattern: Pattern): string[] {
+	if (pattern instanceof PreparedQuery) {
+		return pattern.text.split("\n");
+	}
+	return [`${pattern.map((term) => encodeSparqlValue(term)).join(" ")} .`];
+}
+
+/**
+ * Base for builders with a `WHERE` clause. Builders are prepared queries,
+ * so they can be passed to any query method or interpolated into `sparql`
+ * templates; the text is generated on access.
+ */
+abstract class GraphPatternBuilder extends PreparedQuery {
+	/** Namespace IRIs by prefix name */
+	private readonly prefixes = new Map<string, string>();
+	protected readonly patterns: string[] = [];
+
+	constructor() {
+		super("");
+	}
+
+	override get text(): string {
+		const prologue = [...this.prefixes].map(
+			([name, namespace]) => `PREFIX ${name}: ${namespace}`,
+		);
+		return [...prologue, ...this.render()].join("\n");
+	}
+
+	protected abstract render(): string[];
+
+	protected whereClause(): string[] {
+		return block("WHERE ", this.patterns);
+	}
+
+	/** Declare a prefix for use in `sparql` fragments */
+	prefix(name: string, namespace: string): this {
+		if (!PREFIX_NAME.test(name)) {
+			throw new TypeError(`Invalid prefix name: ${name}`);
+		}
+		this.prefixes.set(name, encodeSparqlValue(new NamedNode(namespace)));
+		return this;
+	}
+
+	/**
+	 * Render graph patterns. Subqueries are nested without their prefixes,
+	 * which move to this query's prologue since `PREFIX` is only allowed
+	 * at the start of a query.
+	 */
+	protected renderPatterns(patterns: readonly Pattern[]): string[] {
+		return patterns.flatMap((pattern) => {
+			if (!(pattern instanceof SelectBuilder)) {
+				return renderPattern(pattern);
+			}
+			const subquery: GraphPatternBuilder = pattern;
+			for (const [name, namespace] of subquery.prefixes) {
+				const declared = this.prefixes.get(name);
+				if (declared !== undefined && declared !== namespace) {
+					throw new TypeError(
+						`Prefix ${name}: of the subquery is declared as ${declared} in the enclosing query`,
+					);
+				}
+				this.prefixes.set(name, namespace);
+			}
+			return block("", subquery.render());
+		});
+	}
+
+	/** Add graph patterns */
+	where(...patterns: Pattern[]): this {
+		this.patterns.push(...this.renderPatterns(patterns));
+		return this;
+	}
+
+	/** Add an `OPTIONAL` group */
+	optional(...patterns: Pattern[]): this {
+		this.patterns.push(...block("OPTIONAL ", this.renderPatterns(patterns)));
+		return this;
+	}
+
+	/** Add a `FILTER` constraint */
+	filter(expression: PreparedQuery): this {
+		this.patterns.push(`FILTER(${expression.text})`);
+		return this;
+	}
+
+	/** Add a `UNION` of groups, each a list of patterns */
+	union(...groups: ReadonlyArray<readonly Pattern[]>): this {
+		const lines = groups.flatMap((group, i) => [
+			i === 0 ? "{" : "} UNION {",
+			...this.renderPatterns(group).map((line) => `\t${line}`),
+		]);
+		if (lines.length > 0) {
+			this.patterns.push(...lines, "}");
+		}
+		return this;
+	}
+
+	/** Add patterns matched against a named graph */
+	graph(name: PatternTerm, ...patterns: Pattern[]): this {
+		this.patterns.push(
+			...block(
+				`GRAPH ${encodeSparqlValue(name)} `,
+				this.renderPatterns(patterns),
+			),
+		);
+		return this;
+	}
+
+	/** Add inline data; variables missing from a row are `UNDEF` */
+	values(rows: ReadonlyArray<Record<string, SparqlValue | undefined>>): this {
+		this.patterns.push(values(rows).text);
+		return this;
+	}
+}
+
+/** Base for queries with `ORDER BY`, `LIMIT` and `OFFSET` */
+abstract class SolutionBuilder extends GraphPatternBuilder {
+	private readonly ordering: string[] = [];
+	private limitCount?: number;
+	private offsetCount?: number;
+
+	protected modifiers(): string[] {
+		const lines: string[] = [];
+		if (this.ordering.length > 0) {
+			lines.push(`ORDER BY ${this.ordering.join(" ")}`);
+		}
+		if (this.limitCount !== undefined) {
+			lines.push(`LIMIT ${this.limitCount}`);
+		}
+		if (this.offsetCount !== undefined) {
+			lines.push(`OFFSET ${this.offsetCount}`);
+		}
+		return lines;
+	}
+
+	/** Order solutions by a variable name or an expression */
+	orderBy(key: string | PreparedQuery, direction: SortDirection = "asc"): this {
+		const expression = typeof key === "string" ? encodeVariable(key) : key.text;
+		this.ordering.push(
+			typeof key === "string" && direction === "asc"
+				? expression
+				: `${direction.toUpperCase()}(${expression})`,
+		);
+		return this;
+	}
+
+	/** Return at most `count` solutions */
+	limit(count: number): this {
+		this.limitCount = checkCount(count);
+		return this;
+	}
+
+	/** Skip the first `count` solutions */
+	offset(count: number): this {
+		this.offsetCount = checkCount(count);
+		return this;
+	}
+}
+
+function checkCount(count: number): number {
+	if (!Number.isSafeInteger(count) || count < 0) {
+		throw new RangeError(`Expected a non-negative integer, got ${count}`);
+	}
+	return count;
+}
+
+/** Builder for `SELECT` queries, typed by the projected variable names */
+export class SelectBuilder<V extends string = string> extends SolutionBuilder {
+	/** Projected variable names (empty for `SELECT *`) */
+	readonly variables: readonly V[];
+	private readonly projection: string[];
+	private isDistinct = false;
+	private readonly grouping: string[] = [];
+	private readonly constraints: string[] = [];
+
+	constructor(projections: ReadonlyArray<V | Projection<V>>) {
+		super();
+		this.variables = projections.map((projection) =>
+			typeof projection === "string" ? projection : projection.name,
+		);
+		this.projection = projections.map((projection) =>
+			typeof projection === "string"
+				? encodeVariable(projection)
+				: `(${projection.expression.text} AS ${encodeVariable(projection.name)})`,
+		);
+	}
+
+	protected render(): string[] {
+		const lines = [
+			`SELECT ${this.isDistinct ? "DISTINCT " : ""}${this.projection.join(" ") || "*"}`,
+			...this.whereClause(),
+		];
+		if (this.grouping.length > 0) {
+			lines.push(`GROUP BY ${this.grouping.join(" ")}`);
+		}
+		if (this.constraints.length > 0) {
+			lines.push(`HAVING ${this.constraints.join(" ")}`);
+		}
+		return [...lines, ...this.modifiers()];
+	}
+
+	/** Remove duplicate solutions */
+	distinct(): this {
+		this.isDistinct = true;
+		return this;
+	}
+
+	/** Group solutions by variable names or expressions */
+	groupBy(...keys: Array<string | PreparedQuery>): this {
+		this.grouping.push(...keys.map((key) => encodeKey(key)));
+		return this;
+	}
+
+	/** Filter groups by an aggregate constraint */
+	having(expression: PreparedQuery): this {
+		this.constraints.push(`(${expression.text})`);
+		return this;
+	}
+}
+
+/** Builder for `ASK` queries */
+export class AskBuilder extends GraphPatternBuilder {
+	protected render(): string[] {
+		return ["ASK", ...this.whereClause()];
+	}
+}
+
+/** Builder for `CONSTRUCT` queries */
+export class ConstructBuilder extends SolutionBuilder {
+	private readonly template: string[];
+
+	constructor(templates: readonly Pattern[]) {
+		super();
+		this.template = this.renderPatterns(templates);
+	}
+
+	protected render(): string[] {
+		return [
+			...block("CONSTRUCT ", this.template),
+			...this.whereClause(),
+			...this.modifiers(),
+		];
+	}
+}
+
+/** Builder for `DELETE`/`INSERT ... WHERE` updates */
+export class UpdateBuilder extends GraphPatternBuilder {
+	private readonly deletions: string[] = [];
+	private readonly insertions: string[] = [];
+
+	protected render(): string[] {
+		const lines: string[] = [];
+		if (this.deletions.length > 0) {
+			lines.push(...block("DELETE ", this.deletions));
+		}
+		if (this.insertions.length > 0) {
+			lines.push(...block("INSERT ", this.insertions));
+		}
+		return [...lines, ...this.whereClause()];
+	}
+
+	/** Add templates of triples to delete for each solution */
+	delete(...templates: Pattern[]): this {
+		this.deletions.push(...this.renderPatterns(templates));
+		return this;
+	}
+
+	/** Add templates of triples to insert for each solution */
+	insert(...templates: Pattern[]): this {
+		this.insertions.push(...this.renderPatterns(templates));
+		return this;
+	}
+}
+
+/** Builder for `DELETE WHERE` updates, which delete the matched triples */
+export class DeleteWhereBuilder extends GraphPatternBuilder {
+	protected render(): string[] {
+		return block("DELETE WHERE ", this.patterns);
+	}
+}
+
+/**
+ * Start a `SELECT` query. The projected names are tracked in the type, so
+ * `client.query(select("name", "age")...)` returns typed bindings. With no
+ * projections the query is `SELECT *`.
+ *
+ * ```ts
+ * const person = variable("person");
+ * const query = select("person", "name")
+ *   .prefix("foaf", "http://xmlns.com/foaf/0.1/")
+ *   .where([person, sparql`foaf:name`, variable("name")])
+ *   .orderBy("name")
+ *   .limit(10);
+ * ```
+ */
+export function select<V extends string = string>(
+	...projections: Array<V | Projection<V>>
+): SelectBuilder<V> {
+	return new SelectBuilder(projections);
+}
+
+/** Start an `ASK` query */
+export function ask(): AskBuilder {
+	return new AskBuilder();
+}
+
+/** Start a `CONSTRUCT` query with the given template */
+export function construct(...templates: Pattern[]): ConstructBuilder {
+	return new ConstructBuilder(templates);
+}
+
+/** Start an `INSERT ... WHERE` update */
+export function insert(...templates: Pattern[]): UpdateBuilder {
+	return new UpdateBuilder().insert(...templates);
+}
+
+/** Start a `DELETE ... WHERE` update; chain `insert` to replace triples */
+export function remove(...templates: Pattern[]): UpdateBuilder {
+	return new UpdateBuilder().delete(...templates);
+}
+
+/** Start a `DELETE WHERE` update deleting every triple matched by `patterns` */
+export function deleteWhere(...patterns: Pattern[]): DeleteWhereBuilder {
+	return new DeleteWhereBuilder().where(...patterns);
+}
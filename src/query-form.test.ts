@@ -0,0 +1,37 @@
+import { expect, test } from "bun:test";
+import { ask, select } from "./query-builder.ts";
+import { detectQueryForm, requireQueryForm } from "./query-form.ts";
+
+test("detectQueryForm reads the first keyword", () => {
+	expect(detectQueryForm("SELECT * WHERE { ?s ?p ?o }")).toBe("SELECT");
+	expect(detectQueryForm("  ask { ?s ?p ?o }")).toBe("ASK");
+	expect(detectQueryForm("construct WHERE { ?s ?p ?o }")).toBe("CONSTRUCT");
+	expect(detectQueryForm("DESCRIBE <http://example.org/a>")).toBe("DESCRIBE");
+});
+
+test("detectQueryForm skips the prologue and comments", () => {
+	const query = [
+		"# Find everything",
+		"BASE <http://example.org/>",
+		"PREFIX ex: <http://example.org/ns#>",
+		"prefix : <http://example.org/#select>  # not a keyword",
+		"CONSTRUCT { ?s ?p ?o } WHERE { ?s ?p ?o }",
+	].join("\n");
+
+	expect(detectQueryForm(query)).toBe("CONSTRUCT");
+});
+
+test("detectQueryForm accepts prepared queries and builders", () => {
+	expect(detectQueryForm(select("s").prefix("ex", "http://ex/"))).toBe(
+		"SELECT",
+	);
+	expect(detectQueryForm(ask())).toBe("ASK");
+});
+
+test("detectQueryForm rejects updates", () => {
+	expect(detectQueryForm("INSERT DATA { <a:b> <a:c> <a:d> }")).toBeUndefined();
+	expect(
+		detectQueryForm("PREFIX ex: <http://ex/> DELETE WHERE { ?s ?p ?o }"),
+	).toBeUndefined();
+	expect(() => requireQueryForm("CLEAR ALL")).toThrow(TypeError);
+});
@@ -0,0 +1,62 @@
+import type { SparqlBindings } from "./repository-client.ts";
+import { queryText, type SparqlQuery } from "./sparql-template.ts";
+import type { Quad } from "./terms.ts";
+
+/** The form of a SPARQL query */
+export type QueryForm = "SELECT" | "ASK" | "CONSTRUCT" | "DESCRIBE";
+
+/** Result of `execute`, discriminated by `type` */
+export type QueryResult<V extends string = string> =
+	| { type: "bindings"; bindings: SparqlBindings<V> }
+	| { type: "boolean"; boolean: boolean }
+	| { type: "graph"; quads: Quad[] };
+
+const QUERY_FORMS: ReadonlySet<string> = new Set([
+	"SELECT",
+	"ASK",
+	"CONSTRUCT",
+	"DESCRIBE",
+]);
+
+/** Whitespace, comments and PREFIX/BASE declarations before the query form */
+const PROLOGUE_ITEM =
+	/^(?:\s+|#[^\n\r]*|PREFIX\s*[^\s:]*:\s*<[^>]*>|BASE\s*<[^>]*>)/i;
+
+/** Split a query into its prologue (PREFIX/BASE declarations) and body */
+export function splitPrologue(query: SparqlQuery): {
+	prologue: string;
+	body: string;
+} {
+	const text = queryText(query);
+	let end = 0;
+	for (
+		let match = PROLOGUE_ITEM.exec(text);
+		match;
+		match = PROLOGUE_ITEM.exec(text.slice(end))
+	) {
+		end += match[0].length;
+	}
+	return { prologue: text.slice(0, end), body: text.slice(end) };
+}
+
+/**
+ * Detect the form of a SPARQL query from its first keyword after the
+ * prologue. Returns undefined for updates and unrecognized text.
+ */
+export function detectQueryForm(query: SparqlQuery): QueryForm | undefined {
+	const keyword = /^[a-z]+/i.exec(splitPrologue(query).body)?.[0].toUpperCase();
+	return keyword !== undefined && QUERY_FORMS.has(keyword)
+		? (keyword as QueryForm)
+		: undefined;
+}
+
+/** Detect the form of a query, throwing if it is not a query */
+export function requireQueryForm(query: SparqlQuery): QueryForm {
+	const form = detectQueryForm(query);
+	if (form === undefined) {
+		throw new TypeError(
+			"Expected a SELECT, ASK, CONSTRUCT or DESCRIBE query; use update() for updates",
+		);
+	}
+	return form;
+}
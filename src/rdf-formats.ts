@@ -0,0 +1,155 @@
+import { serializeBinaryRdf } from "./binary-rdf.ts";
+import {
+	NQuadsParser,
+	parseNQuads,
+	parseNTriples,
+	readChunks,
+	serializeNQuads,
+	serializeNTriples,
+	type TextSource,
+} from "./ntriples.ts";
+import type { Quad } from "./terms.ts";
+import {
+	parseTriG,
+	parseTurtle,
+	serializeTriG,
+	serializeTurtle,
+} from "./turtle.ts";
+import { ContentTypes } from "./types.ts";
+
+/** Parser and serializer for an RDF serialization format */
+export interface RdfFormat {
+	/** Parse a complete document into quads */
+	parse(text: string, options?: { baseIRI?: string }): Quad[];
+	/** Serialize quads into a document */
+	serialize(quads: Iterable<Quad>, options?: RdfSerializeOptions): string;
+	/** Parse a document incrementally (optional) */
+	parseStream?(source: TextSource): AsyncIterable<Quad>;
+}
+
+/** Options passed to RDF serializers */
+export interface RdfSerializeOptions {
+	/** Namespace prefixes to abbreviate IRIs with, where supported */
+	prefixes?: Record<string, string>;
+}
+
+const formats = new Map<string, RdfFormat>([
+	[
+		ContentTypes.NTRIPLES,
+		{
+			parse: (text) => parseNTriples(text),
+			serialize: serializeNTriples,
+			parseStream: (source) =>
+				new NQuadsParser({ format: "n-triples" }).parseStream(source),
+		},
+	],
+	[
+		ContentTypes.NQUADS,
+		{
+			parse: (text) => parseNQuads(text),
+			serialize: serializeNQuads,
+			parseStream: (source) => new NQuadsParser().parseStream(source),
+		},
+	],
+	[
+		ContentTypes.TURTLE,
+		{
+			parse: (text, options) => parseTurtle(text, options),
+			serialize: (quads, options) => serializeTurtle(quads, options),
+		},
+	],
+	[
+		ContentTypes.TRIG,
+		{
+			parse: (text, options) => parseTriG(text, options),
+			serialize: (quads, options) => serializeTriG(quads, options),
+		},
+	],
+]);
+
+/** Strip parameters from a content type and normalize its case */
+export function mediaType(contentType: string): string {
+	return (contentType.split(";")[0] ?? "").trim().toLowerCase();
+}
+
+/** Register (or replace) the parser and serializer for a media type */
+export function registerRdfFormat(
+	contentType: string,
+	format: RdfFormat,
+): void {
+	formats.set(mediaType(contentType), format);
+}
+
+/** Get the registered format for a content type */
+export function getRdfFormat(contentType: string): RdfFormat {
+	const format = formats.get(mediaType(contentType));
+	if (!format) {
+		throw new Error(`Unsupported RDF format: ${contentType}`);
+	}
+	return format;
+}
+
+/** Parse an RDF document of the given content type into quads */
+export function parseQuads(
+	text: string,
+	contentType: string,
+	options?: { baseIRI?: string },
+): Quad[] {
+	return getRdfFormat(contentType).parse(text, options);
+}
+
+/** Serialize quads into the given content type */
+export function serializeQuads(
+	quads: Iterable<Quad>,
+	contentType: string,
+	options?: RdfSerializeOptions,
+): string {
+	return getRdfFormat(contentType).serialize(quads, options);
+}
+
+/** RDF data as a serialized document (text or binary RDF) or quads */
+export type RdfPayload = string | Uint8Array | Iterable<Quad>;
+
+/**
+ * Serialize an RDF payload for upload. Quads default to N-Quads and bytes
+ * to binary RDF; quads are encoded as binary RDF when that type is given.
+ */
+export function prepareRdfPayload(
+	data: RdfPayload,
+	contentType?: string,
+): { body: string | Uint8Array; contentType: string } {
+	if (typeof data === "string") {
+		return { body: data, contentType: contentType ?? ContentTypes.NQUADS };
+	}
+	if (data instanceof Uint8Array) {
+		return { body: data, contentType: contentType ?? ContentTypes.BINARY_RDF };
+	}
+	const type = contentType ?? ContentTypes.NQUADS;
+	if (mediaType(type) === ContentTypes.BINARY_RDF) {
+		return { body: serializeBinaryRdf(data), contentType: type };
+	}
+	return { body: serializeQuads(data, type), contentType: type };
+}
+
+/** Parse a streamed RDF document, falling back to buffering if needed */
+export async function* parseQuadStream(
+	source: TextSource,
+	contentType: string,
+): AsyncGenerator<Quad> {
+	const format = getRdfFormat(contentType);
+	if (format.parseStream) {
+		yield* format.parseStream(source);
+		return;
+	}
+
+	let text = "";
+	const decoder = new TextDecoder();
+	for await (const chunk of readChunks(source)) {
+		text +=
+			typeof chunk === "string"
+				? chunk
+				: decoder.decode(chunk, { stream: true });
+	}
+	text += decoder.decode();
+	yield* format.parse(text);
+}
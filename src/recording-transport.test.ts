@@ -0,0 +1,102 @@
+import { afterEach, expect, test } from "bun:test";
+import { rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { RDF4JClient } from "./client.ts";
+import { RecordingTransport, ReplayTransport } from "./recording-transport.ts";
+import { ContentTypes, type Transport } from "./types.ts";
+
+const fixture = join(tmpdir(), `rdf4j-fixture-${process.pid}.json`);
+
+afterEach(async () => {
+	await rm(fixture, { force: true });
+});
+
+/** Fake server answering protocol, size and statement uploads */
+const server: Transport = async (url, init) => {
+	if (url.endsWith("/protocol")) {
+		return new Response("12", { headers: { "content-type": "text/plain" } });
+	}
+	if (url.endsWith("/size")) {
+		return new Response("3", { headers: { "content-type": "text/plain" } });
+	}
+	if (url.endsWith("/statements") && init.method === "POST") {
+		return new Response(null, { status: 204 });
+	}
+	if (url.includes("/statements")) {
+		return new Response(new Uint8Array([0x42, 0x52, 0xff, 0x00]), {
+			headers: { "content-type": ContentTypes.BINARY_RDF },
+		});
+	}
+	return new Response("", { status: 404, statusText: "Not Found" });
+};
+
+test("RDF4JClient uses the configured transport", async () => {
+	const calls: string[] = [];
+	const client = new RDF4JClient({
+		baseUrl: "http://localhost:8080/rdf4j",
+		fetch: (url, init) => {
+			calls.push(`${init.method} ${url}`);
+			return server(url, init);
+		},
+	});
+
+	expect(await client.getProtocol()).toBe("12");
+	expect(calls).toEqual(["GET http://localhost:8080/rdf4j/protocol"]);
+});
+
+test("RecordingTransport fixtures replay deterministically", async () => {
+	const recorder = new RecordingTransport(server);
+	const recording = new RDF4JClient({
+		baseUrl: "http://localhost:8080/rdf4j",
+		fetch: recorder.fetch,
+		auth: { username: "admin", password: "secret" },
+	});
+	const repo = recording.repository("test");
+	expect(await recording.getProtocol()).toBe("12");
+	expect(await repo.size()).toBe(3);
+	await repo.add("<http://s> <http://p> <http://o> .", {
+		contentType: ContentTypes.NTRIPLES,
+	});
+	const exported = await repo.export({ accept: ContentTypes.BINARY_RDF });
+	await recorder.save(fixture);
+
+	const text = await Bun.file(fixture).text();
+	expect(text).not.toContain("secret");
+	expect(text).toContain('"bodyEncoding": "base64"');
+
+	const replay = await ReplayTransport.load(fixture);
+	const replaying = new RDF4JClient({
+		baseUrl: "http://localhost:8080/rdf4j",
+		fetch: replay.fetch,
+	});
+	const replayed = replaying.repository("test");
+	expect(await replayed.size()).toBe(3);
+	expect(await replaying.getProtocol()).toBe("12");
+	await replayed.add("<http://s> <http://p> <http://o> .", {
+		contentType: ContentTypes.NTRIPLES,
+	});
+	expect(await replayed.export({ accept: ContentTypes.BINARY_RDF })).toEqual(
+		exported,
+	);
+	expect(replay.pending).toHaveLength(0);
+});
+
+test("ReplayTransport rejects unrecorded requests", async () => {
+	const replay = new ReplayTransport([
+		{
+			request: { method: "GET", url: "http://localhost/protocol" },
+			response: { status: 200, statusText: "OK", headers: {}, body: "12" },
+		},
+	]);
+
+	await expect(
+		replay.fetch("http://localhost/protocol", { method: "POST" }),
+	).rejects.toThrow("No recorded interaction for POST");
+	expect(
+		await (await replay.fetch("http://localhost/protocol", {})).text(),
+	).toBe("12");
+	await expect(replay.fetch("http://localhost/protocol", {})).rejects.toThrow(
+		"No recorded interaction",
+	);
+});
@@ -0,0 +1,171 @@
+import type { Transport } from "./types.ts";
+
+/** A recorded request/response pair */
+export interface RecordedInteraction {
+	request: {
+		method: string;
+		url: string;
+		body?: string;
+		/** Set when `body` holds base64-encoded binary data */
+		bodyEncoding?: "base64";
+	};
+	response: {
+		status: number;
+		statusText: string;
+		headers: Record<string, string>;
+		body: string;
+		/** Set when `body` holds base64-encoded binary data */
+		bodyEncoding?: "base64";
+	};
+}
+
+/** Contents of a fixture file */
+export interface TransportFixture {
+	interactions: RecordedInteraction[];
+}
+
+const utf8 = new TextDecoder("utf-8", { fatal: true });
+
+/** Encode bytes as UTF-8 text when possible, base64 otherwise */
+function encodeBody(bytes: Uint8Array): {
+	body: string;
+	bodyEncoding?: "base64";
+} {
+	try {
+		return { body: utf8.decode(bytes) };
+	} catch {
+		return {
+			body: Buffer.from(bytes).toString("base64"),
+			bodyEncoding: "base64",
+		};
+	}
+}
+
+function decodeBody(body: string, encoding?: "base64"): BodyInit {
+	return encoding === "base64"
+		? Uint8Array.from(Buffer.from(body, "base64"))
+		: body;
+}
+
+/** Read a request body into its recorded form */
+async function recordRequestBody(
+	body: RequestInit["body"],
+): Promise<{ body?: string; bodyEncoding?: "base64" }> {
+	if (body === undefined || body === null) {
+		return {};
+	}
+	if (typeof body === "string") {
+		return { body };
+	}
+	return encodeBody(new Uint8Array(await new Response(body).arrayBuffer()));
+}
+
+/**
+ * Transport that forwards requests to another transport and records each
+ * interaction so it can be saved as a fixture file. Request headers are not
+ * recorded, so credentials never end up in fixtures.
+ */
+export class RecordingTransport {
+	readonly interactions: RecordedInteraction[] = [];
+
+	constructor(
+		private readonly transport: Transport = (url, init) => fetch(url, init),
+	) {}
+
+	/** The transport function to pass as `RDF4JConfig.fetch` */
+	readonly fetch: Transport = async (url, init) => {
+		const request = {
+			method: init.method ?? "GET",
+			url,
+			...(await recordRequestBody(init.body)),
+		};
+		const response = await this.transport(url, init);
+		const bytes = new Uint8Array(await response.arrayBuffer());
+		const headers: Record<string, string> = {};
+		response.headers.forEach((value, name) => {
+			// The body has already been decoded, so its encoding no longer applies
+			if (name !== "content-encoding" && name !== "content-length") {
+				headers[name] = value;
+			}
+		});
+
+		this.interactions.push({
+			request,
+			response: {
+				status: response.status,
+				statusText: response.statusText,
+				headers,
+				...encodeBody(bytes),
+			},
+		});
+
+		return new Response(hasBody(response.status) ? bytes : null, {
+			status: response.status,
+			statusText: response.statusText,
+			headers,
+		});
+	};
+
+	/** Write the recorded interactions to a fixture file */
+	async save(path: string): Promise<void> {
+		const fixture: TransportFixture = { interactions: this.interactions };
+		await Bun.write(path, `${JSON.stringify(fixture, null, "\t")}\n`);
+	}
+}
+
+/**
+ * Transport that answers requests from recorded interactions. Each request
+ * is matched against the first unused interaction with the same method,
+ * URL and body; unmatched requests are rejected.
+ */
+export class ReplayTransport {
+	private readonly unused: RecordedInteraction[];
+
+	constructor(interactions: RecordedInteraction[]) {
+		this.unused = [...interactions];
+	}
+
+	/** Load a fixture file written by `RecordingTransport.save` */
+	static async load(path: string): Promise<ReplayTransport> {
+		const fixture = (await Bun.file(path).json()) as TransportFixture;
+		return new ReplayTransport(fixture.interactions);
+	}
+
+	/** Recorded interactions that have not been replayed yet */
+	get pending(): readonly RecordedInteraction[] {
+		return this.unused;
+	}
+
+	/** The transport function to pass as `RDF4JConfig.fetch` */
+	readonly fetch: Transport = async (url, init) => {
+		const method = init.method ?? "GET";
+		const { body } = await recordRequestBody(init.body);
+		const index = this.unused.findIndex(
+			({ request }) =>
+				request.method === method &&
+				request.url === url &&
+				request.body === body,
+		);
+		if (index === -1) {
+			throw new Error(`No recorded interaction for ${method} ${url}`);
+		}
+
+		const [{ response }] = this.unused.splice(index, 1) as [
+			RecordedInteraction,
+		];
+		return new Response(
+			hasBody(response.status)
+				? decodeBody(response.body, response.bodyEncoding)
+				: null,
+			{
+				status: response.status,
+				statusText: response.statusText,
+				headers: response.headers,
+			},
+		);
+	};
+}
+
+function hasBody(status: number): boolean {
+	return status !== 204 && status !== 205 && status !== 304;
+}
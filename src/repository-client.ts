@@ -1,25 +1,98 @@
+import { type BindingsStream, openBindingsStream } from "./bindings-stream.ts";
 import { GraphStoreClient } from "./graph-store-client.ts";
-import type { HttpClient } from "./http-client.ts";
+import { type HttpClient, throwIfAborted } from "./http-client.ts";
+import { parseNTriplesTerm } from "./ntriples.ts";
+import {
+	type PaginationOptions,
+	pageQuery,
+	paginateByKey,
+	paginateByOffset,
+} from "./pagination.ts";
+import {
+	type Pattern,
+	type SelectBuilder,
+	select,
+	variable,
+} from "./query-builder.ts";
+import { type QueryResult, requireQueryForm } from "./query-form.ts";
+import {
+	parseQuadStream,
+	parseQuads,
+	prepareRdfPayload,
+	type RdfPayload,
+	serializeQuads,
+} from "./rdf-formats.ts";
+import {
+	buildRepositoryConfig,
+	diffRepositoryConfig,
+	type ParsedRepositoryConfig,
+	parseRepositoryConfig,
+	type RepositoryConfigChange,
+} from "./repository-config.ts";
+import {
+	mapBindings,
+	mapRows,
+	type NativeRow,
+	type ResultMappingOptions,
+	type ResultSchema,
+	type SchemaRow,
+} from "./result-mapping.ts";
+import { ShapesClient } from "./shapes-client.ts";
+import {
+	type SparqlResultsFormat,
+	sparqlResultsMediaType,
+} from "./sparql-results.ts";
+import {
+	iri,
+	queryText,
+	type SparqlQuery,
+	type SparqlValue,
+	sparql,
+	values,
+} from "./sparql-template.ts";
+import {
+	type BlankNode,
+	dataFactory,
+	encodeContext,
+	encodeTerm,
+	fromSparqlTerm,
+	type NamedNode,
+	type Quad,
+	type QuadGraph,
+	type QuadObject,
+	type QuadPredicate,
+	type QuadSubject,
+	type SparqlTerm,
+	type Term,
+	type TermBindings,
+	toTermBindings,
+} from "./terms.ts";
 import { TransactionClient } from "./transaction-client.ts";
-import { ContentTypes, type IsolationLevel } from "./types.ts";
+import type { TransactionDocument } from "./transaction-document.ts";
+import {
+	AbortError,
+	ConflictError,
+	ContentTypes,
+	type IsolationLevel,
+	NotFoundError,
+	type RepositoryConfig,
+	type RepositoryType,
+	ShaclValidationError,
+	type SignalOptions,
+} from "./types.ts";
+
+/** A single SELECT solution, keyed by variable name */
+export type SparqlBinding<V extends string = string> = {
+	[K in V]?: SparqlTerm;
+};
 
 /** SPARQL query result bindings */
-export interface SparqlBindings {
+export interface SparqlBindings<V extends string = string> {
 	head: {
-		vars: string[];
+		vars: V[];
 	};
 	results: {
-		bindings: Array<
-			Record<
-				string,
-				{
-					type: "uri" | "literal" | "bnode";
-					value: string;
-					datatype?: string;
-					"xml:lang"?: string;
-				}
-			>
-		>;
+		bindings: SparqlBinding<V>[];
 	};
 }
 
@@ -30,10 +103,13 @@ export interface SparqlBooleanResult {
 }
 
 /** Query options for SPARQL queries */
-export interface QueryOptions {
+export interface QueryOptions extends SignalOptions {
 	/** Include inferred statements (default: true) */
 	infer?: boolean;
-	/** Query timeout in milliseconds */
+	/**
+	 * Milliseconds to wait for the response before aborting the request; the
+	 * server is not told and may keep evaluating the query
+	 */
 	timeout?: number;
 	/** Default graph URIs */
 	defaultGraphUri?: string | string[];
@@ -47,22 +123,51 @@ export interface QueryOptions {
 	limit?: number;
 	/** Offset for pagination */
 	offset?: number;
+	/**
+	 * SELECT results format (default: `json`). `binary` requests RDF4J's
+	 * compact binary results table, which is cheaper to decode.
+	 */
+	format?: SparqlResultsFormat;
+	/** Response media type to request; overrides `format` */
+	accept?: string;
 }
 
 /** Options for statement operations */
-export interface StatementOptions {
-	/** Subject filter (N-Triples encoded) */
-	subj?: string;
-	/** Predicate filter (N-Triples encoded) */
-	pred?: string;
-	/** Object filter (N-Triples encoded) */
-	obj?: string;
+export interface StatementOptions extends SignalOptions {
+	/** Subject filter (N-Triples encoded string or term) */
+	subj?: string | QuadSubject;
+	/** Predicate filter (N-Triples encoded string or term) */
+	pred?: string | QuadPredicate;
+	/** Object filter (N-Triples encoded string or term) */
+	obj?: string | QuadObject;
 	/** Context/graph filter */
-	context?: string | string[];
+	context?: string | QuadGraph | Array<string | QuadGraph>;
 	/** Include inferred statements */
 	infer?: boolean;
 }
 
+/** Options for `withTransaction` */
+export interface TransactionOptions {
+	/** Isolation level of the transaction */
+	isolationLevel?: IsolationLevel;
+	/** Interval between background pings that keep the transaction alive */
+	keepAliveMs?: number;
+	/** Times to rerun the callback after a conflict (HTTP 409) (default: 0) */
+	retries?: number;
+	/** Rolls the transaction back when aborted, raising `AbortError` */
+	signal?: AbortSignal;
+}
+
+/** Options for uploading RDF data */
+export interface UploadOptions extends SignalOptions {
+	/** Content type of the data (default for quads: N-Quads) */
+	contentType?: string;
+	/** Context to add the statements to */
+	context?: string | QuadGraph;
+	/** Base URI to resolve relative IRIs against */
+	baseURI?: string;
+}
+
 /** Client for repository-specific operations */
 export class RepositoryClient {
 	constructor(
@@ -79,87 +184,278 @@ export class RepositoryClient {
 	// ============================================
 
 	/** Get repository configuration */
-	async getConfig(): Promise<string> {
+	async getConfig(options?: SignalOptions): Promise<string> {
 		return this.http.get<string>(`${this.basePath}/config`, {
 			accept: ContentTypes.TURTLE,
+			signal: options?.signal,
 		});
 	}
 
+	/** Get repository configuration as quads */
+	async getConfigQuads(options?: SignalOptions): Promise<Quad[]> {
+		return parseQuads(await this.getConfig(options), ContentTypes.TURTLE);
+	}
+
+	/** Get repository configuration parsed into its type and options */
+	async getParsedConfig(
+		options?: SignalOptions,
+	): Promise<ParsedRepositoryConfig> {
+		return parseRepositoryConfig(await this.getConfig(options));
+	}
+
+	/**
+	 * Change repository settings. Options not given keep their current
+	 * values unless the type changes. Returns the changed settings; nothing
+	 * is sent when the configuration already matches.
+	 */
+	async updateConfig<T extends RepositoryType>(
+		config: Omit<RepositoryConfig<T>, "id" | "configTurtle">,
+		options?: SignalOptions,
+	): Promise<RepositoryConfigChange[]> {
+		const current = await this.getParsedConfig(options);
+		const type = config.type ?? current.type;
+		const desired: RepositoryConfig = {
+			id: current.id,
+			title: config.title ?? current.title,
+			type,
+			options:
+				type === current.type
+					? { ...current.options, ...config.options }
+					: config.options,
+		};
+		const changes = diffRepositoryConfig(current, desired);
+		if (changes.length > 0) {
+			await this.http.post<void>(`${this.basePath}/config`, {
+				body: buildRepositoryConfig(desired),
+				contentType: ContentTypes.TURTLE,
+				signal: options?.signal,
+			});
+		}
+		return changes;
+	}
+
 	// ============================================
 	// SPARQL Query Operations
 	// ============================================
 
-	/** Execute a SPARQL SELECT or CONSTRUCT query */
-	async query(sparql: string, options?: QueryOptions): Promise<SparqlBindings> {
+	/**
+	 * Execute a SPARQL SELECT query. Bindings of `select()` builders are
+	 * typed by the projected variables.
+	 */
+	async query<V extends string = string>(
+		sparql: SparqlQuery | SelectBuilder<V>,
+		options?: QueryOptions,
+	): Promise<SparqlBindings<V>> {
+		const params = this.buildQueryParams(sparql, options);
+		return this.http.get<SparqlBindings<V>>(this.basePath, {
+			params,
+			accept: options?.accept ?? sparqlResultsMediaType(options?.format),
+			timeout: options?.timeout,
+			signal: options?.signal,
+		});
+	}
+
+	/**
+	 * Execute a SPARQL SELECT query and stream the solutions. The returned
+	 * stream exposes `vars` immediately and parses rows as they arrive.
+	 */
+	async queryStream(
+		sparql: SparqlQuery,
+		options?: Omit<QueryOptions, "accept" | "format">,
+	): Promise<BindingsStream> {
 		const params = this.buildQueryParams(sparql, options);
-		return this.http.get<SparqlBindings>(this.basePath, {
+		const response = await this.http.requestStream("GET", this.basePath, {
 			params,
 			accept: ContentTypes.SPARQL_RESULTS_JSON,
 			timeout: options?.timeout,
+			signal: options?.signal,
 		});
+		return openBindingsStream(response, options?.signal);
+	}
+
+	/** Execute a SPARQL SELECT query and return solutions as RDF/JS terms */
+	async queryTerms(
+		sparql: SparqlQuery,
+		options?: QueryOptions,
+	): Promise<TermBindings[]> {
+		return toTermBindings(await this.query(sparql, options));
+	}
+
+	/**
+	 * Execute a SPARQL SELECT query and return rows of native values
+	 * (see `mapBindings`), or rows validated against `options.schema` (see
+	 * `mapRows`)
+	 */
+	async queryRows<S extends ResultSchema>(
+		sparql: SparqlQuery,
+		options: QueryOptions & ResultMappingOptions & { schema: S },
+	): Promise<SchemaRow<S>[]>;
+	async queryRows<V extends string = string>(
+		sparql: SparqlQuery | SelectBuilder<V>,
+		options?: QueryOptions & ResultMappingOptions,
+	): Promise<NativeRow<V>[]>;
+	async queryRows(
+		sparql: SparqlQuery,
+		options?: QueryOptions & ResultMappingOptions & { schema?: ResultSchema },
+	): Promise<unknown[]> {
+		const result = await this.query(sparql, options);
+		return options?.schema
+			? mapRows(result, options.schema, options)
+			: mapBindings(result, options);
+	}
+
+	/**
+	 * Iterate over the solutions of a SELECT query, requesting one page at a
+	 * time (see `PaginationOptions`). Offset pagination relies on a stable
+	 * solution order, so the query should have an `ORDER BY` unless
+	 * `orderBy` selects keyset pagination.
+	 */
+	paginate<V extends string = string>(
+		sparql: SparqlQuery | SelectBuilder<V>,
+		options?: Omit<QueryOptions, "accept" | "limit" | "offset"> &
+			PaginationOptions,
+	): AsyncGenerator<SparqlBinding<V>, void, undefined> {
+		const {
+			pageSize,
+			maxRows,
+			prefetch,
+			orderBy: key,
+			...queryOptions
+		} = options ?? {};
+		const fetchPage = async (page: Parameters<typeof pageQuery>[1]) => {
+			const result = await this.query<V>(pageQuery(sparql, page), queryOptions);
+			return result.results.bindings;
+		};
+		const pagination = { pageSize, maxRows, prefetch };
+
+		return key === undefined
+			? paginateByOffset(
+					(offset, limit) => fetchPage({ offset, limit }),
+					pagination,
+				)
+			: paginateByKey(
+					(after, limit) => fetchPage({ key, after, limit }),
+					(row) => row[key as V],
+					pagination,
+				);
 	}
 
 	/** Execute a SPARQL SELECT query via POST (for large queries) */
-	async queryPost(
-		sparql: string,
+	async queryPost<V extends string = string>(
+		sparql: SparqlQuery | SelectBuilder<V>,
 		options?: QueryOptions,
-	): Promise<SparqlBindings> {
+	): Promise<SparqlBindings<V>> {
 		const params = this.buildQueryParams(sparql, options);
 		// Remove query from params as it goes in body
 		const { query: _, ...restParams } = params;
 
-		return this.http.post<SparqlBindings>(this.basePath, {
-			body: sparql,
+		return this.http.post<SparqlBindings<V>>(this.basePath, {
+			body: queryText(sparql),
 			contentType: ContentTypes.SPARQL_QUERY,
 			params: restParams,
-			accept: ContentTypes.SPARQL_RESULTS_JSON,
+			accept: options?.accept ?? sparqlResultsMediaType(options?.format),
 			timeout: options?.timeout,
+			signal: options?.signal,
+			// Read-only, so safe to retry despite using POST
+			idempotent: true,
 		});
 	}
 
-	/** Execute a SPARQL CONSTRUCT query and get RDF */
+	/** Execute a SPARQL CONSTRUCT or DESCRIBE query and get RDF */
 	async construct(
-		sparql: string,
-		options?: QueryOptions & { accept?: string },
+		sparql: SparqlQuery,
+		options?: QueryOptions,
 	): Promise<string> {
 		const params = this.buildQueryParams(sparql, options);
 		return this.http.get<string>(this.basePath, {
 			params,
 			accept: options?.accept ?? ContentTypes.TURTLE,
 			timeout: options?.timeout,
+			signal: options?.signal,
 		});
 	}
 
+	/** Execute a SPARQL CONSTRUCT or DESCRIBE query and get quads */
+	async constructQuads(
+		sparql: SparqlQuery,
+		options?: QueryOptions,
+	): Promise<Quad[]> {
+		const ntriples = await this.construct(sparql, {
+			...options,
+			accept: ContentTypes.NTRIPLES,
+		});
+		return parseQuads(ntriples ?? "", ContentTypes.NTRIPLES);
+	}
+
 	/** Execute a SPARQL DESCRIBE query */
 	async describe(
-		resource: string,
-		options?: { accept?: string },
+		resource: string | NamedNode,
+		options?: SignalOptions & { accept?: string },
 	): Promise<string> {
-		const sparql = `DESCRIBE <${resource}>`;
+		const term = typeof resource === "string" ? iri(resource) : resource;
 		return this.http.get<string>(this.basePath, {
-			params: { query: sparql },
+			params: { query: sparql`DESCRIBE ${term}`.text },
 			accept: options?.accept ?? ContentTypes.TURTLE,
+			signal: options?.signal,
 		});
 	}
 
+	/** Execute a SPARQL DESCRIBE query and get quads */
+	async describeQuads(
+		resource: string | NamedNode,
+		options?: SignalOptions,
+	): Promise<Quad[]> {
+		const ntriples = await this.describe(resource, {
+			...options,
+			accept: ContentTypes.NTRIPLES,
+		});
+		return parseQuads(ntriples ?? "", ContentTypes.NTRIPLES);
+	}
+
 	/** Execute a SPARQL ASK query */
-	async ask(sparql: string, options?: QueryOptions): Promise<boolean> {
+	async ask(sparql: SparqlQuery, options?: QueryOptions): Promise<boolean> {
 		const params = this.buildQueryParams(sparql, options);
 		const result = await this.http.get<SparqlBooleanResult>(this.basePath, {
 			params,
-			accept: ContentTypes.SPARQL_RESULTS_JSON,
+			accept: options?.accept ?? ContentTypes.SPARQL_RESULTS_JSON,
 			timeout: options?.timeout,
+			signal: options?.signal,
 		});
 		return result.boolean;
 	}
 
+	/**
+	 * Execute a SPARQL query of any form, requesting the result type that
+	 * matches the query form (detected after any PREFIX/BASE declarations)
+	 */
+	async execute<V extends string = string>(
+		sparql: SparqlQuery | SelectBuilder<V>,
+		options?: Omit<QueryOptions, "accept">,
+	): Promise<QueryResult<V>> {
+		switch (requireQueryForm(sparql)) {
+			case "SELECT":
+				return {
+					type: "bindings",
+					bindings: await this.query(sparql, options),
+				};
+			case "ASK":
+				return { type: "boolean", boolean: await this.ask(sparql, options) };
+			case "CONSTRUCT":
+			case "DESCRIBE":
+				return {
+					type: "graph",
+					quads: await this.constructQuads(sparql, options),
+				};
+		}
+	}
+
 	/** Build query parameters from options */
 	private buildQueryParams(
-		query: string,
+		query: SparqlQuery,
 		options?: QueryOptions,
 	): Record<string, string | number | boolean | undefined> {
 		const params: Record<string, string | number | boolean | undefined> = {
-			query,
+			query: queryText(query),
 			queryLn: "sparql",
 			infer: options?.infer,
 			distinct: options?.distinct,
@@ -203,18 +499,22 @@ export class RepositoryClient {
 	// ============================================
 
 	/** Execute a SPARQL UPDATE query */
-	async update(sparql: string, options?: { timeout?: number }): Promise<void> {
+	async update(
+		sparql: SparqlQuery,
+		options?: SignalOptions & { timeout?: number },
+	): Promise<void> {
 		await this.http.post<void>(`${this.basePath}/statements`, {
-			body: sparql,
+			body: queryText(sparql),
 			contentType: ContentTypes.SPARQL_UPDATE,
 			timeout: options?.timeout,
+			signal: options?.signal,
 		});
 	}
 
 	/** Execute a SPARQL UPDATE query with using graphs */
 	async updateWithGraphs(
-		sparql: string,
-		options?: {
+		sparql: SparqlQuery,
+		options?: SignalOptions & {
 			usingGraphUri?: string | string[];
 			usingNamedGraphUri?: string | string[];
 			removeGraphUri?: string;
@@ -248,10 +548,11 @@ export class RepositoryClient {
 		}
 
 		await this.http.post<void>(`${this.basePath}/statements`, {
-			body: sparql,
+			body: queryText(sparql),
 			contentType: ContentTypes.SPARQL_UPDATE,
 			params,
 			timeout: options?.timeout,
+			signal: options?.signal,
 		});
 	}
 
@@ -259,59 +560,192 @@ export class RepositoryClient {
 	// Statement Operations
 	// ============================================
 
-	/** Add RDF statements */
+	/** Add RDF statements (quads default to N-Quads, bytes to binary RDF) */
 	async add(
 		data: string,
-		options: {
-			contentType: string;
-			context?: string;
-			baseURI?: string;
-		},
-	): Promise<void> {
+		options: UploadOptions & { contentType: string },
+	): Promise<void>;
+	async add(quads: Iterable<Quad>, options?: UploadOptions): Promise<void>;
+	async add(bytes: Uint8Array, options?: UploadOptions): Promise<void>;
+	async add(data: RdfPayload, options?: UploadOptions): Promise<void> {
+		const payload = prepareRdfPayload(data, options?.contentType);
 		await this.http.post<void>(`${this.basePath}/statements`, {
-			body: data,
-			contentType: options.contentType,
+			body: payload.body,
+			contentType: payload.contentType,
 			params: {
-				context: options.context,
-				baseURI: options.baseURI,
+				context: encodeContext(options?.context),
+				baseURI: options?.baseURI,
 			},
+			signal: options?.signal,
 		});
 	}
 
 	/** Replace all statements (optionally in a context) */
 	async replace(
 		data: string,
-		options: {
-			contentType: string;
-			context?: string;
-			baseURI?: string;
-		},
-	): Promise<void> {
+		options: UploadOptions & { contentType: string },
+	): Promise<void>;
+	async replace(quads: Iterable<Quad>, options?: UploadOptions): Promise<void>;
+	async replace(bytes: Uint8Array, options?: UploadOptions): Promise<void>;
+	async replace(data: RdfPayload, options?: UploadOptions): Promise<void> {
+		const payload = prepareRdfPayload(data, options?.contentType);
 		await this.http.put<void>(`${this.basePath}/statements`, {
-			body: data,
-			contentType: options.contentType,
+			body: payload.body,
+			contentType: payload.contentType,
 			params: {
-				context: options.context,
-				baseURI: options.baseURI,
+				context: encodeContext(options?.context),
+				baseURI: options?.baseURI,
 			},
+			signal: options?.signal,
 		});
 	}
 
-	/** Get statements matching a pattern */
+	/** Get statements matching a pattern (bytes when binary RDF is requested) */
+	async getStatements(
+		options: StatementOptions & { accept: typeof ContentTypes.BINARY_RDF },
+	): Promise<Uint8Array>;
 	async getStatements(
 		options?: StatementOptions & { accept?: string },
-	): Promise<string> {
-		return this.http.get<string>(`${this.basePath}/statements`, {
+	): Promise<string>;
+	async getStatements(
+		options?: StatementOptions & { accept?: string },
+	): Promise<string | Uint8Array> {
+		return this.http.get<string | Uint8Array>(`${this.basePath}/statements`, {
 			accept: options?.accept ?? ContentTypes.TURTLE,
-			params: {
-				subj: options?.subj,
-				pred: options?.pred,
-				obj: options?.obj,
-				context: Array.isArray(options?.context)
-					? options?.context.join(",")
-					: options?.context,
-				infer: options?.infer,
+			params: this.statementParams(options),
+			signal: options?.signal,
+		});
+	}
+
+	/** Get statements matching a pattern as quads */
+	async getQuads(options?: StatementOptions): Promise<Quad[]> {
+		const nquads = await this.getStatements({
+			...options,
+			accept: ContentTypes.NQUADS,
+		});
+		return parseQuads(nquads ?? "", ContentTypes.NQUADS);
+	}
+
+	/**
+	 * Iterate over statements matching a pattern, requesting one page at a
+	 * time with SPARQL, ordered by subject, predicate, object and context.
+	 * Without a `context` filter, statements are read from the default graph
+	 * (in RDF4J, the union of all contexts) and returned without their
+	 * context. The default graph as a context filter (`DefaultGraph` or
+	 * `"null"`) matches statements without a context.
+	 */
+	async *paginateStatements(
+		options?: StatementOptions & Omit<PaginationOptions, "orderBy">,
+	): AsyncGenerator<Quad, void, undefined> {
+		const { subj, pred, obj, context, infer, signal, ...pagination } =
+			options ?? {};
+		const pattern = (value: string | Term) =>
+			typeof value === "string" ? parseNTriplesTerm(value) : value;
+		// `getStatements` sends the default graph as `null`
+		const isDefaultGraph = (graph: string | QuadGraph) =>
+			typeof graph === "string"
+				? graph === "null"
+				: graph.termType === "DefaultGraph";
+		const fixed: Record<string, SparqlValue> = {};
+		for (const [name, value] of [
+			["s", subj],
+			["p", pred],
+			["o", obj],
+		] as const) {
+			if (value !== undefined) {
+				fixed[name] = pattern(value);
+			}
+		}
+
+		const [s, p, o, g] = [
+			variable("s"),
+			variable("p"),
+			variable("o"),
+			variable("g"),
+		];
+		const triple: Pattern = [s, p, o];
+		const graphs = context === undefined ? [] : [context].flat();
+		const named = graphs.filter((graph) => !isDefaultGraph(graph));
+		const inNamedGraphs = [
+			values(named.map((graph) => ({ g: pattern(graph) }))),
+			sparql`GRAPH ${g} { ${s} ${p} ${o} }`,
+		];
+		const inDefaultGraph = [
+			triple,
+			sparql`FILTER NOT EXISTS { GRAPH ${g} { ${s} ${p} ${o} } }`,
+		];
+		const where =
+			graphs.length === 0
+				? [[triple]]
+				: [
+						...(named.length > 0 ? [inNamedGraphs] : []),
+						...(named.length < graphs.length ? [inDefaultGraph] : []),
+					];
+
+		const fetchPage = async (offset: number, limit: number) => {
+			const query = select("s", "p", "o", "g");
+			if (Object.keys(fixed).length > 0) {
+				query.values([fixed]);
+			}
+			if (where.length === 1) {
+				query.where(...(where[0] ?? []));
+			} else {
+				query.union(...where);
+			}
+			query.orderBy("s").orderBy("p").orderBy("o").orderBy("g");
+			const result = await this.query(query.limit(limit).offset(offset), {
+				infer,
+				signal,
+			});
+			return result.results.bindings;
+		};
+
+		for await (const row of paginateByOffset(fetchPage, pagination)) {
+			const [subject, predicate, object] = [row.s, row.p, row.o].map((term) =>
+				term ? fromSparqlTerm(term) : undefined,
+			);
+			if (subject && predicate && object) {
+				yield dataFactory.quad(
+					subject as QuadSubject,
+					predicate as QuadPredicate,
+					object,
+					row.g ? (fromSparqlTerm(row.g) as QuadGraph) : undefined,
+				);
+			}
+		}
+	}
+
+	/** Stream statements matching a pattern, parsing quads as they arrive */
+	async *streamStatements(options?: StatementOptions): AsyncGenerator<Quad> {
+		const response = await this.http.requestStream(
+			"GET",
+			`${this.basePath}/statements`,
+			{
+				accept: ContentTypes.NQUADS,
+				params: this.statementParams(options),
+				signal: options?.signal,
 			},
+		);
+		if (response.body) {
+			yield* parseQuadStream(
+				response.body,
+				response.headers.get("content-type") ?? ContentTypes.NQUADS,
+			);
+		}
+	}
+
+	/**
+	 * Apply the operations of a transaction document atomically in a single
+	 * request
+	 */
+	async applyTransaction(
+		document: TransactionDocument,
+		options?: SignalOptions,
+	): Promise<void> {
+		await this.http.post<void>(`${this.basePath}/statements`, {
+			body: document.toString(),
+			contentType: ContentTypes.RDF_TRANSACTION,
+			signal: options?.signal,
 		});
 	}
 
@@ -319,48 +753,111 @@ export class RepositoryClient {
 	async delete(options?: StatementOptions): Promise<void> {
 		await this.http.delete<void>(`${this.basePath}/statements`, {
 			params: {
-				subj: options?.subj,
-				pred: options?.pred,
-				obj: options?.obj,
-				context: Array.isArray(options?.context)
-					? options?.context.join(",")
-					: options?.context,
+				subj: encodeTerm(options?.subj),
+				pred: encodeTerm(options?.pred),
+				obj: encodeTerm(options?.obj),
+				context: encodeContext(options?.context),
 			},
+			signal: options?.signal,
 		});
 	}
 
-	/** Export all statements */
-	async export(options?: {
-		accept?: string;
-		context?: string;
-	}): Promise<string> {
-		return this.http.get<string>(`${this.basePath}/statements`, {
+	/** Export all statements (bytes when binary RDF is requested) */
+	async export(
+		options: SignalOptions & {
+			accept: typeof ContentTypes.BINARY_RDF;
+			context?: string | QuadGraph;
+		},
+	): Promise<Uint8Array>;
+	async export(
+		options?: SignalOptions & {
+			accept?: string;
+			context?: string | QuadGraph;
+		},
+	): Promise<string>;
+	async export(
+		options?: SignalOptions & {
+			accept?: string;
+			context?: string | QuadGraph;
+		},
+	): Promise<string | Uint8Array> {
+		return this.http.get<string | Uint8Array>(`${this.basePath}/statements`, {
 			accept: options?.accept ?? ContentTypes.TURTLE,
 			params: {
-				context: options?.context,
+				context: encodeContext(options?.context),
 			},
+			signal: options?.signal,
+		});
+	}
+
+	/** Export all statements as quads */
+	async exportQuads(
+		options?: SignalOptions & { context?: string | QuadGraph },
+	): Promise<Quad[]> {
+		return this.getQuads({
+			context: options?.context,
+			signal: options?.signal,
 		});
 	}
 
+	/** Build request parameters for a statement pattern */
+	private statementParams(
+		options?: StatementOptions,
+	): Record<string, string | boolean | undefined> {
+		return {
+			subj: encodeTerm(options?.subj),
+			pred: encodeTerm(options?.pred),
+			obj: encodeTerm(options?.obj),
+			context: encodeContext(options?.context),
+			infer: options?.infer,
+		};
+	}
+
 	// ============================================
 	// Size and Contexts
 	// ============================================
 
 	/** Get repository size (number of statements) */
-	async size(context?: string): Promise<number> {
+	async size(
+		context?: string | QuadGraph,
+		options?: SignalOptions,
+	): Promise<number> {
 		const result = await this.http.get<string>(`${this.basePath}/size`, {
-			params: { context },
+			params: { context: encodeContext(context) },
 			accept: ContentTypes.TEXT,
+			signal: options?.signal,
 		});
 		return parseInt(result, 10);
 	}
 
+	/** Get available contexts (named graphs) as RDF/JS terms */
+	async contextTerms(
+		options?: SignalOptions,
+	): Promise<Array<NamedNode | BlankNode>> {
+		const result = await this.http.get<SparqlBindings>(
+			`${this.basePath}/contexts`,
+			{
+				accept: ContentTypes.SPARQL_RESULTS_JSON,
+				signal: options?.signal,
+			},
+		);
+		const terms: Array<NamedNode | BlankNode> = [];
+		for (const binding of result.results.bindings) {
+			const term = binding.contextID && fromSparqlTerm(binding.contextID);
+			if (term && term.termType !== "Literal") {
+				terms.push(term);
+			}
+		}
+		return terms;
+	}
+
 	/** Get available contexts (named graphs) */
-	async contexts(): Promise<string[]> {
+	async contexts(options?: SignalOptions): Promise<string[]> {
 		const result = await this.http.get<SparqlBindings>(
 			`${this.basePath}/contexts`,
 			{
 				accept: ContentTypes.SPARQL_RESULTS_JSON,
+				signal: options?.signal,
 			},
 		);
 		return result.results.bindings.map(
@@ -373,11 +870,12 @@ export class RepositoryClient {
 	// ============================================
 
 	/** Get all namespaces */
-	async namespaces(): Promise<Record<string, string>> {
+	async namespaces(options?: SignalOptions): Promise<Record<string, string>> {
 		const result = await this.http.get<SparqlBindings>(
 			`${this.basePath}/namespaces`,
 			{
 				accept: ContentTypes.SPARQL_RESULTS_JSON,
+				signal: options?.signal,
 			},
 		);
 
@@ -393,35 +891,68 @@ export class RepositoryClient {
 	}
 
 	/** Get a specific namespace by prefix */
-	async getNamespace(prefix: string): Promise<string | null> {
+	async getNamespace(
+		prefix: string,
+		options?: SignalOptions,
+	): Promise<string | null> {
 		try {
 			return await this.http.get<string>(
 				`${this.basePath}/namespaces/${prefix}`,
 				{
 					accept: ContentTypes.TEXT,
+					signal: options?.signal,
 				},
 			);
-		} catch {
-			return null;
+		} catch (error) {
+			if (error instanceof NotFoundError) {
+				return null;
+			}
+			throw error;
 		}
 	}
 
+	/**
+	 * Serialize quads using this repository's namespaces as prefixes
+	 * @param contentType RDF format to produce (default: Turtle)
+	 */
+	async serialize(
+		quads: Iterable<Quad>,
+		contentType: string = ContentTypes.TURTLE,
+		options?: SignalOptions,
+	): Promise<string> {
+		return serializeQuads(quads, contentType, {
+			prefixes: await this.namespaces(options),
+		});
+	}
+
 	/** Set a namespace prefix */
-	async setNamespace(prefix: string, namespace: string): Promise<void> {
+	async setNamespace(
+		prefix: string,
+		namespace: string,
+		options?: SignalOptions,
+	): Promise<void> {
 		await this.http.put<void>(`${this.basePath}/namespaces/${prefix}`, {
 			body: namespace,
 			contentType: ContentTypes.TEXT,
+			signal: options?.signal,
 		});
 	}
 
 	/** Delete a namespace prefix */
-	async deleteNamespace(prefix: string): Promise<void> {
-		await this.http.delete<void>(`${this.basePath}/namespaces/${prefix}`);
+	async deleteNamespace(
+		prefix: string,
+		options?: SignalOptions,
+	): Promise<void> {
+		await this.http.delete<void>(`${this.basePath}/namespaces/${prefix}`, {
+			signal: options?.signal,
+		});
 	}
 
 	/** Clear all namespaces */
-	async clearNamespaces(): Promise<void> {
-		await this.http.delete<void>(`${this.basePath}/namespaces`);
+	async clearNamespaces(options?: SignalOptions): Promise<void> {
+		await this.http.delete<void>(`${this.basePath}/namespaces`, {
+			signal: options?.signal,
+		});
 	}
 
 	// ============================================
@@ -429,9 +960,13 @@ export class RepositoryClient {
 	// ============================================
 
 	/** Clear all statements (optionally in a specific context) */
-	async clear(context?: string): Promise<void> {
+	async clear(
+		context?: string | QuadGraph,
+		options?: SignalOptions,
+	): Promise<void> {
 		await this.http.delete<void>(`${this.basePath}/statements`, {
-			params: { context },
+			params: { context: encodeContext(context) },
+			signal: options?.signal,
 		});
 	}
 
@@ -442,6 +977,7 @@ export class RepositoryClient {
 	/** Start a new transaction */
 	async beginTransaction(
 		isolationLevel?: IsolationLevel,
+		options?: SignalOptions,
 	): Promise<TransactionClient> {
 		const response = await this.http.requestWithHeaders(
 			"POST",
@@ -451,6 +987,7 @@ export class RepositoryClient {
 					? { "isolation-level": isolationLevel }
 					: undefined,
 				accept: ContentTypes.TEXT,
+				signal: options?.signal,
 			},
 		);
 
@@ -465,6 +1002,85 @@ export class RepositoryClient {
 		return new TransactionClient(this.http, this.repositoryId, txnId);
 	}
 
+	/**
+	 * Run `fn` in a transaction that is committed when the returned promise
+	 * resolves and rolled back when it rejects or `signal` aborts. With
+	 * `retries`, a conflicting transaction is rolled back and `fn` runs again
+	 * in a new transaction, so it should not have side effects outside it.
+	 * `fn` receives a signal that aborts when the transaction is rolled back;
+	 * pass it to requests that could still be running at that point.
+	 */
+	async withTransaction<T>(
+		fn: (transaction: TransactionClient, signal: AbortSignal) => Promise<T>,
+		options: TransactionOptions = {},
+	): Promise<T> {
+		for (let attempt = 0; ; attempt++) {
+			try {
+				return await this.runTransaction(fn, options);
+			} catch (error) {
+				// Invalid data fails the same way on every attempt
+				const conflict =
+					error instanceof ConflictError &&
+					!(error instanceof ShaclValidationError);
+				if (!conflict || attempt >= (options.retries ?? 0)) {
+					throw error;
+				}
+			}
+		}
+	}
+
+	private async runTransaction<T>(
+		fn: (transaction: TransactionClient, signal: AbortSignal) => Promise<T>,
+		options: TransactionOptions,
+	): Promise<T> {
+		const { signal } = options;
+		throwIfAborted(signal, "Transaction aborted");
+		const transaction = await this.beginTransaction(options.isolationLevel, {
+			signal,
+		});
+		const keepAlive = options.keepAliveMs
+			? setInterval(() => {
+					// A failed ping surfaces as an error on the next operation
+					transaction.ping().catch(() => undefined);
+				}, options.keepAliveMs)
+			: undefined;
+		// Aborted by the caller's signal or when the transaction is rolled back
+		const controller = new AbortController();
+		const onAbort = () =>
+			controller.abort(
+				new AbortError("Transaction aborted", { cause: signal?.reason }),
+			);
+		signal?.addEventListener("abort", onAbort, { once: true });
+		const aborted = new Promise<never>((_, reject) => {
+			controller.signal.addEventListener(
+				"abort",
+				() => reject(controller.signal.reason),
+				{ once: true },
+			);
+		});
+		aborted.catch(() => undefined);
+
+		try {
+			const result = await Promise.race([
+				fn(transaction, controller.signal),
+				aborted,
+			]);
+			throwIfAborted(signal, "Transaction aborted");
+			await transaction.commit();
+			return result;
+		} catch (error) {
+			controller.abort(error);
+			if (transaction.isActive) {
+				// Keep the original error if the rollback fails too
+				await transaction.rollback().catch(() => undefined);
+			}
+			throw error;
+		} finally {
+			clearInterval(keepAlive);
+			signal?.removeEventListener("abort", onAbort);
+		}
+	}
+
 	// ============================================
 	// Graph Store Protocol (SPARQL 1.1 GSP)
 	// ============================================
@@ -473,4 +1089,13 @@ export class RepositoryClient {
 	graphStore(): GraphStoreClient {
 		return new GraphStoreClient(this.http, this.repositoryId);
 	}
+
+	// ============================================
+	// SHACL Shapes
+	// ============================================
+
+	/** Get the shapes client for this SHACL repository */
+	shapes(): ShapesClient {
+		return new ShapesClient(this);
+	}
 }
@@ -0,0 +1,355 @@
+import { expect, test } from "bun:test";
+import { RDF4JClient } from "./client.ts";
+import { MockRDF4JServer } from "./mock-server.ts";
+import {
+	buildRepositoryConfig,
+	CONFIG_NAMESPACE,
+	diffRepositoryConfig,
+	parseRepositoryConfig,
+} from "./repository-config.ts";
+import { parseTurtle } from "./turtle.ts";
+import type { RepositoryConfig, RepositoryType } from "./types.ts";
+
+const config = (name: string) => `${CONFIG_NAMESPACE}${name}`;
+
+test("buildRepositoryConfig defaults to a memory store", () => {
+	expect(buildRepositoryConfig({ id: "test", title: 'A "test"' })).toBe(
+		[
+			`@prefix config: <${CONFIG_NAMESPACE}>.`,
+			"@prefix fedx: <http://rdf4j.org/config/federation#>.",
+			"@prefix rdfs: <http://www.w3.org/2000/01/rdf-schema#>.",
+			"",
+			"[] a config:Repository ;",
+			'\tconfig:rep.id "test" ;',
+			'\trdfs:label "A \\"test\\"" ;',
+			"\tconfig:rep.impl [",
+			'\t\tconfig:rep.type "openrdf:SailRepository" ;',
+			"\t\tconfig:sail.impl [",
+			'\t\t\tconfig:sail.type "openrdf:MemoryStore"',
+			"\t\t]",
+			"\t] .",
+			"",
+		].join("\n"),
+	);
+});
+
+test("buildRepositoryConfig stacks sails on the base store", () => {
+	const turtle = buildRepositoryConfig({
+		id: "people",
+		type: "native-shacl",
+		options: {
+			tripleIndexes: ["spoc", "posc", "cosp"],
+			parallelValidation: false,
+			shapesGraphs: ["http://example.org/shapes"],
+		},
+	});
+	expect(turtle).toContain('config:sail.type "rdf4j:ShaclSail" ;');
+	expect(turtle).toContain("config:shacl.parallelValidation false ;");
+	expect(turtle).toContain(
+		"config:shacl.shapesGraph <http://example.org/shapes> ;",
+	);
+	expect(turtle).toContain(
+		[
+			"\t\t\tconfig:delegate [",
+			'\t\t\t\tconfig:sail.type "openrdf:NativeStore" ;',
+			'\t\t\t\tconfig:native.tripleIndexes "spoc,posc,cosp"',
+			"\t\t\t]",
+		].join("\n"),
+	);
+
+	const types = parseTurtle(
+		buildRepositoryConfig({ id: "dt", type: "memory-rdfs-dt" }),
+	)
+		.filter((quad) => quad.predicate.value === config("sail.type"))
+		.map((quad) => quad.object.value);
+	expect(types).toEqual([
+		"openrdf:DirectTypeHierarchyInferencer",
+		"rdf4j:SchemaCachingRDFSInferencer",
+		"openrdf:MemoryStore",
+	]);
+});
+
+test("buildRepositoryConfig produces valid Turtle for every type", () => {
+	const options: { [T in RepositoryType]?: object } = {
+		"memory-customrule": { ruleQuery: "CONSTRUCT WHERE { ?s ?p ?o }" },
+		"native-customrule": { ruleQuery: "CONSTRUCT WHERE { ?s ?p ?o }" },
+		remote: { url: "http://example.org/rdf4j-server/repositories/remote" },
+		sparql: { queryEndpoint: "http://example.org/sparql" },
+		federation: { members: ["a", "b"] },
+	};
+	const types: RepositoryType[] = [
+		"memory",
+		"native",
+		"memory-rdfs",
+		"memory-rdfs-dt",
+		"native-rdfs",
+		"native-rdfs-dt",
+		"memory-shacl",
+		"native-shacl",
+		"memory-spin",
+		"native-spin",
+		"memory-lucene",
+		"native-lucene",
+		"memory-customrule",
+		"native-customrule",
+		"remote",
+		"sparql",
+		"federation",
+	];
+	for (const type of types) {
+		const quads = parseTurtle(
+			buildRepositoryConfig({ id: type, type, options: options[type] }),
+		);
+		expect(
+			quads.find((quad) => quad.predicate.value === config("rep.id"))?.object
+				.value,
+		).toBe(type);
+	}
+});
+
+test("buildRepositoryConfig configures remote, SPARQL and federated repositories", () => {
+	expect(
+		buildRepositoryConfig({
+			id: "remote",
+			type: "remote",
+			options: { url: "http://example.org/repositories/a", username: "me" },
+		}),
+	).toContain(
+		[
+			'\t\tconfig:rep.type "openrdf:HTTPRepository" ;',
+			"\t\tconfig:http.url <http://example.org/repositories/a> ;",
+			'\t\tconfig:http.username "me"',
+		].join("\n"),
+	);
+	expect(
+		buildRepositoryConfig({
+			id: "endpoint",
+			type: "sparql",
+			options: {
+				queryEndpoint: "http://example.org/sparql",
+				updateEndpoint: "http://example.org/update",
+			},
+		}),
+	).toContain("config:sparql.updateEndpoint <http://example.org/update>");
+
+	const federation = buildRepositoryConfig({
+		id: "fed",
+		type: "federation",
+		options: { members: ["a", "b"], queryTimeout: 30 },
+	});
+	expect(federation).toContain('fedx:repositoryName "b"');
+	expect(federation).toContain("fedx:enforceMaxQueryTime 30");
+});
+
+test("buildRepositoryConfig requires the options a type depends on", () => {
+	expect(() =>
+		buildRepositoryConfig({
+			id: "rules",
+			type: "native-customrule",
+			options: {} as { ruleQuery: string },
+		}),
+	).toThrow(TypeError);
+	expect(() =>
+		buildRepositoryConfig({ id: "fed", type: "federation" }),
+	).toThrow("federation repositories require members");
+	expect(() =>
+		buildRepositoryConfig({
+			id: "fed",
+			type: "federation",
+			options: { members: [] },
+		}),
+	).toThrow(TypeError);
+	expect(() => buildRepositoryConfig({ id: "remote", type: "remote" })).toThrow(
+		"remote repositories require a url",
+	);
+	expect(() =>
+		buildRepositoryConfig({ id: "endpoint", type: "sparql" }),
+	).toThrow("sparql repositories require a queryEndpoint");
+});
+
+test("createRepository sends the generated configuration", async () => {
+	const server = new MockRDF4JServer();
+	const client = new RDF4JClient({
+		baseUrl: "http://mock",
+		fetch: server.fetch,
+	});
+
+	await client.createRepository({
+		id: "people",
+		title: "People",
+		type: "memory-rdfs",
+		options: { persist: true },
+	});
+
+	const repository = server.repositories.get("people");
+	expect(repository?.title).toBe("People");
+	expect(repository?.config).toContain("config:mem.persist true");
+});
+
+test("buildRepositoryConfig accepts type names as strings", () => {
+	const sailTypes = (type: string, options?: object) =>
+		parseTurtle(buildRepositoryConfig({ id: "x", type, options }))
+			.filter((quad) => quad.predicate.value === config("sail.type"))
+			.map((quad) => quad.object.value);
+
+	expect(sailTypes("native-rdfs", { forceSync: true })).toEqual([
+		"rdf4j:SchemaCachingRDFSInferencer",
+		"openrdf:NativeStore",
+	]);
+	expect(() => sailTypes("nativ")).toThrow(
+		'Unknown repository type "nativ"; expected one of memory, native,',
+	);
+	expect(() => sailTypes("memory-shacl ")).toThrow(TypeError);
+});
+
+test("parseRepositoryConfig reads back every generated type", () => {
+	const configs: RepositoryConfig[] = [
+		{ id: "mem", type: "memory", options: { persist: true, syncDelay: 100 } },
+		{
+			id: "people",
+			title: "People",
+			type: "native-shacl",
+			options: {
+				tripleIndexes: ["spoc", "posc"],
+				iterationCacheSyncThreshold: 5000,
+				parallelValidation: false,
+				shapesGraphs: ["http://example.org/shapes"],
+			},
+		},
+		{ id: "dt", type: "native-rdfs-dt", options: {} },
+		{ id: "spin", type: "memory-spin", options: {} },
+		{ id: "search", type: "memory-lucene", options: { indexDir: "index" } },
+		{
+			id: "rules",
+			type: "memory-customrule",
+			options: { ruleQuery: "CONSTRUCT WHERE { ?s ?p ?o }" },
+		},
+		{
+			id: "remote",
+			type: "remote",
+			options: { url: "http://example.org/repositories/a", password: "x" },
+		},
+		{
+			id: "fed",
+			type: "federation",
+			options: { members: ["a", "b"], queryTimeout: 30 },
+		},
+	];
+
+	for (const config of configs) {
+		const parsed = parseRepositoryConfig(buildRepositoryConfig(config));
+		expect(parsed).toMatchObject({
+			id: config.id,
+			title: config.title ?? config.id,
+			type: config.type,
+			options: config.options,
+		});
+		expect(diffRepositoryConfig(parsed, config)).toEqual([]);
+	}
+
+	expect(
+		parseRepositoryConfig(
+			buildRepositoryConfig({ id: "dt", type: "native-rdfs-dt" }),
+		).sails,
+	).toEqual([
+		"openrdf:DirectTypeHierarchyInferencer",
+		"rdf4j:SchemaCachingRDFSInferencer",
+		"openrdf:NativeStore",
+	]);
+});
+
+test("parseRepositoryConfig understands the legacy vocabulary", () => {
+	const parsed = parseRepositoryConfig(`
+		@prefix rep: <http://www.openrdf.org/config/repository#>.
+		@prefix sr: <http://www.openrdf.org/config/repository/sail#>.
+		@prefix sail: <http://www.openrdf.org/config/sail#>.
+		@prefix ns: <http://www.openrdf.org/config/sail/native#>.
+		@prefix rdfs: <http://www.w3.org/2000/01/rdf-schema#>.
+
+		[] a rep:Repository ;
+			rep:repositoryID "legacy" ;
+			rdfs:label "Legacy store" ;
+			rep:repositoryImpl [
+				rep:repositoryType "openrdf:SailRepository" ;
+				sr:sailImpl [
+					sail:sailType "openrdf:ForwardChainingRDFSInferencer" ;
+					sail:delegate [
+						sail:sailType "openrdf:NativeStore" ;
+						ns:tripleIndexes "spoc, posc" ;
+						ns:forceSync "true"
+					]
+				]
+			] .
+	`);
+	expect(parsed).toEqual({
+		id: "legacy",
+		title: "Legacy store",
+		type: "native-rdfs",
+		options: { tripleIndexes: ["spoc", "posc"], forceSync: true },
+		sails: ["openrdf:ForwardChainingRDFSInferencer", "openrdf:NativeStore"],
+	});
+});
+
+test("parseRepositoryConfig rejects unknown Sail stacks", () => {
+	const turtle = buildRepositoryConfig({ id: "x" }).replace(
+		"openrdf:MemoryStore",
+		"example:CustomStore",
+	);
+	expect(() => parseRepositoryConfig(turtle)).toThrow(
+		"Unsupported Sail stack: example:CustomStore",
+	);
+});
+
+test("diffRepositoryConfig lists changed settings", () => {
+	expect(
+		diffRepositoryConfig(
+			{ id: "x", type: "native", options: { tripleIndexes: ["spoc"] } },
+			{
+				id: "x",
+				title: "X",
+				type: "native",
+				options: { tripleIndexes: ["spoc", "posc"], forceSync: true },
+			},
+		),
+	).toEqual([
+		{ setting: "title", from: "x", to: "X" },
+		{
+			setting: "options.tripleIndexes",
+			from: ["spoc"],
+			to: ["spoc", "posc"],
+		},
+		{ setting: "options.forceSync", from: undefined, to: true },
+	]);
+});
+
+test("RepositoryClient.updateConfig posts the merged configuration", async () => {
+	const server = new MockRDF4JServer();
+	const client = new RDF4JClient({
+		baseUrl: "http://mock",
+		fetch: server.fetch,
+	});
+	await client.createRepository({
+		id: "people",
+		type: "memory-shacl",
+		options: { persist: true },
+	});
+	const repo = client.repository("people");
+
+	const changes = await repo.updateConfig({
+		title: "People",
+		options: { parallelValidation: false },
+	});
+	expect(changes).toEqual([
+		{ setting: "title", from: "people", to: "People" },
+		{ setting: "options.parallelValidation", from: undefined, to: false },
+	]);
+	expect(server.repositories.get("people")?.title).toBe("People");
+	expect(await repo.getParsedConfig()).toMatchObject({
+		type: "memory-shacl",
+		options: { persist: true, parallelValidation: false },
+	});
+
+	const before = server.repositories.get("people")?.config;
+	expect(await repo.updateConfig({ title: "People" })).toEqual([]);
+	expect(server.repositories.get("people")?.config).toBe(before);
+});
@@ -0,0 +1,792 @@
+import {
+	escapeIri,
+	escapeLiteral,
+	Namespaces,
+	type Quad,
+	type Term,
+} from "./terms.ts";
+import { parseTurtle } from "./turtle.ts";
+import type {
+	RepositoryConfig,
+	RepositoryType,
+	UntypedRepositoryConfig,
+} from "./types.ts";
+
+/** Namespace of RDF4J's repository configuration vocabulary */
+export const CONFIG_NAMESPACE = "tag:rdf4j.org,2023:config/";
+
+const FEDX_NAMESPACE = "http://rdf4j.org/config/federation#";
+
+/**
+ * Options shared by all Sail stores. Sail stores have no query time limit
+ * of their own; only a federation's `queryTimeout` is enforced by the server.
+ */
+export interface SailOptions {
+	/** Number of results kept in memory before query results are synced to disk */
+	iterationCacheSyncThreshold?: number;
+	/** Query evaluation mode (default: `STRICT`) */
+	defaultQueryEvaluationMode?: "STRICT" | "STANDARD";
+}
+
+/** Options for a memory store */
+export interface MemoryStoreOptions extends SailOptions {
+	/** Persist the store to disk */
+	persist?: boolean;
+	/** Delay in milliseconds before changes are written to disk */
+	syncDelay?: number;
+}
+
+/** Options for a native (disk-based) store */
+export interface NativeStoreOptions extends SailOptions {
+	/** Triple indexes to maintain (default: `["spoc", "posc"]`) */
+	tripleIndexes?: string[];
+	/** Sync to disk on every commit */
+	forceSync?: boolean;
+	valueCacheSize?: number;
+	valueIdCacheSize?: number;
+	namespaceCacheSize?: number;
+	namespaceIdCacheSize?: number;
+}
+
+/** Options for a SHACL-validating store */
+export interface ShaclOptions {
+	validationEnabled?: boolean;
+	parallelValidation?: boolean;
+	/** Treat `rdfs:subClassOf` when matching `sh:targetClass` */
+	rdfsSubClassReasoning?: boolean;
+	serializableValidation?: boolean;
+	cacheSelectNodes?: boolean;
+	logValidationPlans?: boolean;
+	logValidationViolations?: boolean;
+	validationResultsLimitTotal?: number;
+	validationResultsLimitPerConstraint?: number;
+	transactionalValidationLimit?: number;
+	/** Graphs holding shapes (default: `rdf4j:SHACLShapeGraph`) */
+	shapesGraphs?: string[];
+}
+
+/** Options for a Lucene full-text search store */
+export interface LuceneOptions {
+	/** Directory of the Lucene index, relative to the repository data dir */
+	indexDir?: string;
+}
+
+/** Options for a custom graph query inferencer */
+export interface CustomRuleOptions {
+	/** SPARQL CONSTRUCT query producing inferred statements */
+	ruleQuery: string;
+	/** SPARQL CONSTRUCT query matching statements the rule depends on */
+	matcherQuery?: string;
+}
+
+/** Options for a proxy to a repository on another RDF4J server */
+export interface RemoteRepositoryOptions {
+	/** URL of the remote repository */
+	url: string;
+	username?: string;
+	password?: string;
+}
+
+/** Options for a repository backed by SPARQL endpoints */
+export interface SparqlRepositoryOptions {
+	queryEndpoint: string;
+	/** Update endpoint (default: read-only) */
+	updateEndpoint?: string;
+}
+
+/** Options for a FedX federation of repositories on the same server */
+export interface FederationOptions {
+	/** IDs of the federated repositories */
+	members: string[];
+	/** Maximum query execution time in seconds (`fedx:enforceMaxQueryTime`) */
+	queryTimeout?: number;
+}
+
+/** Configuration options of each repository type */
+export interface RepositoryTypeOptions {
+	memory: MemoryStoreOptions;
+	native: NativeStoreOptions;
+	"memory-rdfs": MemoryStoreOptions;
+	"memory-rdfs-dt": MemoryStoreOptions;
+	"native-rdfs": NativeStoreOptions;
+	"native-rdfs-dt": NativeStoreOptions;
+	"memory-shacl": MemoryStoreOptions & ShaclOptions;
+	"native-shacl": NativeStoreOptions & ShaclOptions;
+	"memory-spin": MemoryStoreOptions;
+	"native-spin": NativeStoreOptions;
+	"memory-lucene": MemoryStoreOptions & LuceneOptions;
+	"native-lucene": NativeStoreOptions & LuceneOptions;
+	"memory-customrule": MemoryStoreOptions & CustomRuleOptions;
+	"native-customrule": NativeStoreOptions & CustomRuleOptions;
+	remote: RemoteRepositoryOptions;
+	sparql: SparqlRepositoryOptions;
+	federation: FederationOptions;
+}
+
+/** Every repository type, for checking type names given as strings */
+const REPOSITORY_TYPES: Readonly<Record<RepositoryType, true>> = {
+	memory: true,
+	native: true,
+	"memory-rdfs": true,
+	"memory-rdfs-dt": true,
+	"native-rdfs": true,
+	"native-rdfs-dt": true,
+	"memory-shacl": true,
+	"native-shacl": true,
+	"memory-spin": true,
+	"native-spin": true,
+	"memory-lucene": true,
+	"native-lucene": true,
+	"memory-customrule": true,
+	"native-customrule": true,
+	remote: true,
+	sparql: true,
+	federation: true,
+};
+
+/** Check a type name given as a string; omitted types default to `memory` */
+function repositoryType(type: string | undefined): RepositoryType {
+	if (type === undefined) {
+		return "memory";
+	}
+	if (!Object.hasOwn(REPOSITORY_TYPES, type)) {
+		throw new TypeError(
+			`Unknown repository type "${type}"; expected one of ${Object.keys(REPOSITORY_TYPES).join(", ")}`,
+		);
+	}
+	return type as RepositoryType;
+}
+
+/** Object of a configuration property: a literal, an IRI or a nested node */
+type ConfigValue = string | number | boolean | { iri: string } | ConfigNode;
+
+/** Properties of a blank node, as `[predicate, value]` pairs */
+type ConfigNode = Array<[string, ConfigValue | undefined]>;
+
+/**
+ * How an option is written: as a literal, an IRI, repeated IRIs or a
+ * comma-separated list
+ */
+type PropertyKind = "boolean" | "number" | "string" | "iri" | "iris" | "list";
+
+/** Maps each option to its `config:` property and kind */
+type PropertyTable<O> = {
+	[K in keyof O]-?: [name: string, kind: PropertyKind];
+};
+
+const SAIL_PROPERTIES: PropertyTable<SailOptions> = {
+	iterationCacheSyncThreshold: ["sail.iterationCacheSyncThreshold", "number"],
+	defaultQueryEvaluationMode: ["sail.defaultQueryEvaluationMode", "string"],
+};
+
+const MEMORY_PROPERTIES: PropertyTable<MemoryStoreOptions> = {
+	persist: ["mem.persist", "boolean"],
+	syncDelay: ["mem.syncDelay", "number"],
+	...SAIL_PROPERTIES,
+};
+
+const NATIVE_PROPERTIES: PropertyTable<NativeStoreOptions> = {
+	tripleIndexes: ["native.tripleIndexes", "list"],
+	forceSync: ["native.forceSync", "boolean"],
+	valueCacheSize: ["native.valueCacheSize", "number"],
+	valueIdCacheSize: ["native.valueIDCacheSize", "number"],
+	namespaceCacheSize: ["native.namespaceCacheSize", "number"],
+	namespaceIdCacheSize: ["native.namespaceIDCacheSize", "number"],
+	...SAIL_PROPERTIES,
+};
+
+const SHACL_PROPERTIES: PropertyTable<ShaclOptions> = {
+	validationEnabled: ["shacl.validationEnabled", "boolean"],
+	parallelValidation: ["shacl.parallelValidation", "boolean"],
+	rdfsSubClassReasoning: ["shacl.rdfsSubClassReasoning", "boolean"],
+	serializableValidation: ["shacl.serializableValidation", "boolean"],
+	cacheSelectNodes: ["shacl.cacheSelectNodes", "boolean"],
+	logValidationPlans: ["shacl.logValidationPlans", "boolean"],
+	logValidationViolations: ["shacl.logValidationViolations", "boolean"],
+	validationResultsLimitTotal: ["shacl.validationResultsLimitTotal", "number"],
+	validationResultsLimitPerConstraint: [
+		"shacl.validationResultsLimitPerConstraint",
+		"number",
+	],
+	transactionalValidationLimit: [
+		"shacl.transactionalValidationLimit",
+		"number",
+	],
+	shapesGraphs: ["shacl.shapesGraph", "iris"],
+};
+
+const LUCENE_PROPERTIES: PropertyTable<LuceneOptions> = {
+	indexDir: ["lucene.indexDir", "string"],
+};
+
+const CUSTOM_RULE_PROPERTIES: PropertyTable<CustomRuleOptions> = {
+	ruleQuery: ["cgqi.ruleQuery", "string"],
+	matcherQuery: ["cgqi.matcherQuery", "string"],
+};
+
+const REMOTE_PROPERTIES: PropertyTable<RemoteRepositoryOptions> = {
+	url: ["http.url", "iri"],
+	username: ["http.username", "string"],
+	password: ["http.password", "string"],
+};
+
+const SPARQL_PROPERTIES: PropertyTable<SparqlRepositoryOptions> = {
+	queryEndpoint: ["sparql.queryEndpoint", "iri"],
+	updateEndpoint: ["sparql.updateEndpoint", "iri"],
+};
+
+function iri(value: string): { iri: string } {
+	return { iri: value };
+}
+
+/** Write the options of a table as `config:` properties */
+function properties<O extends object>(
+	table: PropertyTable<O>,
+	options: O,
+): ConfigNode {
+	return (
+		Object.entries(table) as Array<[keyof O, [string, PropertyKind]]>
+	).flatMap(([key, [name, kind]]): ConfigNode => {
+		const value = options[key] as ConfigValue | string[] | undefined;
+		const predicate = `config:${name}`;
+		switch (kind) {
+			case "iri":
+				return [
+					[predicate, value === undefined ? undefined : iri(value as string)],
+				];
+			case "iris":
+				return ((value ?? []) as string[]).map((graph) => [
+					predicate,
+					iri(graph),
+				]);
+			case "list":
+				return [[predicate, (value as string[] | undefined)?.join(",")]];
+			default:
+				return [[predicate, value as ConfigValue | undefined]];
+		}
+	});
+}
+
+function sail(type: string, ...properties: ConfigNode): ConfigNode {
+	return [["config:sail.type", type], ...properties];
+}
+
+function rdfsInferencer(delegate: ConfigNode): ConfigNode {
+	return sail("rdf4j:SchemaCachingRDFSInferencer", [
+		"config:delegate",
+		delegate,
+	]);
+}
+
+/** The Sail stack of a Sail-based repository type */
+function sailStack(
+	type: Exclude<RepositoryType, "remote" | "sparql" | "federation">,
+	options: RepositoryTypeOptions[typeof type],
+): ConfigNode {
+	const [base, variant] = type.split(/-(.*)/) as ["memory" | "native", string?];
+	const store =
+		base === "memory"
+			? sail(
+					"openrdf:MemoryStore",
+					...properties(MEMORY_PROPERTIES, options as MemoryStoreOptions),
+				)
+			: sail(
+					"openrdf:NativeStore",
+					...properties(NATIVE_PROPERTIES, options as NativeStoreOptions),
+				);
+
+	switch (variant) {
+		case undefined:
+			return store;
+		case "rdfs":
+			return rdfsInferencer(store);
+		case "rdfs-dt":
+			return sail("openrdf:DirectTypeHierarchyInferencer", [
+				"config:delegate",
+				rdfsInferencer(store),
+			]);
+		case "shacl":
+			return sail(
+				"rdf4j:ShaclSail",
+				...properties(SHACL_PROPERTIES, options as ShaclOptions),
+				["config:delegate", store],
+			);
+		case "spin":
+			return sail("openrdf:SpinSail", [
+				"config:delegate",
+				rdfsInferencer(store),
+			]);
+		case "lucene":
+			return sail(
+				"openrdf:LuceneSail",
+				...properties(LUCENE_PROPERTIES, options as LuceneOptions),
+				["config:delegate", store],
+			);
+		case "customrule": {
+			const rule = options as CustomRuleOptions;
+			if (!rule.ruleQuery) {
+				throw new TypeError(`${type} repositories require a ruleQuery`);
+			}
+			return sail(
+				"openrdf:CustomGraphQueryInferencer",
+				["config:cgqi.queryLanguage", "SPARQL"],
+				...properties(CUSTOM_RULE_PROPERTIES, rule),
+				["config:delegate", store],
+			);
+		}
+		default:
+			throw new TypeError(`Unknown repository type: ${type}`);
+	}
+}
+
+/** The `config:rep.impl` node of a repository type */
+function repositoryImpl<T extends RepositoryType>(
+	type: T,
+	options: RepositoryTypeOptions[T],
+): ConfigNode {
+	switch (type) {
+		case "remote": {
+			const remote = options as RemoteRepositoryOptions;
+			if (!remote.url) {
+				throw new TypeError("remote repositories require a url");
+			}
+			return [
+				["config:rep.type", "openrdf:HTTPRepository"],
+				...properties(REMOTE_PROPERTIES, remote),
+			];
+		}
+		case "sparql": {
+			const endpoint = options as SparqlRepositoryOptions;
+			if (!endpoint.queryEndpoint) {
+				throw new TypeError("sparql repositories require a queryEndpoint");
+			}
+			return [
+				["config:rep.type", "openrdf:SPARQLRepository"],
+				...properties(SPARQL_PROPERTIES, endpoint),
+			];
+		}
+		case "federation": {
+			const federation = options as FederationOptions;
+			if (
+				!Array.isArray(federation.members) ||
+				federation.members.length === 0
+			) {
+				throw new TypeError("federation repositories require members");
+			}
+			return [
+				["config:rep.type", "fedx:FedXRepository"],
+				...federation.members.map((member): [string, ConfigValue] => [
+					"fedx:member",
+					[
+						["fedx:store", "ResolvableRepository"],
+						["fedx:repositoryName", member],
+					],
+				]),
+				[
+					"fedx:config",
+					federation.queryTimeout === undefined
+						? undefined
+						: [["fedx:enforceMaxQueryTime", federation.queryTimeout]],
+				],
+			];
+		}
+		default:
+			return [
+				["config:rep.type", "openrdf:SailRepository"],
+				[
+					"config:sail.impl",
+					sailStack(
+						type as Parameters<typeof sailStack>[0],
+						options as Parameters<typeof sailStack>[1],
+					),
+				],
+			];
+	}
+}
+
+function serializeValue(value: ConfigValue, indent: string): string {
+	switch (typeof value) {
+		case "string":
+			return `"${escapeLiteral(value)}"`;
+		case "number":
+			if (!Number.isSafeInteger(value)) {
+				throw new TypeError(`Expected an integer, got ${value}`);
+			}
+			return String(value);
+		case "boolean":
+			return String(value);
+	}
+	if (!Array.isArray(value)) {
+		return `<${escapeIri(value.iri)}>`;
+	}
+	return `[\n${serializeNode(value, `${indent}\t`)}\n${indent}]`;
+}
+
+function serializeNode(node: ConfigNode, indent: string): string {
+	return node
+		.filter((entry): entry is [string, ConfigValue] => entry[1] !== undefined)
+		.map(
+			([predicate, value]) =>
+				`${indent}${predicate} ${serializeValue(value, indent)}`,
+		)
+		.join(" ;\n");
+}
+
+/**
+ * Build a repository configuration in Turtle, using RDF4J's `config:`
+ * vocabulary. Sail-based types stack inferencers, SHACL validation or
+ * Lucene search on a memory or native store configured by `options`.
+ *
+ * ```ts
+ * buildRepositoryConfig({
+ *   id: "people",
+ *   type: "native-shacl",
+ *   options: { tripleIndexes: ["spoc", "posc", "cosp"], parallelValidation: false },
+ * });
+ * ```
+ */
+export function buildRepositoryConfig<T extends RepositoryType>(
+	config: RepositoryConfig<T>,
+): string;
+export function buildRepositoryConfig(config: UntypedRepositoryConfig): string;
+export function buildRepositoryConfig(
+	config: RepositoryConfig | UntypedRepositoryConfig,
+): string {
+	const type = repositoryType(config.type);
+	const options = (config.options ?? {}) as RepositoryTypeOptions[typeof type];
+	const repository: ConfigNode = [
+		["config:rep.id", config.id],
+		["rdfs:label", config.title ?? config.id],
+		["config:rep.impl", repositoryImpl(type, options)],
+	];
+
+	return [
+		`@prefix config: <${CONFIG_NAMESPACE}>.`,
+		`@prefix fedx: <${FEDX_NAMESPACE}>.`,
+		`@prefix rdfs: <${Namespaces.RDFS}>.`,
+		"",
+		"[] a config:Repository ;",
+		`${serializeNode(repository, "\t")} .`,
+		"",
+	].join("\n");
+}
+
+/** A repository configuration read back from the server */
+export type ParsedRepositoryConfig = {
+	[T in RepositoryType]: {
+		id: string;
+		title?: string;
+		type: T;
+		options: RepositoryTypeOptions[T];
+		/** Sail types from the outermost sail to the base store */
+		sails: string[];
+	};
+}[RepositoryType];
+
+/** A setting that differs between two configurations */
+export interface RepositoryConfigChange {
+	/** `title`, `type` or `options.<name>` */
+	setting: string;
+	from: unknown;
+	to: unknown;
+}
+
+/** Pre-4.3 predicates whose local name does not follow the `config:` name */
+const LEGACY_NAMES: Readonly<Record<string, string>> = {
+	"http://www.openrdf.org/config/repository#repositoryID": "rep.id",
+	"http://www.openrdf.org/config/repository#repositoryImpl": "rep.impl",
+	"http://www.openrdf.org/config/repository#repositoryType": "rep.type",
+	"http://www.openrdf.org/config/repository/sail#sailImpl": "sail.impl",
+	"http://www.openrdf.org/config/sail#sailType": "sail.type",
+	"http://www.openrdf.org/config/sail#delegate": "delegate",
+	"http://www.openrdf.org/config/repository/http#repositoryURL": "http.url",
+	"http://www.openrdf.org/config/repository/sparql#query-endpoint":
+		"sparql.queryEndpoint",
+	"http://www.openrdf.org/config/repository/sparql#update-endpoint":
+		"sparql.updateEndpoint",
+};
+
+/** Pre-4.3 namespaces and the `config:` name prefix of their properties */
+const LEGACY_NAMESPACES: Readonly<Record<string, string>> = {
+	"http://www.openrdf.org/config/sail#": "sail",
+	"http://www.openrdf.org/config/sail/memory#": "mem",
+	"http://www.openrdf.org/config/sail/native#": "native",
+	"http://rdf4j.org/config/sail/shacl#": "shacl",
+	"http://www.openrdf.org/config/sail/lucene#": "lucene",
+	"http://www.openrdf.org/config/sail/customGraphQueryInferencer#": "cgqi",
+	"http://www.openrdf.org/config/repository/http#": "http",
+};
+
+/** Base stores and the repository type prefix they stand for */
+const BASE_STORES: Readonly<Record<string, "memory" | "native">> = {
+	"openrdf:MemoryStore": "memory",
+	"openrdf:NativeStore": "native",
+};
+
+/** Sails stacked on the base store and the type suffix they stand for */
+const SAIL_VARIANTS: Readonly<Record<string, string>> = {
+	"": "",
+	rdfs: "-rdfs",
+	"openrdf:DirectTypeHierarchyInferencer rdfs": "-rdfs-dt",
+	"rdf4j:ShaclSail": "-shacl",
+	"openrdf:SpinSail rdfs": "-spin",
+	"openrdf:LuceneSail": "-lucene",
+	"openrdf:CustomGraphQueryInferencer": "-customrule",
+};
+
+/** Options read from the outermost sail of a variant */
+const VARIANT_PROPERTIES: Readonly<Record<string, PropertyTable<object>>> = {
+	"-shacl": SHACL_PROPERTIES,
+	"-lucene": LUCENE_PROPERTIES,
+	"-customrule": CUSTOM_RULE_PROPERTIES,
+};
+
+const RDFS_INFERENCERS: ReadonlySet<string> = new Set([
+	"rdf4j:SchemaCachingRDFSInferencer",
+	"openrdf:ForwardChainingRDFSInferencer",
+]);
+
+/**
+ * The `config:` name of a predicate, `fedx:` name of FedX properties or
+ * `label` for `rdfs:label`
+ */
+function configName(predicate: string): string | undefined {
+	if (predicate === `${Namespaces.RDFS}label`) {
+		return "label";
+	}
+	if (predicate.startsWith(CONFIG_NAMESPACE)) {
+		return predicate.slice(CONFIG_NAMESPACE.length);
+	}
+	if (predicate.startsWith(FEDX_NAMESPACE)) {
+		return `fedx:${predicate.slice(FEDX_NAMESPACE.length)}`;
+	}
+	const legacy = LEGACY_NAMES[predicate];
+	if (legacy !== undefined) {
+		return legacy;
+	}
+	const hash = predicate.lastIndexOf("#") + 1;
+	const prefix = LEGACY_NAMESPACES[predicate.slice(0, hash)];
+	return prefix === undefined
+		? undefined
+		: `${prefix}.${predicate.slice(hash)}`;
+}
+
+/** Objects of each configuration property, by subject */
+class ConfigGraph {
+	private readonly nodes = new Map<string, Map<string, Term[]>>();
+
+	constructor(quads: Iterable<Quad>) {
+		for (const { subject, predicate, object } of quads) {
+			const name = configName(predicate.value);
+			if (name === undefined) {
+				continue;
+			}
+			let node = this.nodes.get(subject.value);
+			if (!node) {
+				node = new Map();
+				this.nodes.set(subject.value, node);
+			}
+			node.set(name, [...(node.get(name) ?? []), object]);
+		}
+	}
+
+	/** Subjects having a property */
+	subjects(name: string): string[] {
+		return [...this.nodes]
+			.filter(([, node]) => node.has(name))
+			.map(([subject]) => subject);
+	}
+
+	values(subject: string | undefined, name: string): Term[] {
+		return subject === undefined
+			? []
+			: (this.nodes.get(subject)?.get(name) ?? []);
+	}
+
+	value(subject: string | undefined, name: string): string | undefined {
+		return this.values(subject, name)[0]?.value;
+	}
+
+	/** Read the options of a table from a node */
+	options<O extends object>(table: PropertyTable<O>, subject: string): O {
+		const options: Record<string, unknown> = {};
+		for (const [key, [name, kind]] of Object.entries(table) as Array<
+			[string, [string, PropertyKind]]
+		>) {
+			const values = this.values(subject, name).map((term) => term.value);
+			const [value] = values;
+			if (value === undefined) {
+				continue;
+			}
+			switch (kind) {
+				case "boolean":
+					options[key] = value === "true";
+					break;
+				case "number":
+					options[key] = Number(value);
+					if (!Number.isFinite(options[key])) {
+						throw new TypeError(`Invalid number for config:${name}: ${value}`);
+					}
+					break;
+				case "iris":
+					options[key] = values;
+					break;
+				case "list":
+					options[key] = value
+						.split(",")
+						.map((item) => item.trim())
+						.filter(Boolean);
+					break;
+				default:
+					options[key] = value;
+			}
+		}
+		return options as O;
+	}
+}
+
+function readSailRepository(
+	graph: ConfigGraph,
+	impl: string,
+	common: { id: string; title?: string },
+): ParsedRepositoryConfig {
+	const nodes: string[] = [];
+	for (
+		let node = graph.value(impl, "sail.impl");
+		node !== undefined;
+		node = graph.value(node, "delegate")
+	) {
+		nodes.push(node);
+	}
+	const sails = nodes.map((node) => graph.value(node, "sail.type") ?? "");
+	const base = BASE_STORES[sails.at(-1) ?? ""];
+	const variant =
+		SAIL_VARIANTS[
+			sails
+				.slice(0, -1)
+				.map((type) => (RDFS_INFERENCERS.has(type) ? "rdfs" : type))
+				.join(" ")
+		];
+	if (base === undefined || variant === undefined) {
+		throw new TypeError(`Unsupported Sail stack: ${sails.join(" > ")}`);
+	}
+	const outer = nodes[0] ?? "";
+	const store = nodes.at(-1) ?? "";
+
+	const type = `${base}${variant}` as Exclude<
+		RepositoryType,
+		"remote" | "sparql" | "federation"
+	>;
+	const options: object =
+		base === "memory"
+			? graph.options(MEMORY_PROPERTIES, store)
+			: graph.options(NATIVE_PROPERTIES, store);
+	const variantTable = VARIANT_PROPERTIES[variant];
+	return {
+		...common,
+		type,
+		options: variantTable
+			? { ...options, ...graph.options<object>(variantTable, outer) }
+			: options,
+		sails,
+	} as ParsedRepositoryConfig;
+}
+
+function readFederation(graph: ConfigGraph, impl: string): FederationOptions {
+	const timeout = graph.value(
+		graph.value(impl, "fedx:config"),
+		"fedx:enforceMaxQueryTime",
+	);
+	return {
+		members: graph
+			.values(impl, "fedx:member")
+			.flatMap(
+				(member) => graph.value(member.value, "fedx:repositoryName") ?? [],
+			),
+		...(timeout === undefined ? {} : { queryTimeout: Number(timeout) }),
+	};
+}
+
+/**
+ * Parse a repository configuration, as returned by
+ * `RepositoryClient.getConfig`, into its type and options. Both the
+ * `config:` vocabulary and the pre-4.3 vocabulary are understood.
+ */
+export function parseRepositoryConfig(
+	config: string | Iterable<Quad>,
+): ParsedRepositoryConfig {
+	const graph = new ConfigGraph(
+		typeof config === "string" ? parseTurtle(config) : config,
+	);
+	const [repository] = graph.subjects("rep.id");
+	const id = graph.value(repository, "rep.id");
+	if (repository === undefined || id === undefined) {
+		throw new TypeError("No repository found in the configuration");
+	}
+	const title = graph.value(repository, "label");
+	const impl = graph.value(repository, "rep.impl");
+	const repositoryType = graph.value(impl, "rep.type");
+	const common = {
+		id,
+		...(title === undefined ? {} : { title }),
+	};
+
+	switch (repositoryType) {
+		case "openrdf:SailRepository":
+			return readSailRepository(graph, impl ?? "", common);
+		case "openrdf:HTTPRepository":
+			return {
+				...common,
+				type: "remote",
+				options: graph.options(REMOTE_PROPERTIES, impl ?? ""),
+				sails: [],
+			};
+		case "openrdf:SPARQLRepository":
+			return {
+				...common,
+				type: "sparql",
+				options: graph.options(SPARQL_PROPERTIES, impl ?? ""),
+				sails: [],
+			};
+		case "fedx:FedXRepository":
+			return {
+				...common,
+				type: "federation",
+				options: readFederation(graph, impl ?? ""),
+				sails: [],
+			};
+		default:
+			throw new TypeError(`Unsupported repository type: ${repositoryType}`);
+	}
+}
+
+function sameSetting(a: unknown, b: unknown): boolean {
+	return Array.isArray(a) || Array.isArray(b)
+		? JSON.stringify(a) === JSON.stringify(b)
+		: a === b;
+}
+
+/**
+ * List the settings that differ between two configurations. Titles default
+ * to the repository ID and types to `memory`, as in `buildRepositoryConfig`.
+ */
+export function diffRepositoryConfig(
+	current: RepositoryConfig,
+	desired: RepositoryConfig,
+): RepositoryConfigChange[] {
+	const changes: RepositoryConfigChange[] = [];
+	const compare = (setting: string, from: unknown, to: unknown) => {
+		if (!sameSetting(from, to)) {
+			changes.push({ setting, from, to });
+		}
+	};
+	compare("title", current.title ?? current.id, desired.title ?? desired.id);
+	compare("type", current.type ?? "memory", desired.type ?? "memory");
+
+	const from = (current.options ?? {}) as Record<string, unknown>;
+	const to = (desired.options ?? {}) as Record<string, unknown>;
+	for (const key of new Set([...Object.keys(from), ...Object.keys(to)])) {
+		compare(`options.${key}`, from[key], to[key]);
+	}
+	return changes;
+}
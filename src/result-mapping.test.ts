@@ -0,0 +1,166 @@
+import { expect, test } from "bun:test";
+import type { SparqlBindings } from "./repository-client.ts";
+import { mapBindings, mapRows, toNativeValue } from "./result-mapping.ts";
+import { Literal, NamedNode, Namespaces } from "./terms.ts";
+import { ResultMappingError } from "./types.ts";
+
+const XSD = Namespaces.XSD;
+
+function typed(value: string, datatype: string) {
+	return { type: "literal" as const, value, datatype: XSD + datatype };
+}
+
+const result: SparqlBindings<"person" | "name" | "age" | "born" | "label"> = {
+	head: { vars: ["person", "name", "age", "born", "label"] },
+	results: {
+		bindings: [
+			{
+				person: { type: "uri", value: "http://example.org/alice" },
+				name: { type: "literal", value: "Alice" },
+				age: typed("42", "integer"),
+				born: typed("1982-03-04T05:06:07Z", "dateTime"),
+				label: { type: "literal", value: "Alicia", "xml:lang": "es" },
+			},
+			{
+				person: { type: "uri", value: "http://example.org/bob" },
+				name: { type: "literal", value: "Bob" },
+			},
+		],
+	},
+};
+
+test("toNativeValue converts XSD datatypes", () => {
+	expect(toNativeValue(typed("-7", "int"))).toBe(-7);
+	expect(toNativeValue(typed("12345678901234567890", "integer"))).toBe(
+		12345678901234567890n,
+	);
+	expect(toNativeValue(typed("1.50", "decimal"))).toBe(1.5);
+	expect(toNativeValue(typed("-INF", "double"))).toBe(Number.NEGATIVE_INFINITY);
+	expect(toNativeValue(typed("1", "boolean"))).toBe(true);
+	expect(toNativeValue(typed("2024-01-02", "date"))).toEqual(
+		new Date("2024-01-02T00:00:00Z"),
+	);
+	expect(toNativeValue(typed("x", "string"))).toBe("x");
+	expect(toNativeValue({ type: "uri", value: "http://ex/a" })).toEqual(
+		new NamedNode("http://ex/a"),
+	);
+	expect(toNativeValue(typed("P1D", "duration"))).toEqual(
+		new Literal("P1D", "", new NamedNode(`${XSD}duration`)),
+	);
+	expect(() => toNativeValue(typed("abc", "integer"))).toThrow(
+		ResultMappingError,
+	);
+});
+
+test("toNativeValue reads dates without a timezone as UTC", () => {
+	const tz = process.env.TZ;
+	process.env.TZ = "America/New_York";
+	try {
+		expect(toNativeValue(typed("2024-07-01", "date"))).toEqual(
+			new Date("2024-07-01T00:00:00Z"),
+		);
+		expect(toNativeValue(typed("2024-01-15T23:30:00", "dateTime"))).toEqual(
+			new Date("2024-01-15T23:30:00Z"),
+		);
+	} finally {
+		if (tz === undefined) {
+			delete process.env.TZ;
+		} else {
+			process.env.TZ = tz;
+		}
+	}
+});
+
+test("toNativeValue parses XSD date and time lexical forms", () => {
+	expect(toNativeValue(typed("2024-01-15+02:00", "date"))).toEqual(
+		new Date("2024-01-14T22:00:00Z"),
+	);
+	expect(toNativeValue(typed("2024-01-15Z", "date"))).toEqual(
+		new Date("2024-01-15T00:00:00Z"),
+	);
+	expect(
+		toNativeValue(typed("2024-01-15T10:20:30.1234-05:30", "dateTime")),
+	).toEqual(new Date("2024-01-15T15:50:30.123Z"));
+	expect(toNativeValue(typed("2024-01-15T10:20:30", "dateTime"))).toEqual(
+		new Date("2024-01-15T10:20:30Z"),
+	);
+	expect(toNativeValue(typed("2024-02-29T24:00:00Z", "dateTime"))).toEqual(
+		new Date("2024-03-01T00:00:00Z"),
+	);
+	const early = toNativeValue(typed("0042-06-01Z", "date")) as Date;
+	expect(early.getUTCFullYear()).toBe(42);
+
+	for (const [value, datatype] of [
+		["March 7 2020", "dateTime"],
+		["2020-03-07", "dateTime"],
+		["2020-03-07T10:00:00", "date"],
+		["2023-02-29", "date"],
+		["2024-13-01", "date"],
+		["2024-01-15T25:00:00Z", "dateTime"],
+		["2024-01-15T10:00:00+15:00", "dateTime"],
+		["2024-01-15T10:00:00", "dateTimeStamp"],
+	] as const) {
+		expect(() => toNativeValue(typed(value, datatype))).toThrow(
+			ResultMappingError,
+		);
+	}
+});
+
+test("mapBindings converts rows and honours custom converters", () => {
+	const rows = mapBindings(result, {
+		converters: { [`${XSD}integer`]: (value) => `age ${value}` },
+	});
+
+	expect(rows[0]?.age).toBe("age 42");
+	expect(rows[0]?.born).toEqual(new Date("1982-03-04T05:06:07Z"));
+	expect(rows[0]?.label).toEqual(new Literal("Alicia", "es"));
+	expect(rows[1]).toEqual({
+		person: new NamedNode("http://example.org/bob"),
+		name: "Bob",
+	});
+});
+
+test("mapRows validates rows against a schema", () => {
+	interface Person {
+		id: NamedNode;
+		name: string;
+		age?: number;
+		born: Date | undefined;
+	}
+	const people: Person[] = mapRows(result, {
+		id: { type: "iri", variable: "person" },
+		name: "string",
+		age: { type: "number", optional: true },
+		born: (term) => (term ? new Date(term.value) : undefined),
+	});
+
+	expect(people).toEqual([
+		{
+			id: new NamedNode("http://example.org/alice"),
+			name: "Alice",
+			age: 42,
+			born: new Date("1982-03-04T05:06:07Z"),
+		},
+		{
+			id: new NamedNode("http://example.org/bob"),
+			name: "Bob",
+			age: undefined,
+			born: undefined,
+		},
+	]);
+});
+
+test("mapRows reports missing and mistyped values", () => {
+	expect(() => mapRows(result, { age: "number" })).toThrow(
+		new ResultMappingError("Missing value for ?age", "age", 1),
+	);
+
+	try {
+		mapRows(result, { name: "boolean" });
+		throw new Error("expected a mapping error");
+	} catch (error) {
+		expect(error).toBeInstanceOf(ResultMappingError);
+		expect((error as ResultMappingError).variable).toBe("name");
+		expect((error as ResultMappingError).row).toBe(0);
+	}
+});
@@ -0,0 +1,427 @@
+import type { SparqlBindings } from "./repository-client.ts";
+import {
+	type BlankNode,
+	fromSparqlTerm,
+	type Literal,
+	NamedNode,
+	Namespaces,
+	type SparqlTerm,
+} from "./terms.ts";
+import { ResultMappingError } from "./types.ts";
+
+/** A SPARQL term converted to a native JavaScript value */
+export type NativeValue =
+	| string
+	| number
+	| bigint
+	| boolean
+	| Date
+	| NamedNode
+	| BlankNode
+	| Literal;
+
+/** Converts the lexical form of a literal with a given datatype */
+export type DatatypeConverter = (
+	value: string,
+	term: SparqlTerm,
+) => NativeValue;
+
+/** Literal converters keyed by datatype IRI */
+export type DatatypeConverters = Record<string, DatatypeConverter>;
+
+/** Options for mapping results to native values */
+export interface ResultMappingOptions {
+	/** Converters to use in addition to (or instead of) `xsdConverters` */
+	converters?: DatatypeConverters;
+}
+
+/** A solution with native values; unbound variables are absent */
+export type NativeRow<V extends string = string> = {
+	[K in V]?: NativeValue;
+};
+
+const XSD = Namespaces.XSD;
+
+const INTEGER = /^[+-]?\d+$/;
+const DECIMAL = /^[+-]?(?:\d+(?:\.\d*)?|\.\d+)$/;
+const DOUBLE =
+	/^(?:[+-]?(?:\d+(?:\.\d*)?|\.\d+)(?:[eE][+-]?\d+)?|[+-]?INF|NaN)$/;
+
+function invalid(value: string, term: SparqlTerm): ResultMappingError {
+	return new ResultMappingError(
+		`Invalid literal "${value}" for datatype ${term.datatype}`,
+	);
+}
+
+/** Integers that fit in a double become numbers, larger ones bigints */
+const toInteger: DatatypeConverter = (value, term) => {
+	if (!INTEGER.test(value)) {
+		throw invalid(value, term);
+	}
+	const number = Number(value);
+	return Number.isSafeInteger(number) ? number : BigInt(value);
+};
+
+const toDecimal: DatatypeConverter = (value, term) => {
+	if (!DECIMAL.test(value)) {
+		throw invalid(value, term);
+	}
+	return Number(value);
+};
+
+const toDouble: DatatypeConverter = (value, term) => {
+	if (!DOUBLE.test(value)) {
+		throw invalid(value, term);
+	}
+	return value.endsWith("INF")
+		? value.startsWith("-")
+			? Number.NEGATIVE_INFINITY
+			: Number.POSITIVE_INFINITY
+		: Number(value);
+};
+
+const toBoolean: DatatypeConverter = (value, term) => {
+	if (value === "true" || value === "1") {
+		return true;
+	}
+	if (value === "false" || value === "0") {
+		return false;
+	}
+	throw invalid(value, term);
+};
+
+const DATE = /^(-?\d{4,})-(\d{2})-(\d{2})(Z|[+-]\d{2}:\d{2})?$/;
+const DATE_TIME =
+	/^(-?\d{4,})-(\d{2})-(\d{2})T(\d{2}):(\d{2}):(\d{2})(?:\.(\d+))?(Z|[+-]\d{2}:\d{2})?$/;
+
+function daysInMonth(year: number, month: number): number {
+	if (month === 2) {
+		const leap = year % 4 === 0 && (year % 100 !== 0 || year % 400 === 0);
+		return leap ? 29 : 28;
+	}
+	return [4, 6, 9, 11].includes(month) ? 30 : 31;
+}
+
+/** Offset of a timezone in minutes, or undefined if it is out of range */
+function zoneOffset(zone: string): number | undefined {
+	if (zone === "Z") {
+		return 0;
+	}
+	const hours = Number(zone.slice(1, 3));
+	const minutes = Number(zone.slice(4));
+	if (minutes > 59 || hours * 60 + minutes > 14 * 60) {
+		return undefined;
+	}
+	return (zone.startsWith("-") ? -1 : 1) * (hours * 60 + minutes);
+}
+
+/**
+ * Parse the lexical form of an `xsd:date` or `xsd:dateTime`. Values
+ * without a timezone are interpreted as UTC, so that results do not depend
+ * on the timezone of the host.
+ */
+function parseXsdDate(
+	value: string,
+	pattern: RegExp,
+	requireZone: boolean,
+): Date | undefined {
+	const match = pattern.exec(value);
+	if (!match) {
+		return undefined;
+	}
+	const [year, month, day] = match.slice(1, 4).map(Number) as [
+		number,
+		number,
+		number,
+	];
+	const time = pattern === DATE_TIME;
+	const [hour = 0, minute = 0, second = 0] = time
+		? match.slice(4, 7).map(Number)
+		: [];
+	const fraction = (time && match[7]) || "";
+	const zone = match[time ? 8 : 4];
+	if (
+		month < 1 ||
+		month > 12 ||
+		day < 1 ||
+		day > daysInMonth(year, month) ||
+		minute > 59 ||
+		second > 59 ||
+		hour > 24 ||
+		(hour === 24 && (minute > 0 || second > 0 || /[1-9]/.test(fraction))) ||
+		(requireZone && zone === undefined)
+	) {
+		return undefined;
+	}
+	const milliseconds = Number(fraction.padEnd(3, "0").slice(0, 3));
+
+	const offset = zone === undefined ? 0 : zoneOffset(zone);
+	if (offset === undefined) {
+		return undefined;
+	}
+	// setUTCFullYear keeps years below 100 that the Date constructor would shift
+	const date = new Date(0);
+	date.setUTCFullYear(year, month - 1, day);
+	date.setUTCHours(hour, minute - offset, second, milliseconds);
+	return date;
+}
+
+function dateConverter(
+	pattern: RegExp,
+	requireZone = false,
+): DatatypeConverter {
+	return (value, term) => {
+		const date = parseXsdDate(value, pattern, requireZone);
+		if (date === undefined) {
+			throw invalid(value, term);
+		}
+		return date;
+	};
+}
+
+const INTEGER_TYPES = [
+	"integer",
+	"long",
+	"int",
+	"short",
+	"byte",
+	"nonNegativeInteger",
+	"positiveInteger",
+	"nonPositiveInteger",
+	"negativeInteger",
+	"unsignedLong",
+	"unsignedInt",
+	"unsignedShort",
+	"unsignedByte",
+];
+
+/**
+ * Default converters: XSD integer types become numbers (bigints beyond
+ * the safe integer range), decimals and floating point types become
+ * numbers, booleans become booleans and dates become `Date`s
+ */
+export const xsdConverters: Readonly<DatatypeConverters> = {
+	...Object.fromEntries(INTEGER_TYPES.map((name) => [XSD + name, toInteger])),
+	[`${XSD}decimal`]: toDecimal,
+	[`${XSD}double`]: toDouble,
+	[`${XSD}float`]: toDouble,
+	[`${XSD}boolean`]: toBoolean,
+	[`${XSD}dateTime`]: dateConverter(DATE_TIME),
+	[`${XSD}dateTimeStamp`]: dateConverter(DATE_TIME, true),
+	[`${XSD}date`]: dateConverter(DATE),
+	[`${XSD}string`]: (value) => value,
+};
+
+/**
+ * Convert a SPARQL term to a native value. IRIs become named nodes, literals
+ * with a known datatype are converted, plain literals become strings, and
+ * language-tagged or unknown literals are kept as `Literal` terms.
+ */
+export function toNativeValue(
+	term: SparqlTerm,
+	converters: Readonly<DatatypeConverters> = xsdConverters,
+): NativeValue {
+	if (term.type !== "literal" || term["xml:lang"]) {
+		return fromSparqlTerm(term);
+	}
+	if (term.datatype === undefined) {
+		return term.value;
+	}
+	const convert = converters[term.datatype];
+	return convert ? convert(term.value, term) : fromSparqlTerm(term);
+}
+
+function mergeConverters(
+	options?: ResultMappingOptions,
+): Readonly<DatatypeConverters> {
+	return options?.converters
+		? { ...xsdConverters, ...options.converters }
+		: xsdConverters;
+}
+
+/** Convert SELECT results into rows of native values */
+export function mapBindings<V extends string>(
+	result: SparqlBindings<V>,
+	options?: ResultMappingOptions,
+): NativeRow<V>[] {
+	const converters = mergeConverters(options);
+	return result.results.bindings.map((binding, row) => {
+		const native: NativeRow<V> = {};
+		for (const [name, term] of Object.entries(binding) as [
+			V,
+			SparqlTerm | undefined,
+		][]) {
+			if (term !== undefined) {
+				native[name] = withContext(
+					() => toNativeValue(term, converters),
+					name,
+					row,
+				);
+			}
+		}
+		return native;
+	});
+}
+
+/** Value types a schema field can require */
+export interface FieldTypes {
+	string: string;
+	number: number;
+	bigint: bigint;
+	boolean: boolean;
+	date: Date;
+	iri: NamedNode;
+	literal: Literal;
+	term: NamedNode | BlankNode | Literal;
+}
+
+/** The type of a schema field */
+export type FieldType = keyof FieldTypes;
+
+/** Custom field mapping from the (possibly unbound) term */
+export type FieldParser<T = unknown> = (term: SparqlTerm | undefined) => T;
+
+/** A schema field: a type, a type with options, or a custom parser */
+export type FieldSpec =
+	| FieldType
+	| {
+			type: FieldType;
+			/** Allow the variable to be unbound */
+			optional?: boolean;
+			/** Variable to read (default: the field name) */
+			variable?: string;
+	  }
+	| FieldParser;
+
+/** Maps row fields to the variables and types they are read from */
+export type ResultSchema = Record<string, FieldSpec>;
+
+/** The row type described by a schema */
+export type SchemaRow<S extends ResultSchema> = {
+	[K in keyof S]: S[K] extends FieldType
+		? FieldTypes[S[K]]
+		: S[K] extends { type: infer T extends FieldType; optional: true }
+			? FieldTypes[T] | undefined
+			: S[K] extends { type: infer T extends FieldType }
+				? FieldTypes[T]
+				: S[K] extends FieldParser<infer R>
+					? R
+					: never;
+};
+
+function mismatch(
+	variable: string,
+	expected: FieldType,
+	term: SparqlTerm,
+): ResultMappingError {
+	return new ResultMappingError(
+		`Expected ${expected} for ?${variable}, got ${term.type} "${term.value}"`,
+		variable,
+	);
+}
+
+function mapField(
+	variable: string,
+	type: FieldType,
+	term: SparqlTerm,
+	converters: Readonly<DatatypeConverters>,
+): FieldTypes[FieldType] {
+	switch (type) {
+		case "iri":
+			if (term.type === "uri") {
+				return new NamedNode(term.value);
+			}
+			break;
+		case "term":
+			return fromSparqlTerm(term);
+		case "literal":
+		case "string":
+			if (term.type === "literal") {
+				return type === "string" ? term.value : fromSparqlTerm(term);
+			}
+			break;
+		case "bigint":
+			if (term.type === "literal" && INTEGER.test(term.value)) {
+				return BigInt(term.value);
+			}
+			break;
+		default: {
+			const value = toNativeValue(term, converters);
+			if (
+				(type === "date" && value instanceof Date) ||
+				(type !== "date" && typeof value === type)
+			) {
+				return value as FieldTypes[FieldType];
+			}
+		}
+	}
+	throw mismatch(variable, type, term);
+}
+
+/**
+ * Convert SELECT results into rows described by a schema, validating that
+ * every required variable is bound to a value of the expected type:
+ *
+ * ```ts
+ * const people = mapRows(result, {
+ *   id: "iri",
+ *   name: "string",
+ *   age: { type: "number", optional: true },
+ * });
+ * ```
+ */
+export function mapRows<S extends ResultSchema>(
+	result: SparqlBindings,
+	schema: S,
+	options?: ResultMappingOptions,
+): SchemaRow<S>[] {
+	const converters = mergeConverters(options);
+	const fields = Object.entries(schema);
+	return result.results.bindings.map((binding, row) => {
+		const mapped: Record<string, unknown> = {};
+		for (const [name, spec] of fields) {
+			mapped[name] = withContext(
+				() => {
+					if (typeof spec === "function") {
+						return spec(binding[name]);
+					}
+					const {
+						type,
+						optional,
+						variable = name,
+					} = typeof spec === "string" ? { type: spec } : spec;
+					const term = binding[variable];
+					if (term === undefined) {
+						if (optional) {
+							return undefined;
+						}
+						throw new ResultMappingError(
+							`Missing value for ?${variable}`,
+							variable,
+						);
+					}
+					return mapField(variable, type, term, converters);
+				},
+				name,
+				row,
+			);
+		}
+		return mapped as SchemaRow<S>;
+	});
+}
+
+/** Attach the variable and row index to mapping errors */
+function withContext<T>(map: () => T, variable: string, row: number): T {
+	try {
+		return map();
+	} catch (error) {
+		if (error instanceof ResultMappingError && error.row === undefined) {
+			throw new ResultMappingError(
+				error.message,
+				error.variable ?? variable,
+				row,
+			);
+		}
+		throw error;
+	}
+}
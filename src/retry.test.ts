@@ -0,0 +1,70 @@
+import { expect, test } from "bun:test";
+import { isRetryable, parseRetryAfter, retryDelay } from "./retry.ts";
+import {
+	AbortError,
+	NetworkError,
+	RDF4JError,
+	RDFParseError,
+	TimeoutError,
+} from "./types.ts";
+
+const error = (status: number, headers?: Record<string, string>) =>
+	new RDF4JError("failed", status, "", undefined, new Headers(headers));
+
+test("isRetryable only allows idempotent requests by default", () => {
+	expect(isRetryable({}, "GET")).toBe(true);
+	expect(isRetryable({}, "DELETE")).toBe(true);
+	expect(isRetryable({}, "POST")).toBe(false);
+	expect(isRetryable({}, "POST", true)).toBe(true);
+	expect(isRetryable({}, "PUT", false)).toBe(false);
+	expect(isRetryable({ retryNonIdempotent: true }, "POST")).toBe(true);
+});
+
+test("parseRetryAfter accepts seconds and HTTP dates", () => {
+	const now = Date.parse("Wed, 21 Oct 2026 07:28:00 GMT");
+	expect(parseRetryAfter("120")).toBe(120000);
+	expect(parseRetryAfter("Wed, 21 Oct 2026 07:28:30 GMT", now)).toBe(30000);
+	expect(parseRetryAfter("soon")).toBeUndefined();
+	expect(parseRetryAfter(null)).toBeUndefined();
+});
+
+test("retryDelay backs off exponentially up to maxDelay", () => {
+	const policy = { initialDelay: 100, maxDelay: 350, jitter: false };
+	expect(retryDelay({ ...policy, maxAttempts: 5 }, error(503), 1)).toBe(100);
+	expect(retryDelay({ ...policy, maxAttempts: 5 }, error(503), 2)).toBe(200);
+	expect(retryDelay({ ...policy, maxAttempts: 5 }, error(503), 3)).toBe(350);
+	expect(retryDelay(policy, error(503), 3)).toBeUndefined();
+});
+
+test("retryDelay applies jitter within the backoff window", () => {
+	for (let i = 0; i < 20; i++) {
+		const delay = retryDelay({ initialDelay: 100 }, error(502), 1) ?? -1;
+		expect(delay).toBeGreaterThanOrEqual(0);
+		expect(delay).toBeLessThanOrEqual(100);
+	}
+});
+
+test("retryDelay skips non-retryable errors and honors Retry-After", () => {
+	expect(retryDelay({}, error(500), 1)).toBeUndefined();
+	expect(retryDelay({}, error(400), 1)).toBeUndefined();
+	expect(retryDelay({}, new DOMException("", "AbortError"), 1)).toBeUndefined();
+	expect(
+		retryDelay({ retryNetworkErrors: false }, new NetworkError("reset"), 1),
+	).toBeUndefined();
+	expect(
+		retryDelay({ maxDelay: 5000 }, error(503, { "retry-after": "2" }), 1),
+	).toBe(2000);
+	expect(
+		retryDelay({ maxDelay: 5000 }, error(503, { "retry-after": "60" }), 1),
+	).toBe(5000);
+});
+
+test("retryDelay only retries network errors and timeouts", () => {
+	const policy = { initialDelay: 100, jitter: false };
+	expect(retryDelay(policy, new NetworkError("reset"), 1)).toBe(100);
+	expect(retryDelay(policy, new TimeoutError("timed out", 5), 1)).toBe(100);
+	expect(retryDelay(policy, new TypeError("bug"), 1)).toBeUndefined();
+	expect(retryDelay(policy, new SyntaxError("bad JSON"), 1)).toBeUndefined();
+	expect(retryDelay(policy, new RDFParseError("bad RDF"), 1)).toBeUndefined();
+	expect(retryDelay(policy, new AbortError("aborted"), 1)).toBeUndefined();
+});
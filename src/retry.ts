@@ -0,0 +1,86 @@
+import {
+	type HttpMethod,
+	NetworkError,
+	RDF4JError,
+	type RetryPolicy,
+	TimeoutError,
+} from "./types.ts";
+
+const IDEMPOTENT_METHODS: ReadonlySet<HttpMethod> = new Set([
+	"GET",
+	"HEAD",
+	"PUT",
+	"DELETE",
+]);
+
+const DEFAULT_RETRYABLE_STATUSES = [408, 429, 502, 503, 504];
+
+/** Whether a request may be retried under a policy */
+export function isRetryable(
+	policy: RetryPolicy,
+	method: HttpMethod,
+	idempotent?: boolean,
+): boolean {
+	return (
+		(idempotent ?? IDEMPOTENT_METHODS.has(method)) ||
+		policy.retryNonIdempotent === true
+	);
+}
+
+/** Parse a `Retry-After` header (seconds or HTTP date) into milliseconds */
+export function parseRetryAfter(
+	value: string | null | undefined,
+	now = Date.now(),
+): number | undefined {
+	if (!value) {
+		return undefined;
+	}
+	if (/^\d+$/.test(value.trim())) {
+		return Number(value) * 1000;
+	}
+	const date = Date.parse(value);
+	return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+/**
+ * Delay before the next attempt after `error`, or undefined if the error
+ * should not be retried. `attempt` is the number of attempts made so far.
+ */
+export function retryDelay(
+	policy: RetryPolicy,
+	error: unknown,
+	attempt: number,
+): number | undefined {
+	if (attempt >= (policy.maxAttempts ?? 3)) {
+		return undefined;
+	}
+
+	if (error instanceof NetworkError || error instanceof TimeoutError) {
+		if (policy.retryNetworkErrors === false) {
+			return undefined;
+		}
+	} else if (error instanceof RDF4JError && error.status !== 0) {
+		const statuses = policy.retryableStatuses ?? DEFAULT_RETRYABLE_STATUSES;
+		if (!statuses.includes(error.status)) {
+			return undefined;
+		}
+	} else {
+		// Aborts and errors reading the response would fail the same way again
+		return undefined;
+	}
+
+	const maxDelay = policy.maxDelay ?? 10000;
+	if (error instanceof RDF4JError && policy.respectRetryAfter !== false) {
+		const retryAfter = parseRetryAfter(error.headers?.get("retry-after"));
+		if (retryAfter !== undefined) {
+			return Math.min(retryAfter, maxDelay);
+		}
+	}
+
+	const backoff = Math.min(
+		maxDelay,
+		(policy.initialDelay ?? 200) * (policy.multiplier ?? 2) ** (attempt - 1),
+	);
+	// Full jitter spreads retries from many clients over the backoff window
+	return policy.jitter === false ? backoff : Math.random() * backoff;
+}
@@ -0,0 +1,63 @@
+import { expect, test } from "bun:test";
+import { parseShaclReport, reportFormat } from "./shacl-report.ts";
+import { dataFactory as df } from "./terms.ts";
+import { parseTurtle } from "./turtle.ts";
+
+const REPORT = `
+	@prefix sh: <http://www.w3.org/ns/shacl#>.
+	@prefix ex: <http://example.org/>.
+
+	[] a sh:ValidationReport ;
+		sh:conforms false ;
+		sh:result [
+			a sh:ValidationResult ;
+			sh:focusNode ex:alice ;
+			sh:resultPath ex:age ;
+			sh:value "-1" ;
+			sh:sourceConstraintComponent sh:MinInclusiveConstraintComponent ;
+			sh:resultSeverity sh:Violation ;
+			sh:resultMessage "Age must not be negative"@en ;
+			sh:sourceShape ex:PersonShape
+		], [
+			a sh:ValidationResult ;
+			sh:focusNode ex:bob ;
+			sh:sourceConstraintComponent sh:ClassConstraintComponent ;
+			sh:resultSeverity ex:Advisory
+		] .
+`;
+
+test("parseShaclReport reads validation results", () => {
+	const ex = (name: string) => df.namedNode(`http://example.org/${name}`);
+	expect(parseShaclReport(parseTurtle(REPORT))).toEqual([
+		{
+			focusNode: ex("alice"),
+			path: ex("age"),
+			value: df.literal("-1"),
+			constraintComponent:
+				"http://www.w3.org/ns/shacl#MinInclusiveConstraintComponent",
+			severity: "Violation",
+			message: "Age must not be negative",
+			sourceShape: ex("PersonShape"),
+		},
+		{
+			focusNode: ex("bob"),
+			constraintComponent:
+				"http://www.w3.org/ns/shacl#ClassConstraintComponent",
+			severity: "http://example.org/Advisory",
+		},
+	]);
+});
+
+test("reportFormat maps report media types to RDF formats", () => {
+	expect(reportFormat("application/shacl-validation-report+turtle")).toBe(
+		"text/turtle",
+	);
+	expect(
+		reportFormat("application/shacl-validation-report+n-quads; charset=utf-8"),
+	).toBe("application/n-quads");
+	expect(reportFormat("text/turtle")).toBe("text/turtle");
+	expect(reportFormat("application/shacl-validation-report+foo")).toBe(
+		undefined,
+	);
+	expect(reportFormat("text/plain")).toBe(undefined);
+});
@@ -0,0 +1,92 @@
+import { getRdfFormat, mediaType } from "./rdf-formats.ts";
+import { Namespaces, type Quad, type Term } from "./terms.ts";
+import { ContentTypes } from "./types.ts";
+
+/** A single result of a SHACL validation report */
+export interface ShaclValidationResult {
+	/** Node that failed validation */
+	focusNode: Term;
+	/** Property path the constraint applies to, if any */
+	path?: Term;
+	/** Value that caused the failure, if any */
+	value?: Term;
+	/** IRI of the failed constraint component, e.g. `sh:MinCountConstraintComponent` */
+	constraintComponent?: string;
+	/** `Violation`, `Warning`, `Info`, or the IRI of a custom severity */
+	severity: string;
+	/** First `sh:resultMessage`, if any */
+	message?: string;
+	/** Shape the failed constraint belongs to */
+	sourceShape?: Term;
+}
+
+const SH = Namespaces.SH;
+
+const REPORT_MEDIA_TYPE = /^application\/shacl-validation-report\+(.+)$/;
+
+/** RDF format suffixes of report media types that are not `application/...` */
+const REPORT_FORMATS: Readonly<Record<string, string>> = {
+	turtle: ContentTypes.TURTLE,
+};
+
+/**
+ * The RDF media type of a validation report response, e.g. `text/turtle`
+ * for `application/shacl-validation-report+turtle`, or undefined when the
+ * response is not an RDF document
+ */
+export function reportFormat(contentType: string): string | undefined {
+	const type = mediaType(contentType);
+	const suffix = REPORT_MEDIA_TYPE.exec(type)?.[1];
+	const format =
+		suffix === undefined
+			? type
+			: (REPORT_FORMATS[suffix] ?? `application/${suffix}`);
+	try {
+		getRdfFormat(format);
+		return format;
+	} catch {
+		return undefined;
+	}
+}
+
+/** Read the results of a SHACL validation report */
+export function parseShaclReport(
+	report: Iterable<Quad>,
+): ShaclValidationResult[] {
+	const properties = new Map<string, Map<string, Term[]>>();
+	for (const { subject, predicate, object } of report) {
+		if (!predicate.value.startsWith(SH)) {
+			continue;
+		}
+		const key = `${subject.termType}:${subject.value}`;
+		const node = properties.get(key) ?? new Map<string, Term[]>();
+		properties.set(key, node);
+		const name = predicate.value.slice(SH.length);
+		node.set(name, [...(node.get(name) ?? []), object]);
+	}
+
+	const results: ShaclValidationResult[] = [];
+	for (const node of properties.values()) {
+		for (const result of node.get("result") ?? []) {
+			const values = properties.get(`${result.termType}:${result.value}`);
+			const value = (name: string) => values?.get(name)?.[0];
+			const focusNode = value("focusNode");
+			if (focusNode === undefined) {
+				continue;
+			}
+			const severity = value("resultSeverity")?.value ?? `${SH}Violation`;
+			results.push({
+				focusNode,
+				path: value("resultPath"),
+				value: value("value"),
+				constraintComponent: value("sourceConstraintComponent")?.value,
+				severity: severity.startsWith(SH)
+					? severity.slice(SH.length)
+					: severity,
+				message: value("resultMessage")?.value,
+				sourceShape: value("sourceShape"),
+			});
+		}
+	}
+	return results;
+}
@@ -0,0 +1,142 @@
+import { expect, test } from "bun:test";
+import { RDF4JClient } from "./client.ts";
+import type { Middleware } from "./middleware.ts";
+import { MockRDF4JServer } from "./mock-server.ts";
+import { SHACL_SHAPE_GRAPH } from "./shapes-client.ts";
+import { dataFactory as df } from "./terms.ts";
+import { ContentTypes } from "./types.ts";
+
+const SHAPES = `
+	@prefix sh: <http://www.w3.org/ns/shacl#>.
+	@prefix ex: <http://example.org/>.
+
+	ex:PersonShape a sh:NodeShape ;
+		sh:targetClass ex:Person ;
+		sh:property [ sh:path ex:name ; sh:minCount 1 ] .
+`;
+
+const REPORT = `
+	@prefix sh: <http://www.w3.org/ns/shacl#>.
+	@prefix ex: <http://example.org/>.
+
+	[] a sh:ValidationReport ;
+		sh:conforms false ;
+		sh:result [
+			sh:focusNode ex:alice ;
+			sh:resultPath ex:name ;
+			sh:sourceConstraintComponent sh:MinCountConstraintComponent ;
+			sh:resultSeverity sh:Violation
+		] .
+`;
+
+async function setup(middleware: Middleware[] = []) {
+	const server = new MockRDF4JServer();
+	const client = new RDF4JClient({
+		baseUrl: "http://mock",
+		fetch: server.fetch,
+		middleware,
+	});
+	await client.createRepository({
+		id: "people",
+		type: "memory-shacl",
+		options: { shapesGraphs: [SHACL_SHAPE_GRAPH, "http://example.org/shapes"] },
+	});
+	return { server, repo: client.repository("people") };
+}
+
+test("ShapesClient uploads, replaces and removes shapes graphs", async () => {
+	const { repo } = await setup();
+	const shapes = repo.shapes();
+
+	expect((await shapes.graphs()).map((graph) => graph.value)).toEqual([
+		SHACL_SHAPE_GRAPH,
+		"http://example.org/shapes",
+	]);
+
+	await shapes.upload(SHAPES, { contentType: ContentTypes.TURTLE });
+	const uploaded = await shapes.get();
+	expect(uploaded).toHaveLength(5);
+	expect(uploaded.every((quad) => quad.graph.value === SHACL_SHAPE_GRAPH)).toBe(
+		true,
+	);
+	expect(await repo.size()).toBe(5);
+
+	const extra = df.quad(
+		df.namedNode("http://example.org/OtherShape"),
+		df.namedNode("http://www.w3.org/1999/02/22-rdf-syntax-ns#type"),
+		df.namedNode("http://www.w3.org/ns/shacl#NodeShape"),
+	);
+	await shapes.replace([extra], { graph: "http://example.org/shapes" });
+	await shapes.replace([extra]);
+	expect(await shapes.get()).toHaveLength(1);
+	expect(await shapes.get("http://example.org/shapes")).toHaveLength(1);
+
+	await shapes.remove();
+	expect(await shapes.get()).toEqual([]);
+	expect(await repo.size()).toBe(1);
+});
+
+test("ShapesClient.graphs rejects repositories without SHACL", async () => {
+	const server = new MockRDF4JServer();
+	const client = new RDF4JClient({
+		baseUrl: "http://mock",
+		fetch: server.fetch,
+	});
+	await client.createRepository({ id: "plain" });
+
+	await expect(client.repository("plain").shapes().graphs()).rejects.toThrow(
+		"Repository plain does not validate shapes (type: memory)",
+	);
+});
+
+test("ShapesClient.validate reports violations and rolls back", async () => {
+	const actions: string[] = [];
+	let invalid = false;
+	const { repo } = await setup([
+		(request, next) => {
+			const action = new URL(request.url).searchParams.get("action");
+			if (action) {
+				actions.push(action);
+			}
+			if (action === "ADD") {
+				invalid = String(request.body).includes("alice");
+			}
+			return action === "PREPARE" && invalid
+				? Promise.resolve(
+						new Response(REPORT, {
+							status: 409,
+							headers: {
+								"Content-Type": "application/shacl-validation-report+turtle",
+							},
+						}),
+					)
+				: next(request);
+		},
+	]);
+	const shapes = repo.shapes();
+	const data =
+		"<http://example.org/alice> <http://www.w3.org/1999/02/22-rdf-syntax-ns#type> <http://example.org/Person> .";
+
+	const outcome = await shapes.validate(data, {
+		contentType: ContentTypes.NTRIPLES,
+	});
+	expect(outcome.conforms).toBe(false);
+	expect(outcome.results).toMatchObject([
+		{
+			focusNode: { value: "http://example.org/alice" },
+			path: { value: "http://example.org/name" },
+			severity: "Violation",
+		},
+	]);
+	expect(outcome.report.length).toBeGreaterThan(0);
+	expect(actions).toEqual(["ADD", "PREPARE"]);
+	expect(await repo.size()).toBe(0);
+
+	expect(
+		await shapes.validate(
+			'<http://example.org/bob> <http://example.org/name> "Bob" .',
+			{ contentType: ContentTypes.NTRIPLES },
+		),
+	).toEqual({ conforms: true, results: [], report: [] });
+	expect(await repo.size()).toBe(0);
+});
@@ -0,0 +1,145 @@
+import type { RdfPayload } from "./rdf-formats.ts";
+import type { RepositoryClient, UploadOptions } from "./repository-client.ts";
+import type { ShaclValidationResult } from "./shacl-report.ts";
+import { NamedNode, type Quad } from "./terms.ts";
+import { ShaclValidationError, type SignalOptions } from "./types.ts";
+
+/** Context in which RDF4J's ShaclSail stores shapes by default */
+export const SHACL_SHAPE_GRAPH =
+	"http://rdf4j.org/schema/rdf4j#SHACLShapeGraph";
+
+/** Options for uploading shapes */
+export interface ShapesUploadOptions extends Omit<UploadOptions, "context"> {
+	/** Shapes graph to write to (default: `rdf4j:SHACLShapeGraph`) */
+	graph?: string | NamedNode;
+}
+
+/** Outcome of a dry-run validation */
+export interface DryRunResult {
+	/** Whether the data conforms to the shapes */
+	conforms: boolean;
+	/** Results of the validation report */
+	results: ShaclValidationResult[];
+	/** The complete validation report; empty when the data conforms */
+	report: Quad[];
+}
+
+/** Client for the shapes of a SHACL repository */
+export class ShapesClient {
+	constructor(private readonly repository: RepositoryClient) {}
+
+	/** Graphs the repository reads shapes from, as configured */
+	async graphs(options?: SignalOptions): Promise<NamedNode[]> {
+		const config = await this.repository.getParsedConfig(options);
+		if (config.type !== "memory-shacl" && config.type !== "native-shacl") {
+			throw new TypeError(
+				`Repository ${config.id} does not validate shapes (type: ${config.type})`,
+			);
+		}
+		return (config.options.shapesGraphs ?? [SHACL_SHAPE_GRAPH]).map(
+			(graph) => new NamedNode(graph),
+		);
+	}
+
+	/** Get the shapes of a shapes graph */
+	async get(
+		graph: string | NamedNode = SHACL_SHAPE_GRAPH,
+		options?: SignalOptions,
+	): Promise<Quad[]> {
+		return this.repository.getQuads({
+			context: shapesGraph(graph),
+			signal: options?.signal,
+		});
+	}
+
+	/** Add shapes to a shapes graph */
+	async upload(
+		data: string,
+		options: ShapesUploadOptions & { contentType: string },
+	): Promise<void>;
+	async upload(
+		quads: Iterable<Quad>,
+		options?: ShapesUploadOptions,
+	): Promise<void>;
+	async upload(data: RdfPayload, options?: ShapesUploadOptions): Promise<void> {
+		const { graph, ...upload } = options ?? {};
+		await this.repository.add(data as Iterable<Quad>, {
+			...upload,
+			context: shapesGraph(graph),
+		});
+	}
+
+	/** Replace the shapes of a shapes graph */
+	async replace(
+		data: string,
+		options: ShapesUploadOptions & { contentType: string },
+	): Promise<void>;
+	async replace(
+		quads: Iterable<Quad>,
+		options?: ShapesUploadOptions,
+	): Promise<void>;
+	async replace(
+		data: RdfPayload,
+		options?: ShapesUploadOptions,
+	): Promise<void> {
+		const { graph, ...upload } = options ?? {};
+		await this.repository.replace(data as Iterable<Quad>, {
+			...upload,
+			context: shapesGraph(graph),
+		});
+	}
+
+	/** Remove all shapes of a shapes graph */
+	async remove(
+		graph: string | NamedNode = SHACL_SHAPE_GRAPH,
+		options?: SignalOptions,
+	): Promise<void> {
+		await this.repository.clear(shapesGraph(graph), options);
+	}
+
+	/**
+	 * Validate data against the shapes without storing it: the data is added
+	 * in a transaction that is prepared, which runs validation, and then
+	 * rolled back.
+	 */
+	async validate(
+		data: string,
+		options: UploadOptions & { contentType: string },
+	): Promise<DryRunResult>;
+	async validate(
+		quads: Iterable<Quad>,
+		options?: UploadOptions,
+	): Promise<DryRunResult>;
+	async validate(
+		data: RdfPayload,
+		options?: UploadOptions,
+	): Promise<DryRunResult> {
+		const signal = options?.signal;
+		const transaction = await this.repository.beginTransaction(undefined, {
+			signal,
+		});
+		try {
+			await transaction.add(data as Iterable<Quad>, options);
+			await transaction.prepare({ signal });
+			return { conforms: true, results: [], report: [] };
+		} catch (error) {
+			if (error instanceof ShaclValidationError) {
+				return {
+					conforms: false,
+					results: error.results,
+					report: error.report,
+				};
+			}
+			throw error;
+		} finally {
+			if (transaction.isActive) {
+				// The server may already have discarded a failed transaction
+				await transaction.rollback().catch(() => undefined);
+			}
+		}
+	}
+}
+
+function shapesGraph(graph: string | NamedNode = SHACL_SHAPE_GRAPH): NamedNode {
+	return typeof graph === "string" ? new NamedNode(graph) : graph;
+}
@@ -0,0 +1,114 @@
+import { expect, test } from "bun:test";
+import {
+	parseSparqlCsv,
+	parseSparqlTsv,
+	parseSparqlXml,
+} from "./sparql-results.ts";
+import { Namespaces } from "./terms.ts";
+import { RDFParseError } from "./types.ts";
+
+test("parseSparqlTsv decodes typed terms", () => {
+	const result = parseSparqlTsv(
+		[
+			"?s\t?o\t?n",
+			'<http://ex/s>\t"a\\tb"@en\t42',
+			'_:b0\t"1.5"^^<http://www.w3.org/2001/XMLSchema#decimal>\t',
+			"",
+		].join("\n"),
+	);
+
+	expect(result.head.vars).toEqual(["s", "o", "n"]);
+	expect(result.results.bindings).toEqual([
+		{
+			s: { type: "uri", value: "http://ex/s" },
+			o: { type: "literal", value: "a\tb", "xml:lang": "en" },
+			n: {
+				type: "literal",
+				value: "42",
+				datatype: `${Namespaces.XSD}integer`,
+			},
+		},
+		{
+			s: { type: "bnode", value: "b0" },
+			o: {
+				type: "literal",
+				value: "1.5",
+				datatype: `${Namespaces.XSD}decimal`,
+			},
+		},
+	]);
+});
+
+test("parseSparqlCsv handles quoting and unbound values", () => {
+	const result = parseSparqlCsv(
+		'id,title,uri\r\nrepo,"Title, with ""quotes""",http://ex/repo\r\n_:b1,,\r\n',
+	);
+
+	expect(result.head.vars).toEqual(["id", "title", "uri"]);
+	expect(result.results.bindings).toEqual([
+		{
+			id: { type: "literal", value: "repo" },
+			title: { type: "literal", value: 'Title, with "quotes"' },
+			uri: { type: "uri", value: "http://ex/repo" },
+		},
+		{ id: { type: "bnode", value: "b1" } },
+	]);
+});
+
+test("parseSparqlXml decodes bindings", () => {
+	const result = parseSparqlXml(`<?xml version="1.0"?>
+<sparql xmlns="http://www.w3.org/2005/sparql-results#">
+  <head>
+    <variable name="s"/>
+    <variable name="o"/>
+  </head>
+  <results>
+    <result>
+      <binding name="s"><uri>http://ex/s?a=1&amp;b=2</uri></binding>
+      <binding name="o"><literal xml:lang="en">caf&#233; &lt;3</literal></binding>
+    </result>
+    <result>
+      <binding name="s"><bnode>b0</bnode></binding>
+      <binding name="o"><literal datatype="http://www.w3.org/2001/XMLSchema#integer">7</literal></binding>
+    </result>
+    <!-- unbound o -->
+    <result>
+      <binding name="s"><uri><![CDATA[http://ex/<raw>]]></uri></binding>
+    </result>
+  </results>
+</sparql>`);
+
+	expect(result).toEqual({
+		head: { vars: ["s", "o"] },
+		results: {
+			bindings: [
+				{
+					s: { type: "uri", value: "http://ex/s?a=1&b=2" },
+					o: { type: "literal", value: "café <3", "xml:lang": "en" },
+				},
+				{
+					s: { type: "bnode", value: "b0" },
+					o: {
+						type: "literal",
+						value: "7",
+						datatype: `${Namespaces.XSD}integer`,
+					},
+				},
+				{ s: { type: "uri", value: "http://ex/<raw>" } },
+			],
+		},
+	});
+});
+
+test("parseSparqlXml decodes boolean results", () => {
+	const result = parseSparqlXml(
+		'<sparql xmlns="http://www.w3.org/2005/sparql-results#"><head/><boolean>true</boolean></sparql>',
+	);
+	expect(result).toEqual({ head: {}, boolean: true });
+});
+
+test("parseSparqlXml rejects malformed XML", () => {
+	expect(() => parseSparqlXml("<sparql><head></sparql>")).toThrow(
+		RDFParseError,
+	);
+});
@@ -0,0 +1,280 @@
+import type {
+	SparqlBinding,
+	SparqlBindings,
+	SparqlBooleanResult,
+} from "./repository-client.ts";
+import { Namespaces, type SparqlTerm } from "./terms.ts";
+import { ContentTypes, RDFParseError } from "./types.ts";
+import {
+	childElements,
+	localName,
+	parseXml,
+	textContent,
+	type XmlElement,
+} from "./xml.ts";
+
+/** SELECT result formats that can be requested and decoded */
+export type SparqlResultsFormat = "json" | "xml" | "tsv" | "csv" | "binary";
+
+const RESULT_MEDIA_TYPES: Record<SparqlResultsFormat, string> = {
+	json: ContentTypes.SPARQL_RESULTS_JSON,
+	xml: ContentTypes.SPARQL_RESULTS_XML,
+	tsv: ContentTypes.SPARQL_RESULTS_TSV,
+	csv: ContentTypes.SPARQL_RESULTS_CSV,
+	binary: ContentTypes.BINARY_RDF_RESULTS,
+};
+
+/** Media type to request for a SELECT results format (default: JSON) */
+export function sparqlResultsMediaType(format?: SparqlResultsFormat): string {
+	return RESULT_MEDIA_TYPES[format ?? "json"];
+}
+
+const ABSOLUTE_IRI = /^[A-Za-z][A-Za-z0-9+.-]*:[^\s"<>]*$/;
+const NUMBER =
+	/^[+-]?(?:[0-9]+|[0-9]*\.[0-9]+|(?:[0-9]+\.[0-9]*|\.[0-9]+|[0-9]+)[eE][+-]?[0-9]+)$/;
+const ECHAR: Record<string, string> = {
+	t: "\t",
+	b: "\b",
+	n: "\n",
+	r: "\r",
+	f: "\f",
+	'"': '"',
+	"'": "'",
+	"\\": "\\",
+};
+
+/** Unescape ECHAR and UCHAR sequences in a quoted string or IRI */
+function unescapeString(value: string): string {
+	return value.replace(
+		/\\(?:u([0-9A-Fa-f]{4})|U([0-9A-Fa-f]{8})|(.))/g,
+		(match, u4: string, u8: string, char: string) => {
+			if (u4 || u8) {
+				return String.fromCodePoint(Number.parseInt(u4 ?? u8, 16));
+			}
+			const escaped = ECHAR[char];
+			if (escaped === undefined) {
+				throw new RDFParseError(`Invalid escape sequence ${match}`);
+			}
+			return escaped;
+		},
+	);
+}
+
+/** Parse a single RDF term in the Turtle-like syntax used by SPARQL TSV */
+function parseTsvTerm(token: string): SparqlTerm {
+	if (token.startsWith("<") && token.endsWith(">")) {
+		return { type: "uri", value: unescapeString(token.slice(1, -1)) };
+	}
+	if (token.startsWith("_:")) {
+		return { type: "bnode", value: token.slice(2) };
+	}
+	if (token.startsWith('"')) {
+		const end = token.lastIndexOf('"');
+		if (end <= 0) {
+			throw new RDFParseError(`Unterminated literal in TSV: ${token}`);
+		}
+		const term: SparqlTerm = {
+			type: "literal",
+			value: unescapeString(token.slice(1, end)),
+		};
+		const suffix = token.slice(end + 1);
+		if (suffix.startsWith("@")) {
+			term["xml:lang"] = suffix.slice(1);
+		} else if (suffix.startsWith("^^<") && suffix.endsWith(">")) {
+			term.datatype = unescapeString(suffix.slice(3, -1));
+		} else if (suffix) {
+			throw new RDFParseError(`Invalid literal in TSV: ${token}`);
+		}
+		return term;
+	}
+	if (token === "true" || token === "false") {
+		return {
+			type: "literal",
+			value: token,
+			datatype: `${Namespaces.XSD}boolean`,
+		};
+	}
+	if (NUMBER.test(token)) {
+		const datatype = /[eE]/.test(token)
+			? "double"
+			: token.includes(".")
+				? "decimal"
+				: "integer";
+		return {
+			type: "literal",
+			value: token,
+			datatype: `${Namespaces.XSD}${datatype}`,
+		};
+	}
+	throw new RDFParseError(`Invalid RDF term in TSV: ${token}`);
+}
+
+/** Parse SPARQL 1.1 Query Results TSV into the SPARQL JSON results shape */
+export function parseSparqlTsv(text: string): SparqlBindings {
+	const lines = text.split(/\r?\n/);
+	const header = lines.shift() ?? "";
+	const vars = header
+		? header.split("\t").map((name) => name.replace(/^[?$]/, ""))
+		: [];
+
+	const bindings: SparqlBinding[] = [];
+	for (const line of lines) {
+		if (!line) {
+			continue;
+		}
+		const binding: SparqlBinding = {};
+		line.split("\t").forEach((token, i) => {
+			const name = vars[i];
+			if (name !== undefined && token !== "") {
+				binding[name] = parseTsvTerm(token);
+			}
+		});
+		bindings.push(binding);
+	}
+
+	return { head: { vars }, results: { bindings } };
+}
+
+/** Split CSV text into records of fields (RFC 4180) */
+function parseCsvRecords(text: string): string[][] {
+	const records: string[][] = [];
+	let record: string[] = [];
+	let field = "";
+	let quoted = false;
+
+	for (let i = 0; i < text.length; i++) {
+		const char = text[i];
+		if (quoted) {
+			if (char === '"' && text[i + 1] === '"') {
+				field += '"';
+				i++;
+			} else if (char === '"') {
+				quoted = false;
+			} else {
+				field += char;
+			}
+		} else if (char === '"') {
+			quoted = true;
+		} else if (char === ",") {
+			record.push(field);
+			field = "";
+		} else if (char === "\n" || char === "\r") {
+			if (char === "\r" && text[i + 1] === "\n") {
+				i++;
+			}
+			record.push(field);
+			records.push(record);
+			record = [];
+			field = "";
+		} else {
+			field += char;
+		}
+	}
+
+	if (quoted) {
+		throw new RDFParseError("Unterminated quoted field in CSV");
+	}
+	if (field || record.length > 0) {
+		record.push(field);
+		records.push(record);
+	}
+	return records;
+}
+
+/**
+ * Parse SPARQL 1.1 Query Results CSV into the SPARQL JSON results shape.
+ * CSV does not distinguish IRIs from literals or carry datatypes, so values
+ * that look like absolute IRIs are reported as `uri` and all others as
+ * plain literals.
+ */
+export function parseSparqlCsv(text: string): SparqlBindings {
+	const [header = [], ...rows] = parseCsvRecords(text);
+	const vars = header.filter((name) => name !== "");
+
+	const bindings = rows.map((row) => {
+		const binding: SparqlBinding = {};
+		row.forEach((value, i) => {
+			const name = vars[i];
+			if (name === undefined || value === "") {
+				return;
+			}
+			if (value.startsWith("_:")) {
+				binding[name] = { type: "bnode", value: value.slice(2) };
+			} else if (ABSOLUTE_IRI.test(value)) {
+				binding[name] = { type: "uri", value };
+			} else {
+				binding[name] = { type: "literal", value };
+			}
+		});
+		return binding;
+	});
+
+	return { head: { vars }, results: { bindings } };
+}
+
+/**
+ * Parse SPARQL 1.1 Query Results XML into the SPARQL JSON results shape.
+ * Returns a boolean result for ASK queries and bindings otherwise.
+ */
+export function parseSparqlXml(
+	text: string,
+): SparqlBindings | SparqlBooleanResult {
+	const root = parseXml(text);
+	if (localName(root.name) !== "sparql") {
+		throw new RDFParseError(`Unexpected root element <${root.name}>`);
+	}
+
+	const [head] = childElements(root, "head");
+	const vars = head
+		? childElements(head, "variable").map((v) => v.attributes.name ?? "")
+		: [];
+
+	const [booleanElement] = childElements(root, "boolean");
+	if (booleanElement) {
+		const value = textContent(booleanElement).trim();
+		if (value !== "true" && value !== "false") {
+			throw new RDFParseError(`Invalid boolean result: ${value}`);
+		}
+		return { head: {}, boolean: value === "true" };
+	}
+
+	const [results] = childElements(root, "results");
+	const bindings = (results ? childElements(results, "result") : []).map(
+		(result) => {
+			const binding: SparqlBinding = {};
+			for (const element of childElements(result, "binding")) {
+				const name = element.attributes.name;
+				const [value] = childElements(element);
+				if (name !== undefined && value) {
+					binding[name] = parseXmlTerm(value);
+				}
+			}
+			return binding;
+		},
+	);
+
+	return { head: { vars }, results: { bindings } };
+}
+
+function parseXmlTerm(element: XmlElement): SparqlTerm {
+	const value = textContent(element);
+	switch (localName(element.name)) {
+		case "uri":
+			return { type: "uri", value };
+		case "bnode":
+			return { type: "bnode", value };
+		case "literal": {
+			const term: SparqlTerm = { type: "literal", value };
+			const language = element.attributes["xml:lang"];
+			const datatype = element.attributes.datatype;
+			if (language) {
+				term["xml:lang"] = language;
+			} else if (datatype) {
+				term.datatype = datatype;
+			}
+			return term;
+		}
+		default:
+			throw new RDFParseError(`Unsupported RDF term <${element.name}>`);
+	}
+}
@@ -0,0 +1,83 @@
+import { expect, test } from "bun:test";
+import {
+	encodeSparqlValue,
+	iri,
+	PreparedQuery,
+	sparql,
+	values,
+} from "./sparql-template.ts";
+import { dataFactory as df, Namespaces } from "./terms.ts";
+
+const XSD = Namespaces.XSD;
+
+test("sparql escapes strings as literals", () => {
+	const name = 'x" } ; DROP ALL ; #\n';
+	const query = sparql`SELECT ?s WHERE { ?s ?p ${name} }`;
+
+	expect(query).toBeInstanceOf(PreparedQuery);
+	expect(query.text).toBe(
+		'SELECT ?s WHERE { ?s ?p "x\\" } ; DROP ALL ; #\\n" }',
+	);
+});
+
+test("sparql encodes IRIs and typed terms", () => {
+	const query = sparql`SELECT * WHERE { ${iri("http://ex/a")} ?p ${df.literal("chat", "fr")} ; ?q ${df.literal("5", df.namedNode(`${XSD}integer`))} }`;
+
+	expect(query.text).toBe(
+		`SELECT * WHERE { <http://ex/a> ?p "chat"@fr ; ?q "5"^^<${XSD}integer> }`,
+	);
+});
+
+test("sparql rejects IRIs that could close early", () => {
+	// \uXXXX escapes are decoded before parsing, so they cannot be used
+	const payload = "http://ex/a> ?p ?o } ; DROP ALL ; #";
+	expect(() => sparql`SELECT * WHERE { ${iri(payload)} ?p ?o }`).toThrow(
+		TypeError,
+	);
+	for (const char of [" ", "<", '"', "{", "}", "|", "^", "`", "\\", "\n"]) {
+		expect(() => sparql`${iri(`http://ex/${char}`)}`).toThrow(TypeError);
+	}
+	expect(
+		() => sparql`${df.literal("5", df.namedNode("http://ex/> } DROP ALL {"))}`,
+	).toThrow(TypeError);
+});
+
+test("sparql encodes numbers, booleans and dates", () => {
+	expect(encodeSparqlValue(42)).toBe("42");
+	expect(encodeSparqlValue(10n)).toBe("10");
+	expect(encodeSparqlValue(1.5)).toBe(`"1.5"^^<${XSD}double>`);
+	expect(encodeSparqlValue(Number.NEGATIVE_INFINITY)).toBe(
+		`"-INF"^^<${XSD}double>`,
+	);
+	expect(encodeSparqlValue(true)).toBe("true");
+	expect(encodeSparqlValue(new Date("2024-01-02T03:04:05Z"))).toBe(
+		`"2024-01-02T03:04:05.000Z"^^<${XSD}dateTime>`,
+	);
+	expect(() => encodeSparqlValue(new Date("invalid"))).toThrow(TypeError);
+});
+
+test("sparql expands arrays for VALUES", () => {
+	const people = [iri("http://ex/a"), iri("http://ex/b")];
+	expect(sparql`VALUES ?p { ${people} }`.text).toBe(
+		"VALUES ?p { <http://ex/a> <http://ex/b> }",
+	);
+	expect(sparql`VALUES (?p ?n) { ${[[iri("http://ex/a"), "A"]]} }`.text).toBe(
+		'VALUES (?p ?n) { (<http://ex/a> "A") }',
+	);
+	expect(
+		values([{ p: iri("http://ex/a"), n: 1 }, { p: iri("http://ex/b") }]).text,
+	).toBe("VALUES (?p ?n) { (<http://ex/a> 1) (<http://ex/b> UNDEF) }");
+});
+
+test("sparql embeds prepared fragments and rejects unsafe values", () => {
+	const filter = sparql`FILTER(?age > ${18})`;
+	expect(sparql`SELECT * WHERE { ?s ?p ?age ${filter} }`.text).toBe(
+		"SELECT * WHERE { ?s ?p ?age FILTER(?age > 18) }",
+	);
+
+	expect(() => sparql`${df.blankNode("b0 } DROP ALL")}`).toThrow(TypeError);
+	expect(() => sparql`${df.variable("x }")}`).toThrow(TypeError);
+	expect(() => sparql`${df.defaultGraph()}`).toThrow(TypeError);
+	expect(() => values([{ "x) {": 1 }])).toThrow(TypeError);
+	expect(() => sparql`${{} as never}`).toThrow(TypeError);
+});
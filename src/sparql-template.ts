@@ -0,0 +1,203 @@
+import {
+	escapeLiteral,
+	NamedNode,
+	Namespaces,
+	type Term,
+	termToString,
+} from "./terms.ts";
+
+/**
+ * A SPARQL query or update whose interpolated values have been escaped.
+ * Prepared queries can be interpolated into other `sparql` templates as
+ * trusted fragments.
+ */
+export class PreparedQuery {
+	constructor(private readonly source: string) {}
+
+	/** The query text */
+	get text(): string {
+		return this.source;
+	}
+
+	toString(): string {
+		return this.text;
+	}
+}
+
+/** A SPARQL query as text or a prepared query */
+export type SparqlQuery = string | PreparedQuery;
+
+/** Values that can be interpolated into a `sparql` template */
+export type SparqlValue =
+	| string
+	| number
+	| bigint
+	| boolean
+	| Date
+	| Term
+	| PreparedQuery
+	| readonly SparqlValue[];
+
+const BLANK_NODE_LABEL = /^[\p{L}\p{N}_](?:[\p{L}\p{N}_.-]*[\p{L}\p{N}_-])?$/u;
+const LANGUAGE_TAG = /^[a-zA-Z]+(?:-[a-zA-Z0-9]+)*$/;
+const VARIABLE_NAME = /^[\p{L}\p{N}_]+$/u;
+/**
+ * Characters not allowed in IRIs. SPARQL decodes `\uXXXX` escapes before
+ * parsing, so escaping them would not keep an IRI from closing early.
+ */
+// biome-ignore lint/suspicious/noControlCharactersInRegex: control characters are not allowed in IRIs
+const INVALID_IRI = /[\u0000- <>"{}|^`\\]/;
+
+function checkIri(value: string): void {
+	if (INVALID_IRI.test(value)) {
+		throw new TypeError(`Invalid IRI: ${value}`);
+	}
+}
+
+function typed(value: string, datatype: string): string {
+	return `"${escapeLiteral(value)}"^^<${Namespaces.XSD}${datatype}>`;
+}
+
+/** Encode a term, rejecting IRIs and labels that could escape their syntax */
+function encodeTerm(term: Term): string {
+	switch (term.termType) {
+		case "NamedNode":
+			checkIri(term.value);
+			break;
+		case "BlankNode":
+			if (!BLANK_NODE_LABEL.test(term.value)) {
+				throw new TypeError(`Invalid blank node label: ${term.value}`);
+			}
+			break;
+		case "Variable":
+			if (!VARIABLE_NAME.test(term.value)) {
+				throw new TypeError(`Invalid variable name: ${term.value}`);
+			}
+			break;
+		case "Literal":
+			if (term.language && !LANGUAGE_TAG.test(term.language)) {
+				throw new TypeError(`Invalid language tag: ${term.language}`);
+			}
+			checkIri(term.datatype.value);
+			break;
+		case "DefaultGraph":
+			throw new TypeError("The default graph cannot be used in a query");
+		case "Quad":
+			return `<< ${encodeTerm(term.subject)} ${encodeTerm(term.predicate)} ${encodeTerm(term.object)} >>`;
+	}
+	return termToString(term);
+}
+
+/**
+ * Encode a value as SPARQL syntax. Strings become string literals (use
+ * named nodes for IRIs), numbers become integer or double literals, dates
+ * become `xsd:dateTime` literals and arrays become space-separated lists,
+ * with nested arrays as parenthesized rows for multi-variable `VALUES`.
+ */
+export function encodeSparqlValue(value: SparqlValue): string {
+	if (Array.isArray(value)) {
+		return value.map((item) => encodeListItem(item)).join(" ");
+	}
+	return encodeListItem(value);
+}
+
+function encodeListItem(value: SparqlValue): string {
+	if (value instanceof PreparedQuery) {
+		return value.text;
+	}
+	if (Array.isArray(value)) {
+		return `(${value.map((item) => encodeListItem(item)).join(" ")})`;
+	}
+	switch (typeof value) {
+		case "string":
+			return `"${escapeLiteral(value)}"`;
+		case "bigint":
+			return value.toString();
+		case "boolean":
+			return String(value);
+		case "number":
+			if (Number.isInteger(value)) {
+				return String(value);
+			}
+			if (Number.isNaN(value)) {
+				return typed("NaN", "double");
+			}
+			if (!Number.isFinite(value)) {
+				return typed(value > 0 ? "INF" : "-INF", "double");
+			}
+			return typed(String(value), "double");
+	}
+	if (value instanceof Date) {
+		if (Number.isNaN(value.getTime())) {
+			throw new TypeError("Invalid date");
+		}
+		return typed(value.toISOString(), "dateTime");
+	}
+	if (
+		typeof value === "object" &&
+		value !== null &&
+		"termType" in value &&
+		typeof value.termType === "string"
+	) {
+		return encodeTerm(value as Term);
+	}
+	throw new TypeError(`Cannot interpolate ${String(value)} into SPARQL`);
+}
+
+/**
+ * Tagged template for SPARQL queries and updates that escapes every
+ * interpolated value (see `encodeSparqlValue`):
+ *
+ * ```ts
+ * const query = sparql`SELECT ?name WHERE { ${person} foaf:name ?name }`;
+ * ```
+ */
+export function sparql(
+	strings: TemplateStringsArray,
+	...values: SparqlValue[]
+): PreparedQuery {
+	let text = strings[0] ?? "";
+	values.forEach((value, i) => {
+		text += encodeSparqlValue(value) + (strings[i + 1] ?? "");
+	});
+	return new PreparedQuery(text);
+}
+
+/** Mark a string as an IRI, to interpolate as `<iri>` */
+export function iri(value: string): NamedNode {
+	return new NamedNode(value);
+}
+
+/**
+ * Build a `VALUES` clause from solution rows; variables missing from a row
+ * are `UNDEF`
+ */
+export function values(
+	rows: ReadonlyArray<Record<string, SparqlValue | undefined>>,
+): PreparedQuery {
+	const names = [...new Set(rows.flatMap((row) => Object.keys(row)))];
+	for (const name of names) {
+		if (!VARIABLE_NAME.test(name)) {
+			throw new TypeError(`Invalid variable name: ${name}`);
+		}
+	}
+	const body = rows
+		.map(
+			(row) =>
+				`(${names
+					.map((name) => {
+						const value = row[name];
+						return value === undefined ? "UNDEF" : encodeSparqlValue(value);
+					})
+					.join(" ")})`,
+		)
+		.join(" ");
+	return new PreparedQuery(
+		`VALUES (${names.map((name) => `?${name}`).join(" ")}) { ${body} }`,
+	);
+}
+
+/** The text of a SPARQL query or prepared query */
+export function queryText(query: SparqlQuery): string {
+	return typeof query === "string" ? query : query.text;
+}
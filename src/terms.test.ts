@@ -0,0 +1,103 @@
+import { expect, test } from "bun:test";
+import {
+	DefaultGraph,
+	dataFactory,
+	encodeContext,
+	fromSparqlTerm,
+	Literal,
+	NamedNode,
+	Namespaces,
+	termToString,
+	toSparqlTerm,
+	toTermBindings,
+} from "./terms.ts";
+
+const { namedNode, blankNode, literal, quad, defaultGraph } = dataFactory;
+
+test("dataFactory creates literals with language or datatype", () => {
+	const plain = literal("hello");
+	expect(plain.datatype.value).toBe(`${Namespaces.XSD}string`);
+
+	const tagged = literal("hallo", "DE");
+	expect(tagged.language).toBe("de");
+	expect(tagged.datatype.value).toBe(`${Namespaces.RDF}langString`);
+
+	const typed = literal("42", namedNode(`${Namespaces.XSD}integer`));
+	expect(typed.language).toBe("");
+	expect(typed.datatype.value).toBe(`${Namespaces.XSD}integer`);
+});
+
+test("terms compare by value", () => {
+	expect(namedNode("http://a").equals(namedNode("http://a"))).toBe(true);
+	expect(namedNode("http://a").equals(blankNode("http://a"))).toBe(false);
+	expect(literal("1").equals(literal("1", "en"))).toBe(false);
+	expect(defaultGraph().equals(DefaultGraph.instance)).toBe(true);
+
+	const q1 = quad(namedNode("http://s"), namedNode("http://p"), literal("o"));
+	const q2 = dataFactory.fromQuad(q1);
+	expect(q2).not.toBe(q1);
+	expect(q1.equals(q2)).toBe(true);
+	expect(q1.graph.termType).toBe("DefaultGraph");
+});
+
+test("blankNode generates unique labels", () => {
+	expect(blankNode().value).not.toBe(blankNode().value);
+});
+
+test("termToString encodes N-Triples syntax", () => {
+	expect(termToString(namedNode("http://example.org/a b"))).toBe(
+		"<http://example.org/a\\u0020b>",
+	);
+	expect(termToString(blankNode("x"))).toBe("_:x");
+	expect(termToString(literal('say "hi"\n'))).toBe('"say \\"hi\\"\\n"');
+	expect(termToString(literal("chat", "fr"))).toBe('"chat"@fr');
+	expect(
+		termToString(literal("1", namedNode(`${Namespaces.XSD}integer`))),
+	).toBe(`"1"^^<${Namespaces.XSD}integer>`);
+});
+
+test("encodeContext encodes terms and passes strings through", () => {
+	expect(encodeContext(undefined)).toBeUndefined();
+	expect(encodeContext("<http://g>")).toBe("<http://g>");
+	expect(encodeContext([namedNode("http://g"), defaultGraph()])).toBe(
+		"<http://g>,null",
+	);
+});
+
+test("SPARQL JSON terms round-trip", () => {
+	const typed = fromSparqlTerm({
+		type: "literal",
+		value: "1",
+		datatype: `${Namespaces.XSD}integer`,
+	});
+	expect(typed).toBeInstanceOf(Literal);
+	expect(toSparqlTerm(typed)).toEqual({
+		type: "literal",
+		value: "1",
+		datatype: `${Namespaces.XSD}integer`,
+	});
+	expect(fromSparqlTerm({ type: "uri", value: "http://a" })).toBeInstanceOf(
+		NamedNode,
+	);
+	expect(
+		toSparqlTerm(
+			fromSparqlTerm({ type: "literal", value: "x", "xml:lang": "en" }),
+		),
+	).toEqual({ type: "literal", value: "x", "xml:lang": "en" });
+});
+
+test("toTermBindings converts result rows", () => {
+	const rows = toTermBindings({
+		head: { vars: ["s", "o"] },
+		results: {
+			bindings: [
+				{
+					s: { type: "bnode", value: "b0" },
+					o: { type: "literal", value: "x" },
+				},
+			],
+		},
+	});
+	expect(rows[0]?.s?.termType).toBe("BlankNode");
+	expect(rows[0]?.o?.equals(literal("x"))).toBe(true);
+});
@@ -0,0 +1,353 @@
+/**
+ * RDF/JS compatible term and quad data model
+ * @see https://rdf.js.org/data-model-spec/
+ */
+
+import type { SparqlBindings } from "./repository-client.ts";
+
+/** Well-known namespace IRIs */
+export const Namespaces = {
+	RDF: "http://www.w3.org/1999/02/22-rdf-syntax-ns#",
+	RDFS: "http://www.w3.org/2000/01/rdf-schema#",
+	XSD: "http://www.w3.org/2001/XMLSchema#",
+	SH: "http://www.w3.org/ns/shacl#",
+} as const;
+
+const XSD_STRING = `${Namespaces.XSD}string`;
+const RDF_LANG_STRING = `${Namespaces.RDF}langString`;
+
+/** IRI reference */
+export class NamedNode<Iri extends string = string> {
+	readonly termType = "NamedNode" as const;
+
+	constructor(readonly value: Iri) {}
+
+	equals(other?: Term | null): boolean {
+		return (
+			!!other && other.termType === this.termType && other.value === this.value
+		);
+	}
+}
+
+/** Blank node with a document-local label */
+export class BlankNode {
+	readonly termType = "BlankNode" as const;
+
+	constructor(readonly value: string) {}
+
+	equals(other?: Term | null): boolean {
+		return (
+			!!other && other.termType === this.termType && other.value === this.value
+		);
+	}
+}
+
+/** Literal with an optional language tag or datatype */
+export class Literal {
+	readonly termType = "Literal" as const;
+	readonly language: string;
+	readonly datatype: NamedNode;
+
+	constructor(
+		readonly value: string,
+		language = "",
+		datatype?: NamedNode,
+	) {
+		this.language = language.toLowerCase();
+		this.datatype = this.language
+			? new NamedNode(RDF_LANG_STRING)
+			: (datatype ?? new NamedNode(XSD_STRING));
+	}
+
+	equals(other?: Term | null): boolean {
+		return (
+			!!other &&
+			other.termType === this.termType &&
+			other.value === this.value &&
+			other.language === this.language &&
+			other.datatype.equals(this.datatype)
+		);
+	}
+}
+
+/** Query variable */
+export class Variable {
+	readonly termType = "Variable" as const;
+
+	constructor(readonly value: string) {}
+
+	equals(other?: Term | null): boolean {
+		return (
+			!!other && other.termType === this.termType && other.value === this.value
+		);
+	}
+}
+
+/** The default graph */
+export class DefaultGraph {
+	static readonly instance = new DefaultGraph();
+
+	readonly termType = "DefaultGraph" as const;
+	readonly value = "" as const;
+
+	equals(other?: Term | null): boolean {
+		return !!other && other.termType === this.termType;
+	}
+}
+
+/** Allowed quad subject terms */
+export type QuadSubject = NamedNode | BlankNode | Variable | Quad;
+/** Allowed quad predicate terms */
+export type QuadPredicate = NamedNode | Variable;
+/** Allowed quad object terms */
+export type QuadObject = NamedNode | BlankNode | Literal | Variable | Quad;
+/** Allowed quad graph terms */
+export type QuadGraph = NamedNode | BlankNode | DefaultGraph | Variable;
+
+/** Triple or quad statement */
+export class Quad {
+	readonly termType = "Quad" as const;
+	readonly value = "" as const;
+
+	constructor(
+		readonly subject: QuadSubject,
+		readonly predicate: QuadPredicate,
+		readonly object: QuadObject,
+		readonly graph: QuadGraph = DefaultGraph.instance,
+	) {}
+
+	equals(other?: Term | null): boolean {
+		return (
+			!!other &&
+			other.termType === this.termType &&
+			other.subject.equals(this.subject) &&
+			other.predicate.equals(this.predicate) &&
+			other.object.equals(this.object) &&
+			other.graph.equals(this.graph)
+		);
+	}
+}
+
+/** Any RDF term */
+export type Term =
+	| NamedNode
+	| BlankNode
+	| Literal
+	| Variable
+	| DefaultGraph
+	| Quad;
+
+/** RDF/JS DataFactory interface */
+export interface DataFactory {
+	namedNode<Iri extends string = string>(value: Iri): NamedNode<Iri>;
+	blankNode(value?: string): BlankNode;
+	literal(value: string, languageOrDatatype?: string | NamedNode): Literal;
+	variable(value: string): Variable;
+	defaultGraph(): DefaultGraph;
+	quad(
+		subject: QuadSubject,
+		predicate: QuadPredicate,
+		object: QuadObject,
+		graph?: QuadGraph,
+	): Quad;
+	fromTerm<T extends Term>(original: T): T;
+	fromQuad(original: Quad): Quad;
+}
+
+let blankNodeCounter = 0;
+
+/** Default RDF/JS DataFactory implementation */
+export const dataFactory: DataFactory = {
+	namedNode(value) {
+		return new NamedNode(value);
+	},
+
+	blankNode(value) {
+		return new BlankNode(value ?? `b${blankNodeCounter++}`);
+	},
+
+	literal(value, languageOrDatatype) {
+		if (typeof languageOrDatatype === "string") {
+			return new Literal(value, languageOrDatatype);
+		}
+		return new Literal(value, "", languageOrDatatype);
+	},
+
+	variable(value) {
+		return new Variable(value);
+	},
+
+	defaultGraph() {
+		return DefaultGraph.instance;
+	},
+
+	quad(subject, predicate, object, graph) {
+		return new Quad(subject, predicate, object, graph);
+	},
+
+	fromTerm<T extends Term>(original: T): T {
+		switch (original.termType) {
+			case "NamedNode":
+				return new NamedNode(original.value) as T;
+			case "BlankNode":
+				return new BlankNode(original.value) as T;
+			case "Literal":
+				return new Literal(
+					original.value,
+					original.language,
+					new NamedNode(original.datatype.value),
+				) as T;
+			case "Variable":
+				return new Variable(original.value) as T;
+			case "DefaultGraph":
+				return DefaultGraph.instance as T;
+			case "Quad":
+				return this.fromQuad(original) as T;
+		}
+	},
+
+	fromQuad(original) {
+		return new Quad(
+			this.fromTerm(original.subject),
+			this.fromTerm(original.predicate),
+			this.fromTerm(original.object),
+			this.fromTerm(original.graph),
+		);
+	},
+};
+
+/** SPARQL JSON results representation of a single RDF term */
+export interface SparqlTerm {
+	type: "uri" | "literal" | "bnode";
+	value: string;
+	datatype?: string;
+	"xml:lang"?: string;
+}
+
+/** Convert a SPARQL JSON results term into an RDF/JS term */
+export function fromSparqlTerm(
+	term: SparqlTerm,
+): NamedNode | BlankNode | Literal {
+	switch (term.type) {
+		case "uri":
+			return new NamedNode(term.value);
+		case "bnode":
+			return new BlankNode(term.value);
+		default:
+			return new Literal(
+				term.value,
+				term["xml:lang"],
+				term.datatype ? new NamedNode(term.datatype) : undefined,
+			);
+	}
+}
+
+/** A single solution of a SELECT query as RDF/JS terms */
+export type TermBindings = Record<string, NamedNode | BlankNode | Literal>;
+
+/** Convert SPARQL JSON results into rows of RDF/JS terms */
+export function toTermBindings(result: SparqlBindings): TermBindings[] {
+	return result.results.bindings.map((binding) => {
+		const row: TermBindings = {};
+		for (const [name, term] of Object.entries(binding)) {
+			if (term !== undefined) {
+				row[name] = fromSparqlTerm(term);
+			}
+		}
+		return row;
+	});
+}
+
+/** Convert an RDF/JS term into its SPARQL JSON results representation */
+export function toSparqlTerm(
+	term: NamedNode | BlankNode | Literal,
+): SparqlTerm {
+	switch (term.termType) {
+		case "NamedNode":
+			return { type: "uri", value: term.value };
+		case "BlankNode":
+			return { type: "bnode", value: term.value };
+		case "Literal": {
+			const result: SparqlTerm = { type: "literal", value: term.value };
+			if (term.language) {
+				result["xml:lang"] = term.language;
+			} else if (term.datatype.value !== XSD_STRING) {
+				result.datatype = term.datatype.value;
+			}
+			return result;
+		}
+	}
+}
+
+/** Escape a string for use inside an N-Triples IRI reference */
+export function escapeIri(iri: string): string {
+	return iri.replace(
+		// biome-ignore lint/suspicious/noControlCharactersInRegex: control characters are not allowed in IRIs
+		/[\u0000- <>"{}|^`\\]/g,
+		(char) =>
+			`\\u${char.charCodeAt(0).toString(16).toUpperCase().padStart(4, "0")}`,
+	);
+}
+
+/** Escape a string for use inside an N-Triples quoted literal */
+export function escapeLiteral(value: string): string {
+	return value.replace(/["\\\n\r]/g, (char) => {
+		switch (char) {
+			case "\n":
+				return "\\n";
+			case "\r":
+				return "\\r";
+			default:
+				return `\\${char}`;
+		}
+	});
+}
+
+/** Encode a term in N-Triples syntax (as used by RDF4J request parameters) */
+export function termToString(term: Term): string {
+	switch (term.termType) {
+		case "NamedNode":
+			return `<${escapeIri(term.value)}>`;
+		case "BlankNode":
+			return `_:${term.value}`;
+		case "Literal": {
+			const quoted = `"${escapeLiteral(term.value)}"`;
+			if (term.language) {
+				return `${quoted}@${term.language}`;
+			}
+			if (term.datatype.value === XSD_STRING) {
+				return quoted;
+			}
+			return `${quoted}^^<${escapeIri(term.datatype.value)}>`;
+		}
+		case "Variable":
+			return `?${term.value}`;
+		case "DefaultGraph":
+			return "";
+		case "Quad":
+			return `<< ${termToString(term.subject)} ${termToString(term.predicate)} ${termToString(term.object)} >>`;
+	}
+}
+
+/**
+ * Encode a statement filter value as an RDF4J request parameter.
+ * Strings are assumed to be N-Triples encoded already.
+ */
+export function encodeTerm(
+	term: string | Term | undefined,
+): string | undefined {
+	if (term === undefined || typeof term === "string") {
+		return term;
+	}
+	return term.termType === "DefaultGraph" ? "null" : termToString(term);
+}
+
+/** Encode one or more contexts as an RDF4J `context` request parameter */
+export function encodeContext(
+	context: string | Term | Array<string | Term> | undefined,
+): string | undefined {
+	if (Array.isArray(context)) {
+		return context.map((c) => encodeTerm(c)).join(",");
+	}
+	return encodeTerm(context);
+}
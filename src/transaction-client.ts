@@ -1,10 +1,38 @@
+import { type BindingsStream, openBindingsStream } from "./bindings-stream.ts";
 import type { HttpClient } from "./http-client.ts";
+import type { SelectBuilder } from "./query-builder.ts";
+import { type QueryResult, requireQueryForm } from "./query-form.ts";
+import {
+	parseQuads,
+	prepareRdfPayload,
+	type RdfPayload,
+} from "./rdf-formats.ts";
 import type {
 	QueryOptions,
 	SparqlBindings,
+	SparqlBooleanResult,
 	StatementOptions,
+	UploadOptions,
 } from "./repository-client.ts";
-import { ContentTypes } from "./types.ts";
+import {
+	mapBindings,
+	mapRows,
+	type NativeRow,
+	type ResultMappingOptions,
+	type ResultSchema,
+	type SchemaRow,
+} from "./result-mapping.ts";
+import { sparqlResultsMediaType } from "./sparql-results.ts";
+import { queryText, type SparqlQuery } from "./sparql-template.ts";
+import {
+	encodeContext,
+	encodeTerm,
+	type Quad,
+	type QuadGraph,
+	type TermBindings,
+	toTermBindings,
+} from "./terms.ts";
+import { ContentTypes, type SignalOptions } from "./types.ts";
 
 /** Client for transaction operations */
 export class TransactionClient {
@@ -30,11 +58,83 @@ export class TransactionClient {
 		return this.active;
 	}
 
-	/** Execute a SPARQL query within the transaction */
-	async query(sparql: string, options?: QueryOptions): Promise<SparqlBindings> {
+	/** Execute a SPARQL SELECT query within the transaction */
+	async query<V extends string = string>(
+		sparql: SparqlQuery | SelectBuilder<V>,
+		options?: QueryOptions,
+	): Promise<SparqlBindings<V>> {
+		return this.evaluate<SparqlBindings<V>>(
+			sparql,
+			options?.accept ?? sparqlResultsMediaType(options?.format),
+			options,
+		);
+	}
+
+	/**
+	 * Execute a SPARQL query of any form within the transaction, requesting
+	 * the result type that matches the query form
+	 */
+	async execute<V extends string = string>(
+		sparql: SparqlQuery | SelectBuilder<V>,
+		options?: Omit<QueryOptions, "accept">,
+	): Promise<QueryResult<V>> {
+		switch (requireQueryForm(sparql)) {
+			case "SELECT":
+				return {
+					type: "bindings",
+					bindings: await this.query(sparql, options),
+				};
+			case "ASK": {
+				const result = await this.evaluate<SparqlBooleanResult>(
+					sparql,
+					ContentTypes.SPARQL_RESULTS_JSON,
+					options,
+				);
+				return { type: "boolean", boolean: result.boolean };
+			}
+			case "CONSTRUCT":
+			case "DESCRIBE": {
+				const ntriples = await this.evaluate<string>(
+					sparql,
+					ContentTypes.NTRIPLES,
+					options,
+				);
+				return {
+					type: "graph",
+					quads: parseQuads(ntriples ?? "", ContentTypes.NTRIPLES),
+				};
+			}
+		}
+	}
+
+	/** POST a query to the transaction */
+	private async evaluate<T>(
+		sparql: SparqlQuery,
+		accept: string,
+		options?: QueryOptions,
+	): Promise<T> {
 		this.ensureActive();
-		return this.http.post<SparqlBindings>(this.basePath, {
-			body: sparql,
+		return this.http.post<T>(this.basePath, {
+			body: queryText(sparql),
+			contentType: ContentTypes.SPARQL_QUERY,
+			params: {
+				action: "QUERY",
+				infer: options?.infer,
+			},
+			accept,
+			timeout: options?.timeout,
+			signal: options?.signal,
+		});
+	}
+
+	/** Execute a SPARQL SELECT query within the transaction, streaming rows */
+	async queryStream(
+		sparql: SparqlQuery,
+		options?: Omit<QueryOptions, "accept" | "format">,
+	): Promise<BindingsStream> {
+		this.ensureActive();
+		const response = await this.http.requestStream("POST", this.basePath, {
+			body: queryText(sparql),
 			contentType: ContentTypes.SPARQL_QUERY,
 			params: {
 				action: "QUERY",
@@ -42,38 +142,77 @@ export class TransactionClient {
 			},
 			accept: ContentTypes.SPARQL_RESULTS_JSON,
 			timeout: options?.timeout,
+			signal: options?.signal,
 		});
+		return openBindingsStream(response, options?.signal);
+	}
+
+	/** Execute a SPARQL SELECT query within the transaction, returning terms */
+	async queryTerms(
+		sparql: SparqlQuery,
+		options?: QueryOptions,
+	): Promise<TermBindings[]> {
+		return toTermBindings(await this.query(sparql, options));
+	}
+
+	/**
+	 * Execute a SPARQL SELECT query within the transaction, returning rows
+	 * of native values (see `mapBindings`), or rows validated against
+	 * `options.schema` (see `mapRows`)
+	 */
+	async queryRows<S extends ResultSchema>(
+		sparql: SparqlQuery,
+		options: QueryOptions & ResultMappingOptions & { schema: S },
+	): Promise<SchemaRow<S>[]>;
+	async queryRows<V extends string = string>(
+		sparql: SparqlQuery | SelectBuilder<V>,
+		options?: QueryOptions & ResultMappingOptions,
+	): Promise<NativeRow<V>[]>;
+	async queryRows(
+		sparql: SparqlQuery,
+		options?: QueryOptions & ResultMappingOptions & { schema?: ResultSchema },
+	): Promise<unknown[]> {
+		const result = await this.query(sparql, options);
+		return options?.schema
+			? mapRows(result, options.schema, options)
+			: mapBindings(result, options);
 	}
 
 	/** Execute a SPARQL update within the transaction */
-	async update(sparql: string, options?: { timeout?: number }): Promise<void> {
+	async update(
+		sparql: SparqlQuery,
+		options?: SignalOptions & { timeout?: number },
+	): Promise<void> {
 		this.ensureActive();
 		await this.http.post<void>(this.basePath, {
-			body: sparql,
+			body: queryText(sparql),
 			contentType: ContentTypes.SPARQL_UPDATE,
 			params: { action: "UPDATE" },
 			timeout: options?.timeout,
+			signal: options?.signal,
 		});
 	}
 
-	/** Add RDF statements within the transaction */
+	/** Add RDF statements within the transaction (quads default to N-Quads) */
 	async add(
 		data: string,
-		options: {
-			contentType: string;
-			context?: string;
-			baseURI?: string;
-		},
-	): Promise<void> {
+		options: UploadOptions & { contentType: string },
+	): Promise<void>;
+	async add(quads: Iterable<Quad>, options?: UploadOptions): Promise<void>;
+	async add(bytes: Uint8Array, options?: UploadOptions): Promise<void>;
+	async add(data: RdfPayload, options?: UploadOptions): Promise<void> {
 		this.ensureActive();
+		const payload = prepareRdfPayload(data, options?.contentType);
 		await this.http.put<void>(this.basePath, {
-			body: data,
-			contentType: options.contentType,
+			body: payload.body,
+			contentType: payload.contentType,
 			params: {
 				action: "ADD",
-				context: options.context,
-				baseURI: options.baseURI,
+				context: encodeContext(options?.context),
+				baseURI: options?.baseURI,
 			},
+			idempotent: false,
+			signal: options?.signal,
 		});
 	}
 
@@ -83,70 +222,106 @@ export class TransactionClient {
 		await this.http.post<void>(this.basePath, {
 			params: {
 				action: "DELETE",
-				subj: options?.subj,
-				pred: options?.pred,
-				obj: options?.obj,
-				context: Array.isArray(options?.context)
-					? options?.context.join(",")
-					: options?.context,
+				subj: encodeTerm(options?.subj),
+				pred: encodeTerm(options?.pred),
+				obj: encodeTerm(options?.obj),
+				context: encodeContext(options?.context),
 			},
+			signal: options?.signal,
 		});
 	}
 
-	/** Get statements within the transaction */
+	/** Get statements within the transaction (bytes for binary RDF) */
+	async getStatements(
+		options: StatementOptions & { accept: typeof ContentTypes.BINARY_RDF },
+	): Promise<Uint8Array>;
+	async getStatements(
+		options?: StatementOptions & { accept?: string },
+	): Promise<string>;
 	async getStatements(
 		options?: StatementOptions & { accept?: string },
-	): Promise<string> {
+	): Promise<string | Uint8Array> {
 		this.ensureActive();
-		return this.http.post<string>(this.basePath, {
+		return this.http.post<string | Uint8Array>(this.basePath, {
 			params: {
 				action: "GET",
-				subj: options?.subj,
-				pred: options?.pred,
-				obj: options?.obj,
-				context: Array.isArray(options?.context)
-					? options?.context.join(",")
-					: options?.context,
+				subj: encodeTerm(options?.subj),
+				pred: encodeTerm(options?.pred),
+				obj: encodeTerm(options?.obj),
+				context: encodeContext(options?.context),
 				infer: options?.infer,
 			},
 			accept: options?.accept ?? ContentTypes.TURTLE,
+			signal: options?.signal,
+		});
+	}
+
+	/** Get statements within the transaction as quads */
+	async getQuads(options?: StatementOptions): Promise<Quad[]> {
+		const nquads = await this.getStatements({
+			...options,
+			accept: ContentTypes.NQUADS,
 		});
+		return parseQuads(nquads ?? "", ContentTypes.NQUADS);
 	}
 
 	/** Get size within the transaction */
-	async size(context?: string): Promise<number> {
+	async size(
+		context?: string | QuadGraph,
+		options?: SignalOptions,
+	): Promise<number> {
 		this.ensureActive();
 		const result = await this.http.post<string>(this.basePath, {
 			params: {
 				action: "SIZE",
-				context,
+				context: encodeContext(context),
 			},
 			accept: ContentTypes.TEXT,
+			signal: options?.signal,
 		});
 		return parseInt(result, 10);
 	}
 
 	/** Commit the transaction */
-	async commit(): Promise<void> {
+	async commit(options?: SignalOptions): Promise<void> {
 		this.ensureActive();
 		await this.http.put<void>(this.basePath, {
 			params: { action: "COMMIT" },
+			idempotent: false,
+			signal: options?.signal,
 		});
 		this.active = false;
 	}
 
+	/**
+	 * Prepare the transaction for commit without committing it, which runs
+	 * validation such as SHACL checks. The transaction stays active.
+	 */
+	async prepare(options?: SignalOptions): Promise<void> {
+		this.ensureActive();
+		await this.http.put<void>(this.basePath, {
+			params: { action: "PREPARE" },
+			idempotent: false,
+			signal: options?.signal,
+		});
+	}
+
 	/** Rollback the transaction */
-	async rollback(): Promise<void> {
+	async rollback(options?: SignalOptions): Promise<void> {
 		this.ensureActive();
-		await this.http.delete<void>(this.basePath);
+		await this.http.delete<void>(this.basePath, {
+			idempotent: false,
+			signal: options?.signal,
+		});
 		this.active = false;
 	}
 
 	/** Ping to keep transaction alive */
-	async ping(): Promise<void> {
+	async ping(options?: SignalOptions): Promise<void> {
 		this.ensureActive();
 		await this.http.post<void>(this.basePath, {
 			params: { action: "PING" },
+			signal: options?.signal,
 		});
 	}
 
@@ -0,0 +1,95 @@
+import { expect, test } from "bun:test";
+import { RDF4JClient } from "./client.ts";
+import { MockRDF4JServer } from "./mock-server.ts";
+import { dataFactory as df } from "./terms.ts";
+import {
+	parseTransaction,
+	TransactionDocument,
+} from "./transaction-document.ts";
+
+const ex = (name: string) => df.namedNode(`http://example.org/${name}`);
+
+test("TransactionDocument serializes operations as transaction XML", () => {
+	const document = new TransactionDocument()
+		.add([
+			df.quad(ex("s"), ex("p"), df.literal("a < b", "en")),
+			df.quad(ex("s"), ex("p"), df.blankNode("b1"), ex("g")),
+		])
+		.removeMatches({ subject: ex("s"), contexts: [df.defaultGraph()] })
+		.clear(ex("g"))
+		.setNamespace("ex", "http://example.org/")
+		.removeNamespace("old")
+		.clearNamespaces();
+
+	expect(document.size).toBe(7);
+	expect(document.toString()).toBe(
+		[
+			'<?xml version="1.0" encoding="UTF-8"?>',
+			"<transaction>",
+			'\t<add><uri>http://example.org/s</uri><uri>http://example.org/p</uri><literal xml:lang="en">a &lt; b</literal><contexts/></add>',
+			"\t<add><uri>http://example.org/s</uri><uri>http://example.org/p</uri><bnode>b1</bnode><contexts><uri>http://example.org/g</uri></contexts></add>",
+			"\t<remove><uri>http://example.org/s</uri><null/><null/><contexts><null/></contexts></remove>",
+			"\t<clear><contexts><uri>http://example.org/g</uri></contexts></clear>",
+			'\t<setNamespace prefix="ex" name="http://example.org/"/>',
+			'\t<removeNamespace prefix="old"/>',
+			"\t<clearNamespaces/>",
+			"</transaction>",
+			"",
+		].join("\n"),
+	);
+});
+
+test("parseTransaction reads serialized operations", () => {
+	const quad = df.quad(ex("s"), ex("p"), df.literal("1", ex("type")), ex("g"));
+	const operations = parseTransaction(
+		new TransactionDocument()
+			.add([quad])
+			.remove([quad])
+			.clear()
+			.setNamespace("ex", "http://example.org/")
+			.toString(),
+	);
+
+	expect(operations).toHaveLength(4);
+	const [add, remove, clear, namespace] = operations;
+	expect(add?.type === "add" && add.quad.equals(quad)).toBe(true);
+	expect(remove).toMatchObject({
+		type: "remove",
+		pattern: { subject: ex("s"), contexts: [ex("g")] },
+	});
+	expect(clear).toEqual({ type: "clear", contexts: [] });
+	expect(namespace).toEqual({
+		type: "setNamespace",
+		prefix: "ex",
+		namespace: "http://example.org/",
+	});
+	expect(() =>
+		new TransactionDocument()
+			.add([df.quad(df.variable("s"), ex("p"), ex("o"))])
+			.toString(),
+	).toThrow(TypeError);
+});
+
+test("RepositoryClient.applyTransaction posts the document", async () => {
+	const server = new MockRDF4JServer({ repositories: ["test"] });
+	const repo = new RDF4JClient({
+		baseUrl: "http://mock",
+		fetch: server.fetch,
+	}).repository("test");
+	await repo.add([
+		df.quad(ex("old"), ex("p"), ex("o")),
+		df.quad(ex("old"), ex("p"), ex("o"), ex("g")),
+	]);
+
+	await repo.applyTransaction(
+		new TransactionDocument()
+			.removeMatches({ subject: ex("old") })
+			.add([df.quad(ex("new"), ex("p"), ex("o"), ex("g"))])
+			.setNamespace("ex", "http://example.org/"),
+	);
+
+	const quads = await repo.getQuads();
+	expect(quads).toHaveLength(1);
+	expect(quads[0]?.subject.equals(ex("new"))).toBe(true);
+	expect(await repo.getNamespace("ex")).toBe("http://example.org/");
+});
@@ -0,0 +1,273 @@
+import {
+	BlankNode,
+	DefaultGraph,
+	Literal,
+	NamedNode,
+	Quad,
+	type QuadGraph,
+	type QuadObject,
+	type QuadPredicate,
+	type QuadSubject,
+	type Term,
+} from "./terms.ts";
+import { RDFParseError } from "./types.ts";
+import {
+	childElements,
+	escapeXml,
+	localName,
+	parseXml,
+	textContent,
+	type XmlElement,
+} from "./xml.ts";
+
+/** Statements to remove; omitted terms are wildcards */
+export interface StatementPattern {
+	subject?: QuadSubject;
+	predicate?: QuadPredicate;
+	object?: QuadObject;
+	/** Contexts to remove from (default: all contexts) */
+	contexts?: QuadGraph[];
+}
+
+/** A single operation of a transaction document */
+export type TransactionOperation =
+	| { type: "add"; quad: Quad }
+	| { type: "remove"; pattern: StatementPattern }
+	| { type: "clear"; contexts: QuadGraph[] }
+	| { type: "setNamespace"; prefix: string; namespace: string }
+	| { type: "removeNamespace"; prefix: string }
+	| { type: "clearNamespaces" };
+
+/**
+ * Accumulates statement and namespace operations to submit as a single
+ * `application/x-rdftransaction` document with
+ * `RepositoryClient.applyTransaction`. The server applies all operations
+ * atomically in one request.
+ */
+export class TransactionDocument {
+	readonly operations: TransactionOperation[] = [];
+
+	/** Number of operations in the document */
+	get size(): number {
+		return this.operations.length;
+	}
+
+	/** Add quads to their graphs */
+	add(quads: Iterable<Quad>): this {
+		for (const quad of quads) {
+			this.operations.push({ type: "add", quad });
+		}
+		return this;
+	}
+
+	/** Remove quads from their graphs */
+	remove(quads: Iterable<Quad>): this {
+		for (const quad of quads) {
+			this.operations.push({
+				type: "remove",
+				pattern: {
+					subject: quad.subject,
+					predicate: quad.predicate,
+					object: quad.object,
+					contexts: [quad.graph],
+				},
+			});
+		}
+		return this;
+	}
+
+	/** Remove all statements matching a pattern */
+	removeMatches(pattern: StatementPattern): this {
+		this.operations.push({ type: "remove", pattern });
+		return this;
+	}
+
+	/** Remove all statements from the given contexts, or from every context */
+	clear(...contexts: QuadGraph[]): this {
+		this.operations.push({ type: "clear", contexts });
+		return this;
+	}
+
+	/** Set a namespace prefix */
+	setNamespace(prefix: string, namespace: string): this {
+		this.operations.push({ type: "setNamespace", prefix, namespace });
+		return this;
+	}
+
+	/** Remove a namespace prefix */
+	removeNamespace(prefix: string): this {
+		this.operations.push({ type: "removeNamespace", prefix });
+		return this;
+	}
+
+	/** Remove all namespace prefixes */
+	clearNamespaces(): this {
+		this.operations.push({ type: "clearNamespaces" });
+		return this;
+	}
+
+	/** Serialize the document in RDF4J's transaction XML format */
+	toString(): string {
+		return serializeTransaction(this.operations);
+	}
+}
+
+/** Serialize a term; wildcards and the default graph are `<null/>` */
+function serializeTerm(term: Term | undefined): string {
+	if (term === undefined) {
+		return "<null/>";
+	}
+	switch (term.termType) {
+		case "DefaultGraph":
+			return "<null/>";
+		case "NamedNode":
+			return `<uri>${escapeXml(term.value)}</uri>`;
+		case "BlankNode":
+			return `<bnode>${escapeXml(term.value)}</bnode>`;
+		case "Literal": {
+			const attribute = term.language
+				? ` xml:lang="${escapeXml(term.language)}"`
+				: ` datatype="${escapeXml(term.datatype.value)}"`;
+			return `<literal${attribute}>${escapeXml(term.value)}</literal>`;
+		}
+		default:
+			throw new TypeError(
+				`${term.termType} terms cannot be used in a transaction document`,
+			);
+	}
+}
+
+function serializeContexts(contexts: readonly QuadGraph[]): string {
+	return contexts.length === 0
+		? "<contexts/>"
+		: `<contexts>${contexts.map((context) => serializeTerm(context)).join("")}</contexts>`;
+}
+
+function serializeOperation(operation: TransactionOperation): string {
+	switch (operation.type) {
+		case "add": {
+			const { subject, predicate, object, graph } = operation.quad;
+			// Statements added without contexts go to the default graph
+			const contexts = graph.termType === "DefaultGraph" ? [] : [graph];
+			return `<add>${[subject, predicate, object].map((term) => serializeTerm(term)).join("")}${serializeContexts(contexts)}</add>`;
+		}
+		case "remove": {
+			const { subject, predicate, object, contexts = [] } = operation.pattern;
+			return `<remove>${[subject, predicate, object].map((term) => serializeTerm(term)).join("")}${serializeContexts(contexts)}</remove>`;
+		}
+		case "clear":
+			return `<clear>${serializeContexts(operation.contexts)}</clear>`;
+		case "setNamespace":
+			return `<setNamespace prefix="${escapeXml(operation.prefix)}" name="${escapeXml(operation.namespace)}"/>`;
+		case "removeNamespace":
+			return `<removeNamespace prefix="${escapeXml(operation.prefix)}"/>`;
+		case "clearNamespaces":
+			return "<clearNamespaces/>";
+	}
+}
+
+/** Serialize operations in RDF4J's transaction XML format */
+export function serializeTransaction(
+	operations: Iterable<TransactionOperation>,
+): string {
+	const lines = ['<?xml version="1.0" encoding="UTF-8"?>', "<transaction>"];
+	for (const operation of operations) {
+		lines.push(`\t${serializeOperation(operation)}`);
+	}
+	lines.push("</transaction>", "");
+	return lines.join("\n");
+}
+
+function parseTerm(element: XmlElement): Term | undefined {
+	switch (localName(element.name)) {
+		case "null":
+			return undefined;
+		case "uri":
+			return new NamedNode(textContent(element));
+		case "bnode":
+			return new BlankNode(textContent(element));
+		case "literal": {
+			const datatype = element.attributes.datatype;
+			return new Literal(
+				textContent(element),
+				element.attributes["xml:lang"],
+				datatype ? new NamedNode(datatype) : undefined,
+			);
+		}
+		default:
+			throw new RDFParseError(
+				`Unexpected transaction element <${element.name}>`,
+			);
+	}
+}
+
+function parseContexts(element: XmlElement): QuadGraph[] {
+	const [contexts] = childElements(element, "contexts");
+	return contexts
+		? childElements(contexts).map(
+				(context) => (parseTerm(context) ?? new DefaultGraph()) as QuadGraph,
+			)
+		: [];
+}
+
+function parseStatement(element: XmlElement): StatementPattern {
+	const [subject, predicate, object] = childElements(element)
+		.filter((child) => localName(child.name) !== "contexts")
+		.map((child) => parseTerm(child));
+	return {
+		subject: subject as QuadSubject | undefined,
+		predicate: predicate as QuadPredicate | undefined,
+		object: object as QuadObject | undefined,
+		contexts: parseContexts(element),
+	};
+}
+
+/** Parse a transaction XML document into its operations */
+export function parseTransaction(xml: string): TransactionOperation[] {
+	const root = parseXml(xml);
+	if (localName(root.name) !== "transaction") {
+		throw new RDFParseError(`Expected <transaction>, found <${root.name}>`);
+	}
+
+	return childElements(root).flatMap((element): TransactionOperation[] => {
+		const { attributes } = element;
+		switch (localName(element.name)) {
+			case "add": {
+				const {
+					subject,
+					predicate,
+					object,
+					contexts = [],
+				} = parseStatement(element);
+				if (!subject || !predicate || !object) {
+					throw new RDFParseError("Incomplete statement in <add>");
+				}
+				const graphs = contexts.length === 0 ? [new DefaultGraph()] : contexts;
+				return graphs.map((graph) => ({
+					type: "add",
+					quad: new Quad(subject, predicate, object, graph),
+				}));
+			}
+			case "remove":
+				return [{ type: "remove", pattern: parseStatement(element) }];
+			case "clear":
+				return [{ type: "clear", contexts: parseContexts(element) }];
+			case "setNamespace":
+				return [
+					{
+						type: "setNamespace",
+						prefix: attributes.prefix ?? "",
+						namespace: attributes.name ?? "",
+					},
+				];
+			case "removeNamespace":
+				return [{ type: "removeNamespace", prefix: attributes.prefix ?? "" }];
+			case "clearNamespaces":
+				return [{ type: "clearNamespaces" }];
+			default:
+				throw new RDFParseError(
+					`Unsupported transaction operation <${element.name}>`,
+				);
+		}
+	});
+}
@@ -0,0 +1,231 @@
+import { expect, test } from "bun:test";
+import { parseNQuads } from "./ntriples.ts";
+import { dataFactory, Namespaces, type Quad } from "./terms.ts";
+import {
+	parseTriG,
+	parseTurtle,
+	resolveIri,
+	serializeTriG,
+	serializeTurtle,
+	TurtleParser,
+} from "./turtle.ts";
+import { RDFParseError } from "./types.ts";
+
+const { namedNode, literal, quad } = dataFactory;
+
+/** Compare quad sets while ignoring blank node labels */
+function shape(quads: Quad[]): string[] {
+	const labels = new Map<string, string>();
+	const term = (
+		t: Quad["subject"] | Quad["object"] | Quad["graph"],
+	): string => {
+		if (t.termType === "BlankNode") {
+			let label = labels.get(t.value);
+			if (!label) {
+				label = `_:${labels.size}`;
+				labels.set(t.value, label);
+			}
+			return label;
+		}
+		if (t.termType === "Literal") {
+			return `"${t.value}"@${t.language}^^${t.datatype.value}`;
+		}
+		return t.value;
+	};
+	return quads.map(
+		(q) =>
+			`${term(q.subject)} ${q.predicate.value} ${term(q.object)} ${term(q.graph)}`,
+	);
+}
+
+test("parseTurtle handles prefixes, lists and shorthand", () => {
+	const quads = parseTurtle(`
+		@prefix ex: <http://example.org/> .
+		PREFIX xsd: <http://www.w3.org/2001/XMLSchema#>
+		# comment
+		ex:s a ex:Type ;
+			ex:name "Alice"@en, 'Bob' ;
+			ex:age 42 ;
+			ex:score -1.5 ;
+			ex:big 1e3 ;
+			ex:ok true ;
+			ex:when "2024-01-01"^^xsd:date ;
+			ex:knows [ ex:name """multi
+line""" ] ;
+			ex:list ( 1 ex:x ) .
+	`);
+
+	const byPredicate = (local: string) =>
+		quads.filter((q) => q.predicate.value === `http://example.org/${local}`);
+
+	expect(quads[0]?.predicate.value).toBe(`${Namespaces.RDF}type`);
+	expect(byPredicate("name")[0]?.object.equals(literal("Alice", "en"))).toBe(
+		true,
+	);
+	expect(byPredicate("name")[1]?.object.equals(literal("Bob"))).toBe(true);
+	expect(
+		byPredicate("age")[0]?.object.equals(
+			literal("42", namedNode(`${Namespaces.XSD}integer`)),
+		),
+	).toBe(true);
+	expect(
+		(byPredicate("score")[0]?.object as { datatype: { value: string } })
+			.datatype.value,
+	).toBe(`${Namespaces.XSD}decimal`);
+	expect(
+		(byPredicate("big")[0]?.object as { datatype: { value: string } }).datatype
+			.value,
+	).toBe(`${Namespaces.XSD}double`);
+	expect(byPredicate("name")[2]?.object.value).toBe("multi\nline");
+	expect(byPredicate("knows")[0]?.object.termType).toBe("BlankNode");
+	// rdf:first/rdf:rest chain for a two-element list
+	expect(
+		quads.filter((q) => q.predicate.value === `${Namespaces.RDF}first`),
+	).toHaveLength(2);
+});
+
+test("parseTurtle resolves relative IRIs against @base", () => {
+	const quads = parseTurtle(
+		"@base <http://example.org/a/b> . <c> <#p> <../d> .",
+	);
+	expect(quads[0]?.subject.value).toBe("http://example.org/a/c");
+	expect(quads[0]?.predicate.value).toBe("http://example.org/a/b#p");
+	expect(quads[0]?.object.value).toBe("http://example.org/d");
+});
+
+test("resolveIri follows RFC 3986 examples", () => {
+	const base = "http://a/b/c/d;p?q";
+	expect(resolveIri("g", base)).toBe("http://a/b/c/g");
+	expect(resolveIri("./g", base)).toBe("http://a/b/c/g");
+	expect(resolveIri("/g", base)).toBe("http://a/g");
+	expect(resolveIri("//g", base)).toBe("http://g");
+	expect(resolveIri("?y", base)).toBe("http://a/b/c/d;p?y");
+	expect(resolveIri("#s", base)).toBe("http://a/b/c/d;p?q#s");
+	expect(resolveIri("../..", base)).toBe("http://a/");
+	expect(resolveIri("../../../g", base)).toBe("http://a/g");
+	expect(resolveIri("urn:x", base)).toBe("urn:x");
+});
+
+test("TurtleParser exposes declared prefixes", () => {
+	const parser = new TurtleParser();
+	parser.parse("@prefix ex: <http://example.org/> . ex:a ex:b ex:c .");
+	expect(parser.prefixes).toEqual({ ex: "http://example.org/" });
+});
+
+test("parseTurtle reports errors with position", () => {
+	expect(() => parseTurtle("ex:a ex:b ex:c .")).toThrow(RDFParseError);
+	try {
+		parseTurtle('<http://a> <http://b>\n  "unterminated .');
+	} catch (e) {
+		expect((e as RDFParseError).line).toBe(2);
+	}
+});
+
+test("parseTriG reads graph blocks", () => {
+	const quads = parseTriG(`
+		@prefix ex: <http://example.org/> .
+		ex:s ex:p ex:o .
+		ex:g1 { ex:s ex:p ex:o1 }
+		GRAPH ex:g2 { ex:s ex:p ex:o2 . ex:s ex:p ex:o3 }
+		{ ex:s ex:p ex:o4 }
+	`);
+	expect(quads.map((q) => q.graph.value)).toEqual([
+		"",
+		"http://example.org/g1",
+		"http://example.org/g2",
+		"http://example.org/g2",
+		"",
+	]);
+});
+
+test("serializeTurtle pretty-prints with prefixes and nested blank nodes", () => {
+	const quads = parseTurtle(`
+		@prefix ex: <http://example.org/> .
+		ex:s a ex:Type ; ex:p "x", 1 ; ex:knows [ ex:name "n" ] .
+	`);
+	const turtle = serializeTurtle(quads, {
+		prefixes: { ex: "http://example.org/", unused: "http://unused/" },
+	});
+
+	expect(turtle).toBe(
+		[
+			"@prefix ex: <http://example.org/> .",
+			"",
+			"ex:s a ex:Type ;",
+			'\tex:p "x", 1 ;',
+			"\tex:knows [",
+			'\t\tex:name "n"',
+			"\t] .",
+			"",
+		].join("\n"),
+	);
+	expect(shape(parseTurtle(turtle))).toEqual(shape(quads));
+});
+
+test("serializeTriG round-trips named graphs and blank node cycles", () => {
+	const quads = parseNQuads(
+		[
+			"<http://ex/s> <http://ex/p> _:a <http://ex/g> .",
+			"_:a <http://ex/p> _:b <http://ex/g> .",
+			"_:b <http://ex/p> _:a <http://ex/g> .",
+			'<http://ex/s> <http://ex/label> "x" .',
+		].join("\n"),
+	);
+	const trig = serializeTriG(quads, { prefixes: { ex: "http://ex/" } });
+	expect(trig).toContain("ex:g {");
+	expect(shape(parseTriG(trig)).sort()).toEqual(shape(quads).sort());
+});
+
+test("serializeTurtle round-trips lists and rdf:type", () => {
+	const quads = parseTurtle(`
+		@prefix ex: <http://example.org/> .
+		ex:s a ex:Type, ex:Other ;
+			ex:items (1 "two" ex:three [ ex:p ex:o ] (4)) ;
+			ex:empty () .
+	`);
+	const turtle = serializeTurtle(quads, {
+		prefixes: { ex: "http://example.org/" },
+	});
+
+	expect(turtle).toBe(
+		[
+			"@prefix ex: <http://example.org/> .",
+			"",
+			"ex:s a ex:Type, ex:Other ;",
+			'\tex:items ( 1 "two" ex:three [',
+			"\t\tex:p ex:o",
+			"\t] ( 4 ) ) ;",
+			"\tex:empty () .",
+			"",
+		].join("\n"),
+	);
+	expect(shape(parseTurtle(turtle))).toEqual(shape(quads));
+	expect(serializeTurtle(quads)).toStartWith(
+		"<http://example.org/s> a <http://example.org/Type>",
+	);
+});
+
+test("serializeTurtle keeps labels for lists that are not well-formed", () => {
+	const quads = parseTurtle(`
+		@prefix ex: <http://example.org/> .
+		@prefix rdf: <http://www.w3.org/1999/02/22-rdf-syntax-ns#> .
+		ex:a ex:list _:shared .
+		ex:b ex:list _:shared .
+		_:shared rdf:first 1 ; rdf:rest rdf:nil .
+		ex:c ex:list [ rdf:first 1 ; rdf:rest ex:notNil ] .
+		ex:d ex:list [ rdf:first 1, 2 ; rdf:rest rdf:nil ] .
+	`);
+	const turtle = serializeTurtle(quads, {
+		prefixes: { ex: "http://example.org/" },
+	});
+
+	expect(turtle).not.toContain("( 1 )");
+	expect(shape(parseTurtle(turtle)).sort()).toEqual(shape(quads).sort());
+});
+
+test("serializeTurtle falls back to full IRIs", () => {
+	const turtle = serializeTurtle([
+		quad(namedNode("http://ex/a b"), namedNode("http://ex/p"), literal("x")),
+	]);
+	expect(turtle).toBe('<http://ex/a\\u0020b> <http://ex/p> "x" .\n');
+});
@@ -0,0 +1,1113 @@
+import {
+	type BlankNode,
+	type DataFactory,
+	dataFactory,
+	escapeIri,
+	escapeLiteral,
+	type Literal,
+	type NamedNode,
+	Namespaces,
+	type Quad,
+	type QuadGraph,
+	type QuadObject,
+	type QuadPredicate,
+	type QuadSubject,
+	type Term,
+} from "./terms.ts";
+import { RDFParseError } from "./types.ts";
+
+/** Options for the Turtle / TriG parser */
+export interface TurtleParserOptions {
+	/** Accept graph blocks (default: "turtle") */
+	format?: "turtle" | "trig";
+	/** Base IRI to resolve relative IRIs against */
+	baseIRI?: string;
+	/** Factory used to create terms (default: built-in data factory) */
+	factory?: DataFactory;
+}
+
+/** Options for the Turtle / TriG writer */
+export interface TurtleWriterOptions {
+	/** Write graph blocks (default: "turtle", which ignores graphs) */
+	format?: "turtle" | "trig";
+	/** Namespace prefixes used to abbreviate IRIs */
+	prefixes?: Record<string, string>;
+}
+
+const RDF_TYPE = `${Namespaces.RDF}type`;
+const RDF_FIRST = `${Namespaces.RDF}first`;
+const RDF_REST = `${Namespaces.RDF}rest`;
+const RDF_NIL = `${Namespaces.RDF}nil`;
+const XSD_BOOLEAN = `${Namespaces.XSD}boolean`;
+const XSD_INTEGER = `${Namespaces.XSD}integer`;
+const XSD_DECIMAL = `${Namespaces.XSD}decimal`;
+const XSD_DOUBLE = `${Namespaces.XSD}double`;
+
+const PN_CHARS_BASE =
+	/[A-Za-z\u00C0-\u00D6\u00D8-\u00F6\u00F8-\u02FF\u0370-\u037D\u037F-\u1FFF\u200C-\u200D\u2070-\u218F\u2C00-\u2FEF\u3001-\uD7FF\uF900-\uFDCF\uFDF0-\uFFFD\u{10000}-\u{EFFFF}]/u;
+const PN_CHARS =
+	/[-0-9_A-Za-z\u00B7\u00C0-\u00D6\u00D8-\u00F6\u00F8-\u037D\u037F-\u1FFF\u200C-\u200D\u203F\u2040\u2070-\u218F\u2C00-\u2FEF\u3001-\uD7FF\uF900-\uFDCF\uFDF0-\uFFFD\u{10000}-\u{EFFFF}\p{M}]/u;
+const NUMBER =
+	/^[+-]?(?:(?:[0-9]+\.[0-9]*|\.[0-9]+|[0-9]+)[eE][+-]?[0-9]+|[0-9]*\.[0-9]+|[0-9]+)/;
+const LANGUAGE_TAG = /^[a-zA-Z]+(?:-[a-zA-Z0-9]+)*/;
+// biome-ignore lint/suspicious/noControlCharactersInRegex: control characters are not allowed in IRIs
+const INVALID_IRI_CHAR = /[\u0000- <>"{}|^`\\]/;
+const ECHAR: Record<string, string> = {
+	t: "\t",
+	b: "\b",
+	n: "\n",
+	r: "\r",
+	f: "\f",
+	'"': '"',
+	"'": "'",
+	"\\": "\\",
+};
+const LOCAL_ESCAPES = "_~.-!$&'()*+,;=/?#@%";
+
+/** Recursive-descent parser for Turtle and TriG documents */
+export class TurtleParser {
+	/** Prefixes declared by the most recently parsed document */
+	readonly prefixes: Record<string, string> = {};
+
+	private readonly factory: DataFactory;
+	private readonly trig: boolean;
+	private readonly initialBase: string | undefined;
+
+	private text = "";
+	private pos = 0;
+	private base: string | undefined;
+	private graph: QuadGraph;
+	private quads: Quad[] = [];
+	private blankNodes = new Map<string, BlankNode>();
+
+	constructor(options: TurtleParserOptions = {}) {
+		this.factory = options.factory ?? dataFactory;
+		this.trig = options.format === "trig";
+		this.initialBase = options.baseIRI;
+		this.graph = this.factory.defaultGraph();
+	}
+
+	/** Parse a complete document */
+	parse(text: string): Quad[] {
+		this.text = text;
+		this.pos = 0;
+		this.base = this.initialBase;
+		this.graph = this.factory.defaultGraph();
+		this.quads = [];
+		this.blankNodes = new Map();
+		for (const prefix of Object.keys(this.prefixes)) {
+			delete this.prefixes[prefix];
+		}
+
+		this.skipWhitespace();
+		while (this.pos < this.text.length) {
+			this.readStatement();
+			this.skipWhitespace();
+		}
+		return this.quads;
+	}
+
+	private readStatement(): void {
+		if (this.peek() === "@") {
+			this.readDirective();
+			return;
+		}
+		if (this.matchKeyword("PREFIX")) {
+			this.readPrefix();
+			return;
+		}
+		if (this.matchKeyword("BASE")) {
+			this.readBase();
+			return;
+		}
+
+		if (this.trig) {
+			if (this.matchKeyword("GRAPH")) {
+				this.skipWhitespace();
+				this.readGraphBlock(this.readGraphLabel());
+				return;
+			}
+			if (this.peek() === "{") {
+				this.readGraphBlock(this.factory.defaultGraph());
+				return;
+			}
+		}
+
+		this.readTriples(this.trig);
+	}
+
+	private readDirective(): void {
+		if (this.text.startsWith("@prefix", this.pos)) {
+			this.pos += "@prefix".length;
+			this.readPrefix();
+		} else if (this.text.startsWith("@base", this.pos)) {
+			this.pos += "@base".length;
+			this.readBase();
+		} else {
+			throw this.error("Unknown directive");
+		}
+		this.skipWhitespace();
+		this.expect(".");
+	}
+
+	private readPrefix(): void {
+		this.skipWhitespace();
+		const prefix = this.readPrefixLabel();
+		this.expect(":");
+		this.skipWhitespace();
+		this.prefixes[prefix] = this.readIriRef();
+	}
+
+	private readBase(): void {
+		this.skipWhitespace();
+		this.base = this.readIriRef();
+	}
+
+	private readGraphLabel(): NamedNode | BlankNode {
+		if (this.peek() === "[") {
+			this.pos++;
+			this.skipWhitespace();
+			this.expect("]");
+			return this.factory.blankNode();
+		}
+		const term = this.peek() === "_" ? this.readBlankNode() : this.readIri();
+		return term;
+	}
+
+	private readGraphBlock(graph: QuadGraph): void {
+		this.skipWhitespace();
+		this.expect("{");
+		const previous = this.graph;
+		this.graph = graph;
+		this.skipWhitespace();
+		while (this.peek() !== "}") {
+			if (this.pos >= this.text.length) {
+				throw this.error("Unterminated graph block");
+			}
+			this.readTriples(false, true);
+			this.skipWhitespace();
+		}
+		this.pos++;
+		this.graph = previous;
+	}
+
+	/**
+	 * Read a triples statement. In TriG a subject may instead label a graph
+	 * block; inside a block the final '.' is optional before '}'.
+	 */
+	private readTriples(allowGraphLabel: boolean, inBlock = false): void {
+		if (this.peek() === "[") {
+			const subject = this.readBlankNodePropertyList();
+			this.skipWhitespace();
+			if (allowGraphLabel && this.peek() === "{") {
+				this.readGraphBlock(subject);
+				return;
+			}
+			if (this.peek() !== "." && this.peek() !== "}") {
+				this.readPredicateObjectList(subject);
+			}
+		} else {
+			const subject = this.readSubject();
+			this.skipWhitespace();
+			if (allowGraphLabel && this.peek() === "{") {
+				if (
+					subject.termType !== "NamedNode" &&
+					subject.termType !== "BlankNode"
+				) {
+					throw this.error("Invalid graph label");
+				}
+				this.readGraphBlock(subject);
+				return;
+			}
+			this.readPredicateObjectList(subject);
+		}
+
+		this.skipWhitespace();
+		if (inBlock && this.peek() === "}") {
+			return;
+		}
+		this.expect(".");
+	}
+
+	private readPredicateObjectList(subject: QuadSubject): void {
+		for (;;) {
+			this.skipWhitespace();
+			const predicate = this.readVerb();
+			this.readObjectList(subject, predicate);
+			this.skipWhitespace();
+			if (this.peek() !== ";") {
+				return;
+			}
+			while (this.peek() === ";") {
+				this.pos++;
+				this.skipWhitespace();
+			}
+			const next = this.peek();
+			if (next === "." || next === "]" || next === "}" || next === undefined) {
+				return;
+			}
+		}
+	}
+
+	private readObjectList(subject: QuadSubject, predicate: QuadPredicate): void {
+		for (;;) {
+			this.skipWhitespace();
+			const object = this.readObject();
+			this.emit(subject, predicate, object);
+			this.skipWhitespace();
+			if (this.peek() !== ",") {
+				return;
+			}
+			this.pos++;
+		}
+	}
+
+	private readVerb(): QuadPredicate {
+		if (this.peek() === "a" && this.isDelimiter(this.peek(1))) {
+			this.pos++;
+			return this.factory.namedNode(RDF_TYPE);
+		}
+		return this.readIri();
+	}
+
+	private readSubject(): QuadSubject {
+		switch (this.peek()) {
+			case "_":
+				return this.readBlankNode();
+			case "(":
+				return this.readCollection();
+			case "<":
+				return this.peek(1) === "<" ? this.readQuotedTriple() : this.readIri();
+			default:
+				return this.readIri();
+		}
+	}
+
+	private readObject(): QuadObject {
+		const char = this.peek();
+		switch (char) {
+			case "_":
+				return this.readBlankNode();
+			case "[":
+				return this.readBlankNodePropertyList();
+			case "(":
+				return this.readCollection();
+			case "<":
+				return this.peek(1) === "<" ? this.readQuotedTriple() : this.readIri();
+			case '"':
+			case "'":
+				return this.readLiteral();
+		}
+		if (char !== undefined && /[0-9+\-.]/.test(char)) {
+			const match = NUMBER.exec(this.text.slice(this.pos));
+			if (match) {
+				return this.readNumber(match[0]);
+			}
+		}
+		for (const keyword of ["true", "false"]) {
+			if (
+				this.text.startsWith(keyword, this.pos) &&
+				this.isDelimiter(this.peek(keyword.length))
+			) {
+				this.pos += keyword.length;
+				return this.factory.literal(
+					keyword,
+					this.factory.namedNode(XSD_BOOLEAN),
+				);
+			}
+		}
+		return this.readIri();
+	}
+
+	private readQuotedTriple(): Quad {
+		this.expect("<<");
+		this.skipWhitespace();
+		const subject = this.readSubject();
+		this.skipWhitespace();
+		const predicate = this.readVerb();
+		this.skipWhitespace();
+		const object = this.readObject();
+		this.skipWhitespace();
+		this.expect(">>");
+		return this.factory.quad(subject, predicate, object);
+	}
+
+	private readBlankNodePropertyList(): BlankNode {
+		this.expect("[");
+		const node = this.factory.blankNode();
+		this.skipWhitespace();
+		if (this.peek() !== "]") {
+			this.readPredicateObjectList(node);
+			this.skipWhitespace();
+		}
+		this.expect("]");
+		return node;
+	}
+
+	private readCollection(): NamedNode | BlankNode {
+		this.expect("(");
+		const items: QuadObject[] = [];
+		this.skipWhitespace();
+		while (this.peek() !== ")") {
+			if (this.pos >= this.text.length) {
+				throw this.error("Unterminated collection");
+			}
+			items.push(this.readObject());
+			this.skipWhitespace();
+		}
+		this.pos++;
+
+		if (items.length === 0) {
+			return this.factory.namedNode(RDF_NIL);
+		}
+
+		const head = this.factory.blankNode();
+		let node = head;
+		items.forEach((item, i) => {
+			this.emit(node, this.factory.namedNode(RDF_FIRST), item);
+			const rest =
+				i === items.length - 1
+					? this.factory.namedNode(RDF_NIL)
+					: this.factory.blankNode();
+			this.emit(node, this.factory.namedNode(RDF_REST), rest);
+			if (rest.termType === "BlankNode") {
+				node = rest;
+			}
+		});
+		return head;
+	}
+
+	private readIri(): NamedNode {
+		if (this.peek() === "<") {
+			return this.factory.namedNode(this.readIriRef());
+		}
+		return this.readPrefixedName();
+	}
+
+	/** Read an IRIREF and resolve it against the current base */
+	private readIriRef(): string {
+		this.expect("<");
+		let value = "";
+		for (;;) {
+			const char = this.text[this.pos];
+			if (char === undefined) {
+				throw this.error("Unterminated IRI");
+			}
+			this.pos++;
+			if (char === ">") {
+				break;
+			}
+			if (char === "\\") {
+				const escaped = this.readUnicodeEscape();
+				if (INVALID_IRI_CHAR.test(escaped)) {
+					throw this.error("Invalid character in IRI");
+				}
+				value += escaped;
+			} else if (INVALID_IRI_CHAR.test(char)) {
+				throw this.error(`Invalid character ${JSON.stringify(char)} in IRI`);
+			} else {
+				value += char;
+			}
+		}
+		return this.base ? resolveIri(value, this.base) : value;
+	}
+
+	private readPrefixedName(): NamedNode {
+		const start = this.pos;
+		const prefix = this.readPrefixLabel();
+		if (this.peek() !== ":") {
+			this.pos = start;
+			throw this.error("Expected IRI");
+		}
+		this.pos++;
+		const namespace = this.prefixes[prefix];
+		if (namespace === undefined) {
+			this.pos = start;
+			throw this.error(`Undefined prefix '${prefix}:'`);
+		}
+		return this.factory.namedNode(namespace + this.readLocalName());
+	}
+
+	private readPrefixLabel(): string {
+		const start = this.pos;
+		const first = this.peek();
+		if (first === undefined || !PN_CHARS_BASE.test(first)) {
+			return "";
+		}
+		this.pos += first.length;
+		for (;;) {
+			const char = this.peekChar();
+			if (char !== undefined && PN_CHARS.test(char)) {
+				this.pos += char.length;
+			} else if (char === "." && this.isPrefixContinuation(this.pos + 1)) {
+				this.pos++;
+			} else {
+				break;
+			}
+		}
+		return this.text.slice(start, this.pos);
+	}
+
+	private isPrefixContinuation(pos: number): boolean {
+		const char = String.fromCodePoint(this.text.codePointAt(pos) ?? 0);
+		return PN_CHARS.test(char) || char === ".";
+	}
+
+	private readLocalName(): string {
+		let value = "";
+		let first = true;
+		for (;;) {
+			const char = this.peekChar();
+			if (char === undefined) {
+				break;
+			}
+			if (char === "\\") {
+				const escaped = this.text[this.pos + 1];
+				if (escaped === undefined || !LOCAL_ESCAPES.includes(escaped)) {
+					throw this.error("Invalid escape in local name");
+				}
+				value += escaped;
+				this.pos += 2;
+			} else if (char === "%") {
+				const hex = this.text.slice(this.pos + 1, this.pos + 3);
+				if (!/^[0-9A-Fa-f]{2}$/.test(hex)) {
+					throw this.error("Invalid percent encoding in local name");
+				}
+				value += `%${hex}`;
+				this.pos += 3;
+			} else if (
+				char === ":" ||
+				(first
+					? PN_CHARS_BASE.test(char) || /[_0-9]/.test(char)
+					: PN_CHARS.test(char))
+			) {
+				value += char;
+				this.pos += char.length;
+			} else if (
+				char === "." &&
+				!first &&
+				this.isLocalContinuation(this.pos + 1)
+			) {
+				value += char;
+				this.pos++;
+			} else {
+				break;
+			}
+			first = false;
+		}
+		return value;
+	}
+
+	private isLocalContinuation(pos: number): boolean {
+		const char = String.fromCodePoint(this.text.codePointAt(pos) ?? 0);
+		return (
+			PN_CHARS.test(char) ||
+			char === "." ||
+			char === ":" ||
+			char === "%" ||
+			char === "\\"
+		);
+	}
+
+	private readBlankNode(): BlankNode {
+		this.expect("_:");
+		const start = this.pos;
+		const first = this.peekChar();
+		if (
+			first === undefined ||
+			!(PN_CHARS_BASE.test(first) || /[_0-9]/.test(first))
+		) {
+			throw this.error("Invalid blank node label");
+		}
+		this.pos += first.length;
+		for (;;) {
+			const char = this.peekChar();
+			if (char !== undefined && PN_CHARS.test(char)) {
+				this.pos += char.length;
+			} else if (char === "." && this.isPrefixContinuation(this.pos + 1)) {
+				this.pos++;
+			} else {
+				break;
+			}
+		}
+		const label = this.text.slice(start, this.pos);
+		let node = this.blankNodes.get(label);
+		if (!node) {
+			node = this.factory.blankNode();
+			this.blankNodes.set(label, node);
+		}
+		return node;
+	}
+
+	private readLiteral(): Literal {
+		const value = this.readString();
+
+		if (this.peek() === "@") {
+			this.pos++;
+			const match = LANGUAGE_TAG.exec(this.text.slice(this.pos));
+			if (!match) {
+				throw this.error("Invalid language tag");
+			}
+			this.pos += match[0].length;
+			return this.factory.literal(value, match[0]);
+		}
+
+		if (this.text.startsWith("^^", this.pos)) {
+			this.pos += 2;
+			return this.factory.literal(value, this.readIri());
+		}
+
+		return this.factory.literal(value);
+	}
+
+	private readString(): string {
+		const quote = this.peek() as '"' | "'";
+		const long = this.text.startsWith(quote.repeat(3), this.pos);
+		const delimiter = long ? quote.repeat(3) : quote;
+		this.pos += delimiter.length;
+
+		let value = "";
+		for (;;) {
+			if (this.text.startsWith(delimiter, this.pos)) {
+				this.pos += delimiter.length;
+				// A long string may end with up to two extra quote characters
+				while (long && this.peek() === quote) {
+					value += quote;
+					this.pos++;
+				}
+				return value;
+			}
+			const char = this.text[this.pos];
+			if (char === undefined || (!long && (char === "\n" || char === "\r"))) {
+				throw this.error("Unterminated string literal");
+			}
+			this.pos++;
+			if (char === "\\") {
+				const next = this.text[this.pos];
+				const escaped = next === undefined ? undefined : ECHAR[next];
+				if (escaped !== undefined) {
+					this.pos++;
+					value += escaped;
+				} else {
+					value += this.readUnicodeEscape();
+				}
+			} else {
+				value += char;
+			}
+		}
+	}
+
+	private readNumber(lexical: string): Literal {
+		this.pos += lexical.length;
+		const datatype = /[eE]/.test(lexical)
+			? XSD_DOUBLE
+			: lexical.includes(".")
+				? XSD_DECIMAL
+				: XSD_INTEGER;
+		return this.factory.literal(lexical, this.factory.namedNode(datatype));
+	}
+
+	/** Read a \uXXXX or \UXXXXXXXX escape (the backslash is already consumed) */
+	private readUnicodeEscape(): string {
+		const kind = this.text[this.pos];
+		const length = kind === "u" ? 4 : kind === "U" ? 8 : 0;
+		const hex = this.text.slice(this.pos + 1, this.pos + 1 + length);
+		if (!length || !/^[0-9A-Fa-f]+$/.test(hex) || hex.length !== length) {
+			throw this.error("Invalid escape sequence");
+		}
+		this.pos += 1 + length;
+		const codePoint = Number.parseInt(hex, 16);
+		if (codePoint > 0x10ffff) {
+			throw this.error("Invalid code point in escape sequence");
+		}
+		return String.fromCodePoint(codePoint);
+	}
+
+	private emit(
+		subject: QuadSubject,
+		predicate: QuadPredicate,
+		object: QuadObject,
+	): void {
+		this.quads.push(this.factory.quad(subject, predicate, object, this.graph));
+	}
+
+	/** Match a case-insensitive SPARQL-style keyword followed by a delimiter */
+	private matchKeyword(keyword: string): boolean {
+		const candidate = this.text.slice(this.pos, this.pos + keyword.length);
+		if (
+			candidate.toUpperCase() === keyword &&
+			/\s|<|\[|\{/.test(this.peek(keyword.length) ?? "")
+		) {
+			this.pos += keyword.length;
+			return true;
+		}
+		return false;
+	}
+
+	private isDelimiter(char: string | undefined): boolean {
+		return char === undefined || /[\s;,.()[\]{}<"'#]/.test(char);
+	}
+
+	private peek(offset = 0): string | undefined {
+		return this.text[this.pos + offset];
+	}
+
+	/** Peek a full code point (local names may contain astral characters) */
+	private peekChar(): string | undefined {
+		const codePoint = this.text.codePointAt(this.pos);
+		return codePoint === undefined
+			? undefined
+			: String.fromCodePoint(codePoint);
+	}
+
+	private expect(token: string): void {
+		if (!this.text.startsWith(token, this.pos)) {
+			throw this.error(`Expected '${token}'`);
+		}
+		this.pos += token.length;
+	}
+
+	private skipWhitespace(): void {
+		for (;;) {
+			const char = this.peek();
+			if (char === "#") {
+				while (
+					this.pos < this.text.length &&
+					!/[\r\n]/.test(this.text[this.pos] ?? "")
+				) {
+					this.pos++;
+				}
+			} else if (char !== undefined && /\s/.test(char)) {
+				this.pos++;
+			} else {
+				return;
+			}
+		}
+	}
+
+	private error(message: string): RDFParseError {
+		const before = this.text.slice(0, this.pos);
+		const line = before.split("\n").length;
+		const column = this.pos - before.lastIndexOf("\n");
+		return new RDFParseError(message, line, column);
+	}
+}
+
+/** Resolve a relative IRI reference against a base IRI (RFC 3986) */
+export function resolveIri(reference: string, base: string): string {
+	if (/^[A-Za-z][A-Za-z0-9+.-]*:/.test(reference)) {
+		return reference;
+	}
+
+	const match = /^([^:/?#]+:)?(\/\/[^/?#]*)?([^?#]*)(\?[^#]*)?(#.*)?$/.exec(
+		base,
+	);
+	const scheme = match?.[1] ?? "";
+	const authority = match?.[2];
+	const basePath = match?.[3] ?? "";
+	const baseQuery = match?.[4];
+
+	if (reference === "") {
+		return `${scheme}${authority ?? ""}${basePath}${baseQuery ?? ""}`;
+	}
+	if (reference.startsWith("#")) {
+		return `${scheme}${authority ?? ""}${basePath}${baseQuery ?? ""}${reference}`;
+	}
+	if (reference.startsWith("//")) {
+		return `${scheme}${reference}`;
+	}
+	if (reference.startsWith("?")) {
+		return `${scheme}${authority ?? ""}${basePath}${reference}`;
+	}
+
+	const [pathAndQuery = "", fragment] = splitOnce(reference, "#");
+	const [path = "", query] = splitOnce(pathAndQuery, "?");
+	let merged: string;
+	if (path.startsWith("/")) {
+		merged = path;
+	} else if (authority !== undefined && basePath === "") {
+		merged = `/${path}`;
+	} else {
+		merged = basePath.slice(0, basePath.lastIndexOf("/") + 1) + path;
+	}
+
+	return (
+		scheme +
+		(authority ?? "") +
+		removeDotSegments(merged) +
+		(query !== undefined ? `?${query}` : "") +
+		(fragment !== undefined ? `#${fragment}` : "")
+	);
+}
+
+function splitOnce(value: string, separator: string): [string, string?] {
+	const index = value.indexOf(separator);
+	return index === -1
+		? [value]
+		: [value.slice(0, index), value.slice(index + 1)];
+}
+
+function removeDotSegments(path: string): string {
+	const output: string[] = [];
+	const segments = path.split("/");
+	segments.forEach((segment, i) => {
+		const last = i === segments.length - 1;
+		if (segment === "..") {
+			if (output.length > 1) {
+				output.pop();
+			}
+			if (last) {
+				output.push("");
+			}
+		} else if (segment === ".") {
+			if (last) {
+				output.push("");
+			}
+		} else {
+			output.push(segment);
+		}
+	});
+	return output.join("/");
+}
+
+/** Parse a Turtle document */
+export function parseTurtle(
+	text: string,
+	options?: Omit<TurtleParserOptions, "format">,
+): Quad[] {
+	return new TurtleParser({ ...options, format: "turtle" }).parse(text);
+}
+
+/** Parse a TriG document */
+export function parseTriG(
+	text: string,
+	options?: Omit<TurtleParserOptions, "format">,
+): Quad[] {
+	return new TurtleParser({ ...options, format: "trig" }).parse(text);
+}
+
+/** Pretty-printing writer for Turtle and TriG documents */
+export class TurtleWriter {
+	private readonly trig: boolean;
+	private readonly prefixes: Array<[string, string]>;
+	private readonly usedPrefixes = new Set<string>();
+
+	constructor(options: TurtleWriterOptions = {}) {
+		this.trig = options.format === "trig";
+		// Prefer the longest matching namespace
+		this.prefixes = Object.entries(options.prefixes ?? {}).sort(
+			(a, b) => b[1].length - a[1].length,
+		);
+	}
+
+	/** Serialize quads into a document */
+	write(quads: Iterable<Quad>): string {
+		this.usedPrefixes.clear();
+
+		const graphs = new Map<string, { graph: QuadGraph; quads: Quad[] }>();
+		for (const quad of quads) {
+			const graph = this.trig ? quad.graph : dataFactory.defaultGraph();
+			const key = `${graph.termType}:${graph.value}`;
+			let entry = graphs.get(key);
+			if (!entry) {
+				entry = { graph, quads: [] };
+				graphs.set(key, entry);
+			}
+			entry.quads.push(quad);
+		}
+
+		const blocks: string[] = [];
+		for (const { graph, quads: graphQuads } of graphs.values()) {
+			const body = this.writeGraph(graphQuads);
+			if (graph.termType === "DefaultGraph") {
+				blocks.push(body);
+			} else {
+				const indented = body.replace(/^(?=.)/gm, "\t");
+				blocks.push(`${this.writeTerm(graph)} {\n${indented}}\n`);
+			}
+		}
+
+		const header = this.prefixes
+			.filter(([prefix]) => this.usedPrefixes.has(prefix))
+			.sort(([a], [b]) => a.localeCompare(b))
+			.map(
+				([prefix, namespace]) =>
+					`@prefix ${prefix}: <${escapeIri(namespace)}> .\n`,
+			)
+			.join("");
+
+		return [header, ...blocks].filter(Boolean).join("\n");
+	}
+
+	private writeGraph(quads: Quad[]): string {
+		const subjects = new Map<string, { subject: QuadSubject; quads: Quad[] }>();
+		const references = new Map<string, number>();
+		const reference = (term: Term, weight: number) => {
+			if (term.termType === "BlankNode") {
+				const key = termKey(term);
+				references.set(key, (references.get(key) ?? 0) + weight);
+			} else if (term.termType === "Quad") {
+				// Blank nodes inside quoted triples must keep their labels
+				reference(term.subject, 2);
+				reference(term.object, 2);
+			}
+		};
+
+		for (const quad of quads) {
+			const key = termKey(quad.subject);
+			let entry = subjects.get(key);
+			if (!entry) {
+				entry = { subject: quad.subject, quads: [] };
+				subjects.set(key, entry);
+			}
+			entry.quads.push(quad);
+			if (quad.subject.termType === "Quad") {
+				reference(quad.subject, 2);
+			}
+			reference(quad.object, 1);
+		}
+
+		// Blank nodes referenced exactly once are nested inline as [ ... ]
+		const context: WriteContext = {
+			subjects,
+			inlined: new Set(),
+			written: new Set(),
+		};
+		for (const [key, count] of references) {
+			if (count === 1) {
+				context.inlined.add(key);
+			}
+		}
+
+		let result = "";
+		for (const [key, entry] of subjects) {
+			if (!context.inlined.has(key)) {
+				result += this.writeStatement(key, entry, context);
+			}
+		}
+
+		// Blank nodes only reachable through a cycle are written with a label
+		for (const [key, entry] of subjects) {
+			if (!context.written.has(key)) {
+				context.inlined.delete(key);
+				result += this.writeStatement(key, entry, context);
+			}
+		}
+		return result;
+	}
+
+	private writeStatement(
+		key: string,
+		entry: { subject: QuadSubject; quads: Quad[] },
+		context: WriteContext,
+	): string {
+		context.written.add(key);
+		return `${this.writeTerm(entry.subject)} ${this.writePredicates(entry.quads, context, 1)} .\n`;
+	}
+
+	private writePredicates(
+		quads: Quad[],
+		context: WriteContext,
+		depth: number,
+	): string {
+		const predicates = new Map<
+			string,
+			{ predicate: QuadPredicate; objects: QuadObject[] }
+		>();
+		for (const quad of quads) {
+			const key = termKey(quad.predicate);
+			let entry = predicates.get(key);
+			if (!entry) {
+				entry = { predicate: quad.predicate, objects: [] };
+				predicates.set(key, entry);
+			}
+			entry.objects.push(quad.object);
+		}
+
+		// Write rdf:type first, as is conventional
+		const ordered = [...predicates.values()].sort(
+			(a, b) =>
+				Number(b.predicate.value === RDF_TYPE) -
+				Number(a.predicate.value === RDF_TYPE),
+		);
+
+		const indent = "\t".repeat(depth);
+		return ordered
+			.map(({ predicate, objects }) => {
+				const verb =
+					predicate.value === RDF_TYPE && predicate.termType === "NamedNode"
+						? "a"
+						: this.writeTerm(predicate);
+				const values = objects.map((object) =>
+					this.writeObject(object, context, depth),
+				);
+				return `${verb} ${values.join(", ")}`;
+			})
+			.join(` ;\n${indent}`);
+	}
+
+	private writeObject(
+		object: QuadObject,
+		context: WriteContext,
+		depth: number,
+	): string {
+		if (termKey(object) === NIL_KEY) {
+			return "()";
+		}
+		if (object.termType !== "BlankNode") {
+			return this.writeTerm(object);
+		}
+
+		const key = termKey(object);
+		if (!context.inlined.has(key) || context.written.has(key)) {
+			return this.writeTerm(object);
+		}
+
+		const list = listItems(key, context);
+		if (list) {
+			for (const node of list.nodes) {
+				context.written.add(node);
+			}
+			const items = list.items.map((item) =>
+				this.writeObject(item, context, depth),
+			);
+			return `( ${items.join(" ")} )`;
+		}
+
+		context.written.add(key);
+		const entry = context.subjects.get(key);
+		if (!entry) {
+			return "[]";
+		}
+		const indent = "\t".repeat(depth);
+		const nested = this.writePredicates(entry.quads, context, depth + 1);
+		return `[\n${indent}\t${nested}\n${indent}]`;
+	}
+
+	private writeTerm(term: Term): string {
+		switch (term.termType) {
+			case "NamedNode":
+				return this.writeIri(term.value);
+			case "BlankNode":
+				return `_:${term.value}`;
+			case "Literal":
+				return this.writeLiteral(term);
+			case "Variable":
+				return `?${term.value}`;
+			case "DefaultGraph":
+				return "";
+			case "Quad":
+				return `<< ${this.writeTerm(term.subject)} ${this.writeTerm(term.predicate)} ${this.writeTerm(term.object)} >>`;
+		}
+	}
+
+	private writeIri(iri: string): string {
+		for (const [prefix, namespace] of this.prefixes) {
+			if (iri.startsWith(namespace)) {
+				const local = iri.slice(namespace.length);
+				if (isSimpleLocalName(local)) {
+					this.usedPrefixes.add(prefix);
+					return `${prefix}:${local}`;
+				}
+			}
+		}
+		return `<${escapeIri(iri)}>`;
+	}
+
+	private writeLiteral(literal: Literal): string {
+		const datatype = literal.datatype.value;
+		if (
+			(datatype === XSD_INTEGER && /^[+-]?[0-9]+$/.test(literal.value)) ||
+			(datatype === XSD_DECIMAL &&
+				/^[+-]?[0-9]*\.[0-9]+$/.test(literal.value)) ||
+			(datatype === XSD_DOUBLE &&
+				/^[+-]?(?:[0-9]+\.[0-9]*|\.[0-9]+|[0-9]+)[eE][+-]?[0-9]+$/.test(
+					literal.value,
+				)) ||
+			(datatype === XSD_BOOLEAN && /^(?:true|false)$/.test(literal.value))
+		) {
+			return literal.value;
+		}
+
+		const quoted = `"${escapeLiteral(literal.value)}"`;
+		if (literal.language) {
+			return `${quoted}@${literal.language}`;
+		}
+		if (datatype === `${Namespaces.XSD}string`) {
+			return quoted;
+		}
+		return `${quoted}^^${this.writeIri(datatype)}`;
+	}
+}
+
+interface WriteContext {
+	subjects: Map<string, { subject: QuadSubject; quads: Quad[] }>;
+	/** Blank nodes to nest at their single point of reference */
+	inlined: Set<string>;
+	/** Subjects whose statements have already been written */
+	written: Set<string>;
+}
+
+const NIL_KEY = `NamedNode:${RDF_NIL}`;
+
+/**
+ * Items of the well-formed list starting at a blank node, or undefined if
+ * it cannot be written as `( ... )`: every node must be referenced once
+ * and have exactly one `rdf:first` and one `rdf:rest`, ending in `rdf:nil`
+ */
+function listItems(
+	key: string,
+	context: WriteContext,
+): { items: QuadObject[]; nodes: string[] } | undefined {
+	const items: QuadObject[] = [];
+	const nodes: string[] = [];
+	for (let node = key; node !== NIL_KEY; ) {
+		const quads = context.subjects.get(node)?.quads ?? [];
+		const first = quads.find(
+			(quad) => termKey(quad.predicate) === `NamedNode:${RDF_FIRST}`,
+		);
+		const rest = quads.find(
+			(quad) => termKey(quad.predicate) === `NamedNode:${RDF_REST}`,
+		);
+		if (
+			!first ||
+			!rest ||
+			quads.length !== 2 ||
+			!context.inlined.has(node) ||
+			context.written.has(node) ||
+			nodes.includes(node)
+		) {
+			return undefined;
+		}
+		items.push(first.object);
+		nodes.push(node);
+		node = termKey(rest.object);
+	}
+	return { items, nodes };
+}
+
+function termKey(term: Term): string {
+	return term.termType === "Quad"
+		? `Quad:${termKey(term.subject)} ${termKey(term.predicate)} ${termKey(term.object)}`
+		: `${term.termType}:${term.value}`;
+}
+
+function isSimpleLocalName(local: string): boolean {
+	return /^(?:[A-Za-z0-9_](?:[A-Za-z0-9_.-]*[A-Za-z0-9_-])?)?$/.test(local);
+}
+
+/** Serialize quads as a Turtle document (graphs are ignored) */
+export function serializeTurtle(
+	quads: Iterable<Quad>,
+	options?: Omit<TurtleWriterOptions, "format">,
+): string {
+	return new TurtleWriter({ ...options, format: "turtle" }).write(quads);
+}
+
+/** Serialize quads as a TriG document */
+export function serializeTriG(
+	quads: Iterable<Quad>,
+	options?: Omit<TurtleWriterOptions, "format">,
+): string {
+	return new TurtleWriter({ ...options, format: "trig" }).write(quads);
+}
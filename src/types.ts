@@ -1,3 +1,9 @@
+import type { ResponseDecoder } from "./decoders.ts";
+import type { Middleware } from "./middleware.ts";
+import type { RepositoryTypeOptions } from "./repository-config.ts";
+import type { ShaclValidationResult } from "./shacl-report.ts";
+import type { Quad } from "./terms.ts";
+
 /** RDF4J client configuration */
 export interface RDF4JConfig {
 	/** Base URL of the RDF4J server (e.g., "http://localhost:8080/rdf4j-server") */
@@ -11,6 +17,47 @@ export interface RDF4JConfig {
 	timeout?: number;
 	/** Custom headers to include in all requests */
 	headers?: Record<string, string>;
+	/** Additional response decoders keyed by media type */
+	decoders?: Record<string, ResponseDecoder>;
+	/** Retry failed requests (default: a single attempt) */
+	retry?: RetryPolicy;
+	/**
+	 * Middleware wrapping every request attempt, outermost first. Error
+	 * responses pass through middleware before being raised as RDF4JError.
+	 */
+	middleware?: Middleware[];
+	/** Transport used for every request (default: the global `fetch`) */
+	fetch?: Transport;
+}
+
+/** A fetch-compatible function that performs HTTP requests */
+export type Transport = (url: string, init: RequestInit) => Promise<Response>;
+
+/**
+ * Retry policy for failed requests. Only idempotent requests (GET, HEAD,
+ * PUT, DELETE and read-only query POSTs) are retried unless
+ * `retryNonIdempotent` is set; SPARQL updates, uploads and transaction
+ * actions are otherwise never retried.
+ */
+export interface RetryPolicy {
+	/** Total number of attempts, including the first (default: 3) */
+	maxAttempts?: number;
+	/** Delay before the first retry in milliseconds (default: 200) */
+	initialDelay?: number;
+	/** Upper bound for any single delay in milliseconds (default: 10000) */
+	maxDelay?: number;
+	/** Backoff multiplier applied per attempt (default: 2) */
+	multiplier?: number;
+	/** Randomize delays between zero and the backoff (default: true) */
+	jitter?: boolean;
+	/** HTTP statuses that are retried (default: 408, 429, 502, 503, 504) */
+	retryableStatuses?: number[];
+	/** Retry connection failures and timeouts (default: true) */
+	retryNetworkErrors?: boolean;
+	/** Wait for the server's `Retry-After` delay when given (default: true) */
+	respectRetryAfter?: boolean;
+	/** Also retry non-idempotent requests such as updates (default: false) */
+	retryNonIdempotent?: boolean;
 }
 
 /** HTTP methods supported by the client */
@@ -22,14 +69,27 @@ export interface RequestOptions {
 	headers?: Record<string, string>;
 	/** Query parameters */
 	params?: Record<string, string | number | boolean | undefined>;
-	/** Request body */
-	body?: string | object;
+	/** Request body (objects are sent as JSON, bytes as-is) */
+	body?: string | Uint8Array | object;
 	/** Content type (defaults based on body type) */
 	contentType?: string;
 	/** Expected response type */
 	accept?: string;
-	/** Request timeout override */
+	/** Request timeout override (applies to each attempt) */
 	timeout?: number;
+	/**
+	 * Whether the request may be retried; defaults to true for GET, HEAD,
+	 * PUT and DELETE and false otherwise
+	 */
+	idempotent?: boolean;
+	/** Cancels the request, including retries, when aborted */
+	signal?: AbortSignal;
+}
+
+/** Cancellation option accepted by every API call */
+export interface SignalOptions {
+	/** Cancels the call when aborted, raising `AbortError` */
+	signal?: AbortSignal;
 }
 
 /** RDF4J API error response */
@@ -46,12 +106,179 @@ export class RDF4JError extends Error {
 		public readonly status: number,
 		public readonly statusText: string,
 		public readonly response?: RDF4JErrorResponse,
+		/** Response headers of the failed request */
+		public readonly headers?: Headers,
+		options?: ErrorOptions,
 	) {
-		super(message);
+		super(message, options);
 		this.name = "RDF4JError";
 	}
 }
 
+/** The query or update could not be parsed (`MALFORMED QUERY`) */
+export class MalformedQueryError extends RDF4JError {
+	/** Line of the syntax error, if reported */
+	readonly line?: number;
+	/** Column of the syntax error, if reported */
+	readonly column?: number;
+
+	constructor(...args: ConstructorParameters<typeof RDF4JError>) {
+		super(...args);
+		this.name = "MalformedQueryError";
+		const position = /line (\d+), column (\d+)/.exec(
+			this.response?.message ?? this.message,
+		);
+		if (position) {
+			this.line = Number(position[1]);
+			this.column = Number(position[2]);
+		}
+	}
+}
+
+/** The repository, graph, namespace or other resource does not exist (HTTP 404) */
+export class NotFoundError extends RDF4JError {
+	constructor(...args: ConstructorParameters<typeof RDF4JError>) {
+		super(...args);
+		this.name = "NotFoundError";
+	}
+}
+
+/** The transaction does not exist, e.g. because it timed out on the server */
+export class TransactionNotFoundError extends NotFoundError {
+	constructor(...args: ConstructorParameters<typeof RDF4JError>) {
+		super(...args);
+		this.name = "TransactionNotFoundError";
+	}
+}
+
+/** Credentials are missing or not allowed to perform the request (HTTP 401, 403) */
+export class UnauthorizedError extends RDF4JError {
+	constructor(...args: ConstructorParameters<typeof RDF4JError>) {
+		super(...args);
+		this.name = "UnauthorizedError";
+	}
+}
+
+/** The request conflicts with the repository state (HTTP 409) */
+export class ConflictError extends RDF4JError {
+	constructor(...args: ConstructorParameters<typeof RDF4JError>) {
+		super(...args);
+		this.name = "ConflictError";
+	}
+}
+
+/** The server does not accept the request's content type (HTTP 415) */
+export class UnsupportedMediaTypeError extends RDF4JError {
+	constructor(...args: ConstructorParameters<typeof RDF4JError>) {
+		super(...args);
+		this.name = "UnsupportedMediaTypeError";
+	}
+}
+
+/** No response arrived within the request timeout (`status` 0) */
+export class TimeoutError extends RDF4JError {
+	constructor(
+		message: string,
+		/** Timeout in milliseconds that elapsed */
+		public readonly timeout: number,
+		options?: ErrorOptions,
+	) {
+		super(message, 0, "", undefined, undefined, options);
+		this.name = "TimeoutError";
+	}
+}
+
+/**
+ * The request was cancelled through its signal (`status` 0); `cause` holds
+ * the abort reason
+ */
+export class AbortError extends RDF4JError {
+	constructor(message: string, options?: ErrorOptions) {
+		super(message, 0, "", undefined, undefined, options);
+		this.name = "AbortError";
+	}
+}
+
+/**
+ * The server could not be reached (`status` 0); `cause` holds the
+ * transport's error
+ */
+export class NetworkError extends RDF4JError {
+	constructor(message: string, options?: ErrorOptions) {
+		super(message, 0, "", undefined, undefined, options);
+		this.name = "NetworkError";
+	}
+}
+
+/**
+ * Error raised when a write is rejected because the data does not conform
+ * to the repository's SHACL shapes
+ */
+export class ShaclValidationError extends ConflictError {
+	constructor(
+		/** Results of the validation report */
+		public readonly results: ShaclValidationResult[],
+		/** The complete validation report */
+		public readonly report: Quad[],
+		status: number,
+		statusText: string,
+		headers?: Headers,
+	) {
+		const [first] = results;
+		super(
+			first === undefined
+				? "SHACL validation failed"
+				: `SHACL validation failed with ${results.length} result(s); first: ${first.message ?? first.constraintComponent ?? first.severity} (focus node ${first.focusNode.value})`,
+			status,
+			statusText,
+			undefined,
+			headers,
+		);
+		this.name = "ShaclValidationError";
+	}
+}
+
+/** Error raised when an RDF document cannot be parsed */
+export class RDFParseError extends Error {
+	constructor(
+		message: string,
+		public readonly line?: number,
+		public readonly column?: number,
+	) {
+		super(
+			line === undefined
+				? message
+				: `${message} (line ${line}, column ${column ?? 0})`,
+		);
+		this.name = "RDFParseError";
+	}
+}
+
+/** Error reported by the server inside a query results stream */
+export class QueryResultsError extends Error {
+	constructor(
+		message: string,
+		public readonly errorType: "MALFORMED_QUERY" | "QUERY_EVALUATION",
+	) {
+		super(message);
+		this.name = "QueryResultsError";
+	}
+}
+
+/** Error raised when a query result cannot be mapped to native values */
+export class ResultMappingError extends Error {
+	constructor(
+		message: string,
+		/** Variable whose value could not be mapped */
+		public readonly variable?: string,
+		/** Index of the solution within the results */
+		public readonly row?: number,
+	) {
+		super(row === undefined ? message : `${message} (row ${row})`);
+		this.name = "ResultMappingError";
+	}
+}
+
 /** Common RDF content types */
 export const ContentTypes = {
 	// RDF formats
@@ -71,6 +298,8 @@ export const ContentTypes = {
 	SPARQL_UPDATE: "application/sparql-update",
 	SPARQL_RESULTS_JSON: "application/sparql-results+json",
 	SPARQL_RESULTS_XML: "application/sparql-results+xml",
+	SPARQL_RESULTS_TSV: "text/tab-separated-values",
+	SPARQL_RESULTS_CSV: "text/csv",
 	BINARY_RDF_RESULTS: "application/x-binary-rdf-results-table",
 
 	// Transaction format
@@ -114,11 +343,28 @@ export type RepositoryType =
 	| "federation";
 
 /** Repository configuration */
-export interface RepositoryConfig {
+export interface RepositoryConfig<T extends RepositoryType = RepositoryType> {
+	id: string;
+	title?: string;
+	/** Repository type (default: `memory`) */
+	type?: T;
+	/** Store and repository settings for the type */
+	options?: RepositoryTypeOptions[T];
+	/** Complete configuration in Turtle format; overrides `type` and `options` */
+	configTurtle?: string;
+}
+
+/**
+ * Repository configuration with the type as a plain string, e.g. a name
+ * read from user input. Options are not checked against the type; names
+ * that are not a `RepositoryType` are rejected with a TypeError.
+ */
+export interface UntypedRepositoryConfig {
 	id: string;
 	title?: string;
-	type?: RepositoryType | string;
-	/** Additional configuration as RDF in Turtle format */
+	type?: string;
+	options?: object;
+	/** Complete configuration in Turtle format; overrides `type` and `options` */
 	configTurtle?: string;
 }
 
@@ -130,5 +376,6 @@ export type TransactionAction =
 	| "QUERY"
 	| "UPDATE"
 	| "SIZE"
+	| "PREPARE"
 	| "COMMIT"
 	| "ROLLBACK";
@@ -0,0 +1,175 @@
+import { RDFParseError } from "./types.ts";
+
+/** Minimal XML element tree */
+export interface XmlElement {
+	/** Qualified element name, including any namespace prefix */
+	name: string;
+	attributes: Record<string, string>;
+	children: Array<XmlElement | string>;
+}
+
+const ENTITIES: Record<string, string> = {
+	lt: "<",
+	gt: ">",
+	amp: "&",
+	quot: '"',
+	apos: "'",
+};
+
+/** Decode predefined and numeric character references */
+export function decodeXmlEntities(text: string): string {
+	return text.replace(/&(#x[0-9A-Fa-f]+|#[0-9]+|[A-Za-z]+);/g, (match, ref) => {
+		if (ref.startsWith("#x")) {
+			return String.fromCodePoint(Number.parseInt(ref.slice(2), 16));
+		}
+		if (ref.startsWith("#")) {
+			return String.fromCodePoint(Number.parseInt(ref.slice(1), 10));
+		}
+		const entity = ENTITIES[ref];
+		if (entity === undefined) {
+			throw new RDFParseError(`Unknown XML entity ${match}`);
+		}
+		return entity;
+	});
+}
+
+/** Escape text for use in XML content or attribute values */
+export function escapeXml(text: string): string {
+	return text.replace(/[<>&"']/g, (char) => {
+		switch (char) {
+			case "<":
+				return "&lt;";
+			case ">":
+				return "&gt;";
+			case "&":
+				return "&amp;";
+			case '"':
+				return "&quot;";
+			default:
+				return "&apos;";
+		}
+	});
+}
+
+/** Local part of a qualified XML name */
+export function localName(name: string): string {
+	return name.slice(name.indexOf(":") + 1);
+}
+
+/**
+ * Parse an XML document into an element tree. Supports elements,
+ * attributes, text, CDATA sections, comments and processing instructions;
+ * DTDs are skipped and no external entities are resolved.
+ */
+export function parseXml(text: string): XmlElement {
+	const root: XmlElement = { name: "", attributes: {}, children: [] };
+	const stack: XmlElement[] = [root];
+	let pos = 0;
+
+	const error = (message: string) => {
+		const before = text.slice(0, pos);
+		const line = before.split("\n").length;
+		return new RDFParseError(message, line, pos - before.lastIndexOf("\n"));
+	};
+
+	const skipPast = (token: string) => {
+		const end = text.indexOf(token, pos);
+		if (end === -1) {
+			throw error(`Expected '${token}'`);
+		}
+		pos = end + token.length;
+	};
+
+	while (pos < text.length) {
+		const current = stack[stack.length - 1] as XmlElement;
+		const tagStart = text.indexOf("<", pos);
+
+		if (tagStart !== pos) {
+			const end = tagStart === -1 ? text.length : tagStart;
+			const content = text.slice(pos, end);
+			if (stack.length > 1) {
+				current.children.push(decodeXmlEntities(content));
+			} else if (content.trim()) {
+				throw error("Text outside of the document element");
+			}
+			pos = end;
+			continue;
+		}
+
+		if (text.startsWith("<!--", pos)) {
+			skipPast("-->");
+		} else if (text.startsWith("<![CDATA[", pos)) {
+			const end = text.indexOf("]]>", pos);
+			if (end === -1) {
+				throw error("Unterminated CDATA section");
+			}
+			current.children.push(text.slice(pos + 9, end));
+			pos = end + 3;
+		} else if (text.startsWith("<?", pos)) {
+			skipPast("?>");
+		} else if (text.startsWith("<!", pos)) {
+			skipPast(">");
+		} else if (text.startsWith("</", pos)) {
+			const end = text.indexOf(">", pos);
+			const name = text.slice(pos + 2, end === -1 ? undefined : end).trim();
+			if (end === -1 || name !== current.name) {
+				throw error(`Unexpected closing tag </${name}>`);
+			}
+			stack.pop();
+			pos = end + 1;
+		} else {
+			const match =
+				/^<([^\s/>]+)((?:\s+[^\s=/>]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>/.exec(
+					text.slice(pos),
+				);
+			if (!match) {
+				throw error("Malformed start tag");
+			}
+			const [tag, name = "", attributeText = "", selfClosing] = match;
+			const element: XmlElement = { name, attributes: {}, children: [] };
+			for (const attribute of attributeText.matchAll(
+				/([^\s=]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g,
+			)) {
+				element.attributes[attribute[1] as string] = decodeXmlEntities(
+					attribute[2] ?? attribute[3] ?? "",
+				);
+			}
+			if (stack.length === 1 && root.children.length > 0) {
+				throw error("Multiple document elements");
+			}
+			current.children.push(element);
+			if (!selfClosing) {
+				stack.push(element);
+			}
+			pos += tag.length;
+		}
+	}
+
+	if (stack.length > 1) {
+		throw error(`Unclosed element <${stack[stack.length - 1]?.name}>`);
+	}
+	const [documentElement] = root.children;
+	if (!documentElement || typeof documentElement === "string") {
+		throw error("Missing document element");
+	}
+	return documentElement;
+}
+
+/** Child elements of an element, optionally filtered by local name */
+export function childElements(
+	element: XmlElement,
+	name?: string,
+): XmlElement[] {
+	return element.children.filter(
+		(child): child is XmlElement =>
+			typeof child !== "string" &&
+			(name === undefined || localName(child.name) === name),
+	);
+}
+
+/** Concatenated text content of an element and its descendants */
+export function textContent(element: XmlElement): string {
+	return element.children
+		.map((child) => (typeof child === "string" ? child : textContent(child)))
+		.join("");
+}